@@ -5,6 +5,8 @@
 
 import * as picomatch from 'picomatch';
 import { URI } from 'vscode-uri';
+import { ISlugifier } from './slugify';
+import { isParentDir } from './util/path';
 
 /**
  * Preferred style for file paths to {@link markdownFileExtensions markdown files}.
@@ -26,6 +28,29 @@ export enum PreferredMdPathExtensionStyle {
 	removeExtension = 'removeExtension',
 }
 
+/**
+ * Selects the {@link ISlugifier slugifier} to use for all documents in a workspace folder.
+ */
+export interface WorkspaceFolderSlugifier {
+	readonly folder: URI;
+	readonly slugifier: ISlugifier;
+}
+
+/**
+ * Maps urls of a published site to the workspace folder that the site is built from.
+ */
+export interface SiteUrlMapping {
+	/**
+	 * Url prefix of the site, for example `https://docs.example.com/`.
+	 */
+	readonly urlPrefix: string;
+
+	/**
+	 * Folder that pages under {@linkcode urlPrefix} are built from.
+	 */
+	readonly folder: URI;
+}
+
 export interface LsConfiguration {
 	/**
 	 * List of file extensions should be considered markdown.
@@ -57,6 +82,46 @@ export interface LsConfiguration {
 	 * This is used for paths added by the language service, such as for path completions and on file renames.
 	 */
 	readonly preferredMdPathExtensionStyle?: PreferredMdPathExtensionStyle;
+
+	/**
+	 * Enable support for wiki style links such as `[[Page]]` and `[[Page#Heading|alias]]`.
+	 *
+	 * Wiki links are not part of CommonMark so they are disabled by default.
+	 */
+	readonly enableWikiLinks?: boolean;
+
+	/**
+	 * Enable support for GFM extended autolinks, such as bare `https://example.com`, `www.example.com`, and
+	 * `user@example.com` links.
+	 *
+	 * Extended autolinks are not part of CommonMark so they are disabled by default.
+	 */
+	readonly enableExtendedAutoLinks?: boolean;
+
+	/**
+	 * Slugifiers to use for documents in specific workspace folders.
+	 *
+	 * This lets folders that are published to different sites, such as GitLab or Pandoc, use the header id rules of
+	 * that site. Documents that are not in any of these folders use the slugifier of the parser.
+	 */
+	readonly workspaceFolderSlugifiers?: readonly WorkspaceFolderSlugifier[];
+
+	/**
+	 * Urls of sites that are built from the workspace.
+	 *
+	 * Links that start with one of these prefixes, such as `https://docs.example.com/guide/setup#install`, are treated
+	 * as links to files in the mapped folder instead of as external links. Paths ending in `/` resolve to the
+	 * folder's `index.md` and `.html` paths resolve to the markdown file with the same name.
+	 */
+	readonly siteUrlMappings?: readonly SiteUrlMapping[];
+
+	/**
+	 * Names of the files that links to a directory resolve to, such as `[API](./api/)`.
+	 *
+	 * These are checked in order. Links to directories that do not contain any of these files are treated as links to
+	 * the directory itself. Set to an empty list to always treat links to directories as links to the directory.
+	 */
+	readonly directoryIndexFileNames?: readonly string[];
 }
 
 export const defaultMarkdownFileExtension = 'md';
@@ -75,7 +140,12 @@ const defaultConfig: LsConfiguration = {
 	excludePaths: [
 		'**/.*',
 		'**/node_modules/**',
-	]
+	],
+	directoryIndexFileNames: [
+		'index.md',
+		'README.md',
+		'_index.md',
+	],
 };
 
 export function getLsConfiguration(overrides: Partial<LsConfiguration>): LsConfiguration {
@@ -89,3 +159,19 @@ export function getLsConfiguration(overrides: Partial<LsConfiguration>): LsConfi
 export function isExcludedPath(configuration: LsConfiguration, uri: URI): boolean {
 	return configuration.excludePaths.some(excludePath => picomatch.isMatch(uri.path, excludePath));
 }
+
+/**
+ * Get the slugifier to use for a document.
+ *
+ * If the document is in multiple of the {@link LsConfiguration.workspaceFolderSlugifiers configured folders}, the
+ * innermost folder is used.
+ */
+export function getSlugifierForDocument(configuration: LsConfiguration, defaultSlugifier: ISlugifier, uri: URI): ISlugifier {
+	let best: WorkspaceFolderSlugifier | undefined;
+	for (const entry of configuration.workspaceFolderSlugifiers ?? []) {
+		if (isParentDir(entry.folder, uri) && (!best || entry.folder.path.length > best.folder.path.length)) {
+			best = entry;
+		}
+	}
+	return best?.slugifier ?? defaultSlugifier;
+}
@@ -0,0 +1,186 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CancellationToken, CancellationTokenSource } from 'vscode-languageserver-protocol';
+import { URI } from 'vscode-uri';
+import { Limiter } from './util/limiter';
+
+/**
+ * The result of checking an external link.
+ */
+export type ExternalLinkCheckResult =
+	| { readonly kind: 'ok' }
+	| { readonly kind: 'dead'; readonly statusCode?: number }
+	| { readonly kind: 'redirect'; readonly target: URI };
+
+/**
+ * Checks if external links, such as `https://example.com`, can be reached.
+ *
+ * The language service never makes network requests itself. Clients that want to validate external links must provide
+ * an implementation of this interface.
+ */
+export interface IExternalLinkChecker {
+	/**
+	 * Check if an external link can be reached.
+	 *
+	 * @returns `dead` if the link could not be reached or `redirect` if the link permanently redirects to another uri.
+	 */
+	checkLink(uri: URI, token: CancellationToken): Promise<ExternalLinkCheckResult>;
+}
+
+interface CacheEntry {
+	readonly result: Promise<ExternalLinkCheckResult>;
+	readonly time: number;
+
+	/**
+	 * Cancels the shared check once every caller waiting on it has been cancelled.
+	 */
+	readonly cts: CancellationTokenSource;
+
+	isPending: boolean;
+
+	/**
+	 * Number of callers that are waiting for the result.
+	 */
+	waiting: number;
+}
+
+/**
+ * Wraps an {@link IExternalLinkChecker} to cache results and limit the number of links that are checked at once.
+ *
+ * Callers that check the same link share a single check. The shared check is only cancelled once every caller waiting
+ * on it has been cancelled.
+ */
+export class CachedExternalLinkChecker implements IExternalLinkChecker {
+
+	readonly #cache = new Map</* uri */ string, CacheEntry>();
+
+	readonly #checker: IExternalLinkChecker;
+	readonly #limiter: Limiter<ExternalLinkCheckResult>;
+	readonly #cacheDuration: number;
+	readonly #maxCacheSize: number;
+
+	/**
+	 * @param maxConcurrency Max number of links that are checked in parallel.
+	 * @param cacheDuration How long results are cached for, in milliseconds.
+	 * @param maxCacheSize Max number of links to cache results for. The oldest results are dropped first.
+	 */
+	constructor(
+		checker: IExternalLinkChecker,
+		maxConcurrency = 4,
+		cacheDuration = 5 * 60 * 1000,
+		maxCacheSize = 1000,
+	) {
+		this.#checker = checker;
+		this.#limiter = new Limiter(maxConcurrency);
+		this.#cacheDuration = cacheDuration;
+		this.#maxCacheSize = maxCacheSize;
+	}
+
+	public checkLink(uri: URI, token: CancellationToken): Promise<ExternalLinkCheckResult> {
+		if (token.isCancellationRequested) {
+			return Promise.reject(new Error('Canceled'));
+		}
+
+		const key = uri.toString();
+		let entry = this.#cache.get(key);
+		if (!entry || this.#isExpired(entry)) {
+			entry = this.#startCheck(key, uri);
+		}
+		return this.#waitForResult(entry, token);
+	}
+
+	#startCheck(key: string, uri: URI): CacheEntry {
+		this.#prune();
+
+		const cts = new CancellationTokenSource();
+		const entry: CacheEntry = {
+			result: this.#limiter.queue(() => this.#checker.checkLink(uri, cts.token)),
+			time: Date.now(),
+			cts,
+			isPending: true,
+			waiting: 0,
+		};
+		this.#cache.set(key, entry);
+
+		// Don't cache failed or cancelled checks
+		const evict = () => {
+			if (this.#cache.get(key) === entry) {
+				this.#cache.delete(key);
+			}
+		};
+		entry.result.then(() => {
+			if (cts.token.isCancellationRequested) {
+				evict();
+			}
+		}, evict).finally(() => {
+			entry.isPending = false;
+			cts.dispose();
+		});
+
+		return entry;
+	}
+
+	/**
+	 * Wait for the result of a shared check, giving up if `token` is cancelled.
+	 */
+	#waitForResult(entry: CacheEntry, token: CancellationToken): Promise<ExternalLinkCheckResult> {
+		++entry.waiting;
+		return new Promise<ExternalLinkCheckResult>((resolve, reject) => {
+			let isDone = false;
+			const done = () => {
+				if (isDone) {
+					return false;
+				}
+				isDone = true;
+				--entry.waiting;
+				listener.dispose();
+				return true;
+			};
+
+			const listener = token.onCancellationRequested(() => {
+				if (done()) {
+					if (entry.isPending && entry.waiting === 0) {
+						entry.cts.cancel();
+					}
+					reject(new Error('Canceled'));
+				}
+			});
+
+			entry.result.then(result => {
+				if (done()) {
+					resolve(result);
+				}
+			}, err => {
+				if (done()) {
+					reject(err);
+				}
+			});
+		});
+	}
+
+	#isExpired(entry: CacheEntry): boolean {
+		return !entry.isPending && Date.now() - entry.time >= this.#cacheDuration;
+	}
+
+	/**
+	 * Drop expired results and, if the cache is still full, the oldest results.
+	 */
+	#prune(): void {
+		for (const [key, entry] of this.#cache) {
+			if (this.#isExpired(entry)) {
+				this.#cache.delete(key);
+			}
+		}
+
+		// Maps iterate in insertion order so the first keys are the oldest
+		for (const key of this.#cache.keys()) {
+			if (this.#cache.size < this.#maxCacheSize) {
+				break;
+			}
+			this.#cache.delete(key);
+		}
+	}
+}
@@ -0,0 +1,102 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLine, ITextDocument } from './types/textDocument';
+
+/**
+ * A YAML front matter block at the start of a markdown document.
+ *
+ * ```md
+ * ---
+ * title: My page
+ * ---
+ * ```
+ */
+export interface MdFrontMatter {
+	/**
+	 * The full range of the front matter, including the `---` delimiters.
+	 */
+	readonly range: lsp.Range;
+
+	/**
+	 * The range of the YAML between the delimiters.
+	 */
+	readonly contentRange: lsp.Range;
+
+	/**
+	 * Top level scalar values in the front matter, such as `title: My page`.
+	 *
+	 * Nested values and lists are not included.
+	 */
+	readonly properties: ReadonlyMap<string, string>;
+
+	/**
+	 * The value of the `title` property, if any.
+	 */
+	readonly title: string | undefined;
+}
+
+const frontMatterStartPattern = /^---\s*$/;
+const frontMatterEndPattern = /^(?:---|\.\.\.)\s*$/;
+const propertyPattern = /^([\w-]+)\s*:\s*(.*?)\s*$/;
+
+/**
+ * Parse the YAML front matter at the start of a document.
+ *
+ * @returns The front matter block or `undefined` if the document does not start with front matter.
+ */
+export function parseFrontMatter(document: ITextDocument): MdFrontMatter | undefined {
+	if (document.lineCount < 2 || !frontMatterStartPattern.test(getLine(document, 0))) {
+		return undefined;
+	}
+
+	const properties = new Map<string, string>();
+	for (let i = 1; i < document.lineCount; ++i) {
+		const line = getLine(document, i);
+		if (frontMatterEndPattern.test(line)) {
+			return {
+				range: lsp.Range.create(0, 0, i, line.length),
+				contentRange: lsp.Range.create(1, 0, i, 0),
+				properties,
+				title: properties.get('title'),
+			};
+		}
+
+		const match = line.match(propertyPattern);
+		if (match) {
+			const value = parseScalar(match[2]);
+			if (typeof value === 'string' && !properties.has(match[1])) {
+				properties.set(match[1], value);
+			}
+		}
+	}
+
+	// Unterminated front matter
+	return undefined;
+}
+
+function parseScalar(text: string): string | undefined {
+	// Strip trailing comments on plain values
+	const value = /^["']/.test(text) ? text : text.replace(/\s+#.*$/, '');
+	if (!value || /^[|>[{]/.test(value)) {
+		// Nested objects, lists, and block scalars are not supported
+		return undefined;
+	}
+
+	const quoted = value.match(/^(["'])(.*)\1$/);
+	if (quoted) {
+		return quoted[1] === '\'' ? quoted[2].replaceAll('\'\'', '\'') : quoted[2].replace(/\\(["\\])/g, '$1');
+	}
+
+	return value;
+}
+
+/**
+ * Check if a line is part of the front matter of a document.
+ */
+export function isInFrontMatter(frontMatter: MdFrontMatter | undefined, line: number): boolean {
+	return !!frontMatter && line <= frontMatter.range.end.line;
+}
@@ -6,39 +6,64 @@
 import * as lsp from 'vscode-languageserver-protocol';
 import { URI } from 'vscode-uri';
 import { getLsConfiguration, LsConfiguration } from './config';
+import { CachedExternalLinkChecker, IExternalLinkChecker } from './externalLinks';
+import { MdCallHierarchyProvider } from './languageFeatures/callHierarchy';
+import { MdChangeHeaderLevelCodeActionProvider } from './languageFeatures/codeActions/changeHeaderLevel';
+import { MdEditTableCodeActionProvider } from './languageFeatures/codeActions/editTable';
 import { MdExtractLinkDefinitionCodeActionProvider } from './languageFeatures/codeActions/extractLinkDef';
+import { MdFixPathCasingCodeActionProvider } from './languageFeatures/codeActions/fixPathCasing';
+import { MdInlineLinkDefinitionCodeActionProvider } from './languageFeatures/codeActions/inlineLinkDef';
 import { MdRemoveLinkDefinitionCodeActionProvider } from './languageFeatures/codeActions/removeLinkDefinition';
+import { MdUpdateTableOfContentsCodeActionProvider } from './languageFeatures/codeActions/updateTableOfContents';
+import { MdCodeLensProvider } from './languageFeatures/codeLens';
 import { MdDefinitionProvider } from './languageFeatures/definitions';
-import { DiagnosticComputer, DiagnosticOptions, DiagnosticsManager, IPullDiagnosticsManager } from './languageFeatures/diagnostics';
+import { DiagnosticComputer, DiagnosticOptions, DiagnosticsManager, IPullDiagnosticsManager, MdDiagnosticsCache, MdFileDiagnostics, MdWorkspaceDiagnosticsComputer, WorkspaceDiagnosticsProgress } from './languageFeatures/diagnostics';
 import { MdDocumentHighlightProvider } from './languageFeatures/documentHighlights';
 import { createWorkspaceLinkCache, MdLinkProvider, ResolvedDocumentLinkTarget } from './languageFeatures/documentLinks';
 import { MdDocumentSymbolProvider } from './languageFeatures/documentSymbols';
 import { FileRename, MdFileRenameProvider } from './languageFeatures/fileRename';
 import { MdFoldingProvider } from './languageFeatures/folding';
+import { DocumentFormattingOptions, MdDocumentFormattingProvider } from './languageFeatures/formatting';
 import { MdHoverProvider } from './languageFeatures/hover';
+import { InlayHintOptions, MdInlayHintProvider } from './languageFeatures/inlayHints';
+import { IMdLinkGraph, MdLinkGraphProvider } from './languageFeatures/linkGraph';
+import { LinkStyleOptions, MdLinkStyleProvider } from './languageFeatures/linkStyle';
+import { MdOnTypeFormattingProvider } from './languageFeatures/onTypeFormatting';
 import { MdOrganizeLinkDefinitionProvider } from './languageFeatures/organizeLinkDefs';
 import { MdPathCompletionProvider, PathCompletionOptions } from './languageFeatures/pathCompletions';
 import { MdReferencesProvider } from './languageFeatures/references';
 import { MdRenameProvider } from './languageFeatures/rename';
+import { MdSemanticTokensProvider } from './languageFeatures/semanticTokens';
 import { MdSelectionRangeProvider } from './languageFeatures/smartSelect';
+import { MdTableFormattingProvider } from './languageFeatures/tableFormatting';
+import { MdTocBlockProvider, TocBlockOptions } from './languageFeatures/tableOfContentsBlock';
 import { MdUpdatePastedLinksProvider } from './languageFeatures/updatePastedLinks';
 import { MdWorkspaceSymbolProvider } from './languageFeatures/workspaceSymbols';
 import { ILogger } from './logging';
 import { IMdParser } from './parser';
 import { MdTableOfContentsProvider } from './tableOfContents';
 import { ITextDocument } from './types/textDocument';
+import { IWikiLinkResolver, MdWorkspaceWikiLinkResolver } from './wikiLinks';
 import { isWorkspaceWithFileWatching, IWorkspace } from './workspace';
 
-export { LsConfiguration, PreferredMdPathExtensionStyle } from './config';
-export { DiagnosticCode, DiagnosticLevel, DiagnosticOptions, IPullDiagnosticsManager } from './languageFeatures/diagnostics';
+export { LsConfiguration, PreferredMdPathExtensionStyle, SiteUrlMapping, WorkspaceFolderSlugifier } from './config';
+export { ExternalLinkCheckResult, IExternalLinkChecker } from './externalLinks';
+export { DiagnosticCode, DiagnosticLevel, DiagnosticOptions, IPullDiagnosticsManager, MdFileDiagnostics, WorkspaceDiagnosticsProgress } from './languageFeatures/diagnostics';
 export { ResolvedDocumentLinkTarget } from './languageFeatures/documentLinks';
 export { FileRename } from './languageFeatures/fileRename';
+export { BulletListMarker, CodeFenceStyle, DocumentFormattingOptions, EmphasisMarker, HeadingStyle, OrderedListNumbering } from './languageFeatures/formatting';
+export { InlayHintOptions } from './languageFeatures/inlayHints';
+export { IMdLinkGraph, MdLinkGraphEdge, MdLinkGraphNode } from './languageFeatures/linkGraph';
+export { LinkStyleKind, LinkStyleOptions, RelativePathPrefixStyle } from './languageFeatures/linkStyle';
 export { IncludeWorkspaceHeaderCompletions, PathCompletionOptions as MdPathCompletionOptions } from './languageFeatures/pathCompletions';
 export { RenameNotSupportedAtLocationError } from './languageFeatures/rename';
+export { semanticTokensLegend } from './languageFeatures/semanticTokens';
+export { TocBlockOptions } from './languageFeatures/tableOfContentsBlock';
 export { ILogger, LogLevel } from './logging';
 export { IMdParser, Token } from './parser';
-export { githubSlugifier, ISlug, ISlugifier } from './slugify';
+export { azureDevOpsSlugifier, docusaurusSlugifier, githubSlugifier, gitlabSlugifier, ISlug, ISlugifier, pandocSlugifier } from './slugify';
 export { ITextDocument } from './types/textDocument';
+export { IWikiLinkResolver } from './wikiLinks';
 export { ContainingDocumentContext, FileStat, FileWatcherOptions, IFileSystemWatcher, IWorkspace, IWorkspaceWithWatching } from './workspace';
 
 /**
@@ -119,6 +144,31 @@ export interface IMdLanguageService {
 	 */
 	getFileReferences(resource: URI, token: lsp.CancellationToken): Promise<lsp.Location[]>;
 
+	/**
+	 * Get the directed graph of links between all files in the workspace.
+	 *
+	 * The graph can be used to find the links to a file (backlinks), documents that are not linked to from anywhere,
+	 * and groups of documents that link to each other.
+	 */
+	getLinkGraph(token: lsp.CancellationToken): Promise<IMdLinkGraph>;
+
+	/**
+	 * Prepare a call hierarchy of links at the current location.
+	 *
+	 * Returns the header at the location, or the whole document if the location is not on a header.
+	 */
+	prepareCallHierarchy(document: ITextDocument, position: lsp.Position, token: lsp.CancellationToken): Promise<lsp.CallHierarchyItem[]>;
+
+	/**
+	 * Get the links to a document or header, grouped by the section that contains them.
+	 */
+	getIncomingCalls(item: lsp.CallHierarchyItem, token: lsp.CancellationToken): Promise<lsp.CallHierarchyIncomingCall[]>;
+
+	/**
+	 * Get the links from a document or header to other markdown documents and headers.
+	 */
+	getOutgoingCalls(item: lsp.CallHierarchyItem, token: lsp.CancellationToken): Promise<lsp.CallHierarchyOutgoingCall[]>;
+
 	/**
 	 * Get the definition of the symbol at the current location.
 	 *
@@ -135,6 +185,31 @@ export interface IMdLanguageService {
 	 */
 	organizeLinkDefinitions(document: ITextDocument, options: { readonly removeUnused?: boolean }, token: lsp.CancellationToken): Promise<lsp.TextEdit[]>;
 
+	/**
+	 * Rewrites every link in the document to follow a consistent style, such as always using reference links or always
+	 * prefixing relative paths with `./`.
+	 *
+	 * @returns A set of text edits. May be empty if all links already follow the style.
+	 */
+	getNormalizeLinkStyleEdits(document: ITextDocument, options: LinkStyleOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]>;
+
+	/**
+	 * Rewrites every link in all markdown files in the workspace to follow a consistent style.
+	 *
+	 * @see {@link IMdLanguageService.getNormalizeLinkStyleEdits}
+	 */
+	getNormalizeLinkStyleWorkspaceEdit(options: LinkStyleOptions, token: lsp.CancellationToken): Promise<lsp.WorkspaceEdit>;
+
+	/**
+	 * Generates a table of contents for the document's headers between `<!-- toc -->` and `<!-- tocstop -->` markers.
+	 *
+	 * If the document already has a table of contents block, this refreshes it. Otherwise a new block is inserted at
+	 * the start of the line of `position`.
+	 *
+	 * @returns A set of text edits. May be empty if the existing table of contents is already up to date.
+	 */
+	getTableOfContentsEdits(document: ITextDocument, position: lsp.Position, options: TocBlockOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]>;
+
 	/**
 	 * Prepare for showing rename UI.
 	 *
@@ -198,6 +273,83 @@ export interface IMdLanguageService {
 	 */
 	getUpdatePastedLinksEdit(document: ITextDocument, paste: readonly lsp.TextEdit[], rawCopyMetadata: string, token: lsp.CancellationToken): Promise<lsp.TextEdit[] | undefined>;
 
+	/**
+	 * Get code lenses for the headers and link definitions in a document.
+	 *
+	 * The returned code lenses do not have a command. Use {@link IMdLanguageService.resolveCodeLens} to fill in the
+	 * number of references to the header or link definition.
+	 */
+	getCodeLenses(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.CodeLens[]>;
+
+	/**
+	 * Resolve a code lens returned by {@link IMdLanguageService.getCodeLenses}.
+	 *
+	 * The title of the resolved command shows the number of references. The command is
+	 * `vscodeMarkdownLanguageservice.showReferences` with the arguments `[uri, position, locations]`, where `uri` is the
+	 * document as a string, `position` is the `lsp.Position` of the header or link definition, and `locations` are the
+	 * `lsp.Location` of each reference. Clients should register this command to show the references.
+	 */
+	resolveCodeLens(codeLens: lsp.CodeLens, token: lsp.CancellationToken): Promise<lsp.CodeLens>;
+
+	/**
+	 * Get inlay hints for the links in a range of a document.
+	 *
+	 * Fragment links such as `[text](./other.md#header)` show the text of the header they point to, while reference
+	 * links such as `[text][ref]` show the destination of their link definition.
+	 */
+	getInlayHints(document: ITextDocument, range: lsp.Range, options: InlayHintOptions, token: lsp.CancellationToken): Promise<lsp.InlayHint[]>;
+
+	/**
+	 * Get edits that align the columns of all GitHub flavored markdown pipe tables in a document.
+	 *
+	 * Cells are padded based on their display width, so CJK characters and emoji take up two columns. The alignment set
+	 * by the delimiter row of each table is respected.
+	 */
+	getTableFormattingEdits(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.TextEdit[]>;
+
+	/**
+	 * Get edits that align the columns of the pipe tables that intersect `range`.
+	 *
+	 * @see {@link IMdLanguageService.getTableFormattingEdits}
+	 */
+	getTableRangeFormattingEdits(document: ITextDocument, range: lsp.Range, token: lsp.CancellationToken): Promise<lsp.TextEdit[]>;
+
+	/**
+	 * Get edits that format a document to follow a consistent style.
+	 *
+	 * This can normalize header styles, list markers and numbering, emphasis markers, code fences, blank lines between
+	 * blocks, and trailing whitespace. Only the parts of the style set in `options` are changed. The contents of code
+	 * blocks, html blocks, and front matter are never changed.
+	 */
+	getFormattingEdits(document: ITextDocument, options: DocumentFormattingOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]>;
+
+	/**
+	 * Get edits to apply after a character is typed.
+	 *
+	 * When a new line is started after a list item or blockquote, this continues the list marker or blockquote on the
+	 * new line. Task list items continue as unchecked tasks and following items of ordered lists are renumbered.
+	 * Starting a new line after an empty list item instead removes the empty marker.
+	 *
+	 * @param position Position after the typed character.
+	 * @param ch The typed character. Only `\n` triggers edits.
+	 */
+	getOnTypeFormattingEdits(document: ITextDocument, position: lsp.Position, ch: string, token: lsp.CancellationToken): Promise<lsp.TextEdit[]>;
+
+	/**
+	 * Get semantic tokens for the headers, links, link definitions, and front matter in a document.
+	 *
+	 * Tokens are encoded using {@link semanticTokensLegend}. Links are only marked as broken if diagnostics have already
+	 * been computed for the current version of the document.
+	 */
+	getSemanticTokens(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.SemanticTokens>;
+
+	/**
+	 * Get semantic tokens for a range of a document.
+	 *
+	 * @see {@link IMdLanguageService.getSemanticTokens}
+	 */
+	getSemanticTokensRange(document: ITextDocument, range: lsp.Range, token: lsp.CancellationToken): Promise<lsp.SemanticTokens>;
+
 	/**
 	 * Get the hover information for a position in the document.
 	 */
@@ -211,6 +363,16 @@ export interface IMdLanguageService {
 	 */
 	computeDiagnostics(doc: ITextDocument, options: DiagnosticOptions, token: lsp.CancellationToken): Promise<lsp.Diagnostic[]>;
 
+	/**
+	 * Compute diagnostics for every markdown file in the workspace.
+	 *
+	 * Results are yielded per file as soon as they are available. Files that match {@link LsConfiguration.excludePaths}
+	 * are skipped.
+	 *
+	 * @param onProgress Optional callback that is invoked with the number of files processed so far.
+	 */
+	computeWorkspaceDiagnostics(options: DiagnosticOptions, token: lsp.CancellationToken, onProgress?: (progress: WorkspaceDiagnosticsProgress) => void): AsyncIterable<MdFileDiagnostics>;
+
 	/**
 	 * Create a stateful object that is more efficient at computing diagnostics across repeated calls and workspace changes.
 	 *
@@ -246,6 +408,22 @@ export interface LanguageServiceInitialization extends Partial<LsConfiguration>
 	 * The {@link ILogger logger} that the  {@link IMdLanguageService language service} use for logging messages.
 	 */
 	readonly logger: ILogger;
+
+	/**
+	 * Optional {@link IWikiLinkResolver resolver} used to find the targets of wiki links.
+	 *
+	 * This is only used when {@link LsConfiguration.enableWikiLinks wiki links are enabled}. If not provided, wiki links
+	 * are resolved by file name across the workspace.
+	 */
+	readonly wikiLinkResolver?: IWikiLinkResolver;
+
+	/**
+	 * Optional {@link IExternalLinkChecker checker} used to validate external `http` and `https` links.
+	 *
+	 * The language service never makes network requests itself, so external links are only validated if a checker is
+	 * provided and {@link DiagnosticOptions.validateExternalLinks} is enabled. Results of the checker are cached.
+	 */
+	readonly externalLinkChecker?: IExternalLinkChecker;
 }
 
 /**
@@ -255,26 +433,48 @@ export function createLanguageService(init: LanguageServiceInitialization): IMdL
 	const config = getLsConfiguration(init);
 	const logger = init.logger;
 
-	const tocProvider = new MdTableOfContentsProvider(init.parser, init.workspace, logger);
+	const defaultWikiLinkResolver = config.enableWikiLinks && !init.wikiLinkResolver ? new MdWorkspaceWikiLinkResolver(config, init.workspace) : undefined;
+	const wikiLinkResolver = config.enableWikiLinks ? (init.wikiLinkResolver ?? defaultWikiLinkResolver) : undefined;
+
+	const externalLinkChecker = init.externalLinkChecker ? new CachedExternalLinkChecker(init.externalLinkChecker) : undefined;
+
+	const tocProvider = new MdTableOfContentsProvider(init.parser, init.workspace, logger, config);
 	const foldingProvider = new MdFoldingProvider(init.parser, tocProvider, logger);
-	const linkProvider = new MdLinkProvider(config, init.parser, init.workspace, tocProvider, logger);
+	const linkProvider = new MdLinkProvider(config, init.parser, init.workspace, tocProvider, logger, wikiLinkResolver);
 	const pathCompletionProvider = new MdPathCompletionProvider(config, init.workspace, init.parser, linkProvider, tocProvider);
-	const linkCache = createWorkspaceLinkCache(init.parser, init.workspace);
+	const linkCache = createWorkspaceLinkCache(init.parser, init.workspace, wikiLinkResolver, config);
 	const smartSelectProvider = new MdSelectionRangeProvider(init.parser, tocProvider, linkProvider, logger);
 	const referencesProvider = new MdReferencesProvider(config, init.parser, init.workspace, tocProvider, linkCache, logger);
+	const linkGraphProvider = new MdLinkGraphProvider(config, init.workspace, linkCache, logger);
+	const callHierarchyProvider = new MdCallHierarchyProvider(config, init.workspace, tocProvider, linkProvider, referencesProvider, logger);
 	const definitionsProvider = new MdDefinitionProvider(config, init.workspace, tocProvider, linkCache);
 	const renameProvider = new MdRenameProvider(config, init.workspace, init.parser, referencesProvider, tocProvider, init.parser.slugifier, logger);
 	const fileRenameProvider = new MdFileRenameProvider(config, init.workspace, linkCache, referencesProvider);
-	const diagnosticsComputer = new DiagnosticComputer(config, init.workspace, linkProvider, tocProvider, logger);
+	const diagnosticsCache = new MdDiagnosticsCache(init.workspace);
+	const diagnosticsComputer = new DiagnosticComputer(config, init.workspace, linkProvider, tocProvider, logger, externalLinkChecker, diagnosticsCache);
+	const workspaceDiagnosticsComputer = new MdWorkspaceDiagnosticsComputer(config, init.workspace, linkProvider, tocProvider, logger, externalLinkChecker);
 	const docSymbolProvider = new MdDocumentSymbolProvider(tocProvider, linkProvider, logger);
 	const workspaceSymbolProvider = new MdWorkspaceSymbolProvider(init.workspace, docSymbolProvider);
 	const organizeLinkDefinitions = new MdOrganizeLinkDefinitionProvider(linkProvider);
+	const linkStyleProvider = new MdLinkStyleProvider(config, init.workspace, linkProvider, logger);
 	const documentHighlightProvider = new MdDocumentHighlightProvider(config, tocProvider, linkProvider);
 	const rewritePastedLinksProvider = new MdUpdatePastedLinksProvider(config, linkProvider);
-	const hoverProvider = new MdHoverProvider(linkProvider);
+	const hoverProvider = new MdHoverProvider(config, init.workspace, linkProvider, tocProvider);
+	const tocBlockProvider = new MdTocBlockProvider(tocProvider);
+	const codeLensProvider = new MdCodeLensProvider(init.workspace, tocProvider, linkProvider, referencesProvider, logger);
+	const inlayHintProvider = new MdInlayHintProvider(config, init.workspace, linkProvider, tocProvider, logger);
+	const semanticTokensProvider = new MdSemanticTokensProvider(init.parser, linkProvider, diagnosticsCache, logger);
+	const tableFormattingProvider = new MdTableFormattingProvider(init.parser, logger);
+	const formattingProvider = new MdDocumentFormattingProvider(init.parser, logger);
+	const onTypeFormattingProvider = new MdOnTypeFormattingProvider(init.parser, logger);
 
 	const extractCodeActionProvider = new MdExtractLinkDefinitionCodeActionProvider(linkProvider);
+	const inlineCodeActionProvider = new MdInlineLinkDefinitionCodeActionProvider(linkProvider);
 	const removeLinkDefinitionActionProvider = new MdRemoveLinkDefinitionCodeActionProvider();
+	const updateTocActionProvider = new MdUpdateTableOfContentsCodeActionProvider();
+	const changeHeaderLevelActionProvider = new MdChangeHeaderLevelCodeActionProvider();
+	const fixPathCasingActionProvider = new MdFixPathCasingCodeActionProvider();
+	const editTableActionProvider = new MdEditTableCodeActionProvider(tableFormattingProvider);
 
 	return Object.freeze<IMdLanguageService>({
 		dispose: () => {
@@ -283,6 +483,9 @@ export function createLanguageService(init: LanguageServiceInitialization): IMdL
 			workspaceSymbolProvider.dispose();
 			linkProvider.dispose();
 			referencesProvider.dispose();
+			linkGraphProvider.dispose();
+			diagnosticsCache.dispose();
+			defaultWikiLinkResolver?.dispose();
 		},
 		getDocumentLinks: linkProvider.provideDocumentLinks.bind(linkProvider),
 		resolveDocumentLink: linkProvider.resolveDocumentLink.bind(linkProvider),
@@ -296,15 +499,27 @@ export function createLanguageService(init: LanguageServiceInitialization): IMdL
 		getFileReferences: async (resource: URI, token: lsp.CancellationToken): Promise<lsp.Location[]> => {
 			return (await referencesProvider.getReferencesToFileInWorkspace(resource, token)).map(x => x.location);
 		},
+		getLinkGraph: linkGraphProvider.getLinkGraph.bind(linkGraphProvider),
+		prepareCallHierarchy: callHierarchyProvider.prepareCallHierarchy.bind(callHierarchyProvider),
+		getIncomingCalls: callHierarchyProvider.getIncomingCalls.bind(callHierarchyProvider),
+		getOutgoingCalls: callHierarchyProvider.getOutgoingCalls.bind(callHierarchyProvider),
 		getDefinition: definitionsProvider.provideDefinition.bind(definitionsProvider),
 		organizeLinkDefinitions: organizeLinkDefinitions.getOrganizeLinkDefinitionEdits.bind(organizeLinkDefinitions),
+		getNormalizeLinkStyleEdits: linkStyleProvider.getNormalizeLinkStyleEdits.bind(linkStyleProvider),
+		getNormalizeLinkStyleWorkspaceEdit: linkStyleProvider.getNormalizeLinkStyleWorkspaceEdit.bind(linkStyleProvider),
+		getTableOfContentsEdits: tocBlockProvider.getTableOfContentsEdits.bind(tocBlockProvider),
 		prepareRename: renameProvider.prepareRename.bind(renameProvider),
 		getRenameEdit: renameProvider.provideRenameEdits.bind(renameProvider),
 		getRenameFilesInWorkspaceEdit: fileRenameProvider.getRenameFilesInWorkspaceEdit.bind(fileRenameProvider),
 		getCodeActions: async (doc: ITextDocument, range: lsp.Range, context: lsp.CodeActionContext, token: lsp.CancellationToken): Promise<lsp.CodeAction[]> => {
 			return (await Promise.all([
 				extractCodeActionProvider.getActions(doc, range, context, token),
+				inlineCodeActionProvider.getActions(doc, range, context, token),
 				Array.from(removeLinkDefinitionActionProvider.getActions(doc, range, context)),
+				Array.from(updateTocActionProvider.getActions(doc, range, context)),
+				Array.from(changeHeaderLevelActionProvider.getActions(doc, range, context)),
+				Array.from(fixPathCasingActionProvider.getActions(doc, range, context)),
+				editTableActionProvider.getActions(doc, range, context, token),
 			])).flat();
 		},
 		getDocumentHighlights: (document: ITextDocument, position: lsp.Position, token: lsp.CancellationToken): Promise<lsp.DocumentHighlight[]> => {
@@ -312,15 +527,25 @@ export function createLanguageService(init: LanguageServiceInitialization): IMdL
 		},
 		prepareUpdatePastedLinks: rewritePastedLinksProvider.prepareDocumentPaste.bind(rewritePastedLinksProvider),
 		getUpdatePastedLinksEdit: rewritePastedLinksProvider.provideDocumentPasteEdits.bind(rewritePastedLinksProvider),
+		getCodeLenses: codeLensProvider.provideCodeLenses.bind(codeLensProvider),
+		resolveCodeLens: codeLensProvider.resolveCodeLens.bind(codeLensProvider),
+		getInlayHints: inlayHintProvider.provideInlayHints.bind(inlayHintProvider),
+		getTableFormattingEdits: tableFormattingProvider.provideDocumentFormattingEdits.bind(tableFormattingProvider),
+		getTableRangeFormattingEdits: tableFormattingProvider.provideRangeFormattingEdits.bind(tableFormattingProvider),
+		getFormattingEdits: formattingProvider.getFormattingEdits.bind(formattingProvider),
+		getOnTypeFormattingEdits: onTypeFormattingProvider.provideOnTypeFormattingEdits.bind(onTypeFormattingProvider),
+		getSemanticTokens: semanticTokensProvider.provideDocumentSemanticTokens.bind(semanticTokensProvider),
+		getSemanticTokensRange: semanticTokensProvider.provideDocumentRangeSemanticTokens.bind(semanticTokensProvider),
 		getHover: hoverProvider.provideHover.bind(hoverProvider),
 		computeDiagnostics: async (doc: ITextDocument, options: DiagnosticOptions, token: lsp.CancellationToken): Promise<lsp.Diagnostic[]> => {
 			return (await diagnosticsComputer.compute(doc, options, token))?.diagnostics;
 		},
+		computeWorkspaceDiagnostics: workspaceDiagnosticsComputer.compute.bind(workspaceDiagnosticsComputer),
 		createPullDiagnosticsManager: () => {
 			if (!isWorkspaceWithFileWatching(init.workspace)) {
 				throw new Error(`Workspace does not support file watching. Diagnostics manager not supported`);
 			}
-			return new DiagnosticsManager(config, init.workspace, linkProvider, tocProvider, logger);
+			return new DiagnosticsManager(config, init.workspace, linkProvider, tocProvider, logger, externalLinkChecker, diagnosticsCache);
 		}
 	});
 }
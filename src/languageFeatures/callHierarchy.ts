@@ -0,0 +1,224 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { URI, Utils } from 'vscode-uri';
+import { LsConfiguration } from '../config';
+import { ILogger, LogLevel } from '../logging';
+import { MdTableOfContentsProvider, TableOfContents, TocEntry } from '../tableOfContents';
+import { HrefKind, InternalHref, MdLink, MdLinkKind } from '../types/documentLink';
+import { rangeContains } from '../types/range';
+import { getDocUri, ITextDocument } from '../types/textDocument';
+import { isSameResource, looksLikeMarkdownUri } from '../util/path';
+import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
+import { MdLinkProvider } from './documentLinks';
+import { MdReferenceKind, MdReferencesProvider } from './references';
+
+/**
+ * Provides a call hierarchy of the links between documents and headers.
+ *
+ * Items are either entire documents (using {@link lsp.SymbolKind.File}) or the sections of headers (using
+ * {@link lsp.SymbolKind.String}). Incoming calls are the links to an item. Outgoing calls are the links inside of an item.
+ */
+export class MdCallHierarchyProvider {
+
+	readonly #configuration: LsConfiguration;
+	readonly #workspace: IWorkspace;
+	readonly #tocProvider: MdTableOfContentsProvider;
+	readonly #linkProvider: MdLinkProvider;
+	readonly #referencesProvider: MdReferencesProvider;
+	readonly #logger: ILogger;
+
+	constructor(
+		configuration: LsConfiguration,
+		workspace: IWorkspace,
+		tocProvider: MdTableOfContentsProvider,
+		linkProvider: MdLinkProvider,
+		referencesProvider: MdReferencesProvider,
+		logger: ILogger,
+	) {
+		this.#configuration = configuration;
+		this.#workspace = workspace;
+		this.#tocProvider = tocProvider;
+		this.#linkProvider = linkProvider;
+		this.#referencesProvider = referencesProvider;
+		this.#logger = logger;
+	}
+
+	public async prepareCallHierarchy(document: ITextDocument, position: lsp.Position, token: lsp.CancellationToken): Promise<lsp.CallHierarchyItem[]> {
+		this.#logger.log(LogLevel.Debug, 'CallHierarchyProvider.prepareCallHierarchy', { document: document.uri, version: document.version });
+
+		const toc = await this.#tocProvider.getForDocument(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const header = toc.entries.find(entry => entry.line === position.line);
+		return [header ? this.#headerToItem(getDocUri(document), header) : this.#documentToItem(document)];
+	}
+
+	public async getIncomingCalls(item: lsp.CallHierarchyItem, token: lsp.CancellationToken): Promise<lsp.CallHierarchyIncomingCall[]> {
+		this.#logger.log(LogLevel.Debug, 'CallHierarchyProvider.getIncomingCalls', { item: item.uri });
+
+		const uri = URI.parse(item.uri);
+		const isHeader = item.kind !== lsp.SymbolKind.File;
+
+		let links: MdLink[];
+		if (isHeader) {
+			const doc = await this.#workspace.openMarkdownDocument(uri);
+			if (!doc || token.isCancellationRequested) {
+				return [];
+			}
+
+			const refs = await this.#referencesProvider.getReferencesAtPosition(doc, lsp.Position.create(item.selectionRange.start.line, 0), token);
+			links = refs.flatMap(ref => ref.kind === MdReferenceKind.Link ? [ref.link] : []);
+		} else {
+			const refs = await this.#referencesProvider.getReferencesToFileInWorkspace(uri, token);
+			links = refs
+				.flatMap(ref => ref.kind === MdReferenceKind.Link ? [ref.link] : [])
+				.filter(link => !isSameResource(link.source.resource, uri));
+		}
+
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		// Group the links by the section they are in
+		const calls = new Map</* item key */ string, lsp.CallHierarchyIncomingCall>();
+		for (const link of links) {
+			const from = await this.#getContainingItem(link);
+			if (token.isCancellationRequested) {
+				return [];
+			}
+			if (!from) {
+				continue;
+			}
+
+			const key = getItemKey(from);
+			const existing = calls.get(key);
+			if (existing) {
+				existing.fromRanges.push(link.source.range);
+			} else {
+				calls.set(key, { from, fromRanges: [link.source.range] });
+			}
+		}
+		return Array.from(calls.values());
+	}
+
+	public async getOutgoingCalls(item: lsp.CallHierarchyItem, token: lsp.CancellationToken): Promise<lsp.CallHierarchyOutgoingCall[]> {
+		this.#logger.log(LogLevel.Debug, 'CallHierarchyProvider.getOutgoingCalls', { item: item.uri });
+
+		const doc = await this.#workspace.openMarkdownDocument(URI.parse(item.uri));
+		if (!doc || token.isCancellationRequested) {
+			return [];
+		}
+
+		const { links, definitions } = await this.#linkProvider.getLinks(doc);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const calls = new Map</* item key */ string, lsp.CallHierarchyOutgoingCall>();
+		for (const link of links) {
+			if (link.kind === MdLinkKind.Definition || !rangeContains(item.range, link.source.range.start)) {
+				continue;
+			}
+
+			// Resolve reference links using their definitions
+			const href = link.href.kind === HrefKind.Reference ? definitions.lookup(link.href.ref)?.href : link.href;
+			if (href?.kind !== HrefKind.Internal) {
+				continue;
+			}
+
+			const to = await this.#getLinkTargetItem(href);
+			if (token.isCancellationRequested) {
+				return [];
+			}
+			if (!to) {
+				continue;
+			}
+
+			const key = getItemKey(to);
+			const existing = calls.get(key);
+			if (existing) {
+				existing.fromRanges.push(link.source.range);
+			} else {
+				calls.set(key, { to, fromRanges: [link.source.range] });
+			}
+		}
+		return Array.from(calls.values());
+	}
+
+	/**
+	 * Get the item for the innermost section that contains a link.
+	 */
+	async #getContainingItem(link: MdLink): Promise<lsp.CallHierarchyItem | undefined> {
+		const doc = await this.#workspace.openMarkdownDocument(link.source.resource);
+		if (!doc) {
+			return undefined;
+		}
+
+		const toc = await this.#tocProvider.getForDocument(doc);
+		const header = findLast(toc, entry => rangeContains(entry.sectionLocation.range, link.source.range.start));
+		return header ? this.#headerToItem(getDocUri(doc), header) : this.#documentToItem(doc);
+	}
+
+	async #getLinkTargetItem(href: InternalHref): Promise<lsp.CallHierarchyItem | undefined> {
+		const resolved = await statLinkToMarkdownFile(this.#configuration, this.#workspace, href.path);
+		if (!resolved || !(this.#workspace.hasMarkdownDocument(resolved) || looksLikeMarkdownUri(this.#configuration, resolved))) {
+			return undefined;
+		}
+
+		const doc = await this.#workspace.openMarkdownDocument(resolved);
+		if (!doc) {
+			return undefined;
+		}
+
+		if (href.fragment) {
+			const toc = await this.#tocProvider.getForDocument(doc);
+			const header = toc.lookupByFragment(href.fragment);
+			if (header) {
+				return this.#headerToItem(getDocUri(doc), header);
+			}
+		}
+
+		return this.#documentToItem(doc);
+	}
+
+	#documentToItem(document: ITextDocument): lsp.CallHierarchyItem {
+		const uri = getDocUri(document);
+		return {
+			name: Utils.basename(uri),
+			kind: lsp.SymbolKind.File,
+			uri: uri.toString(),
+			range: lsp.Range.create(0, 0, document.lineCount, 0),
+			selectionRange: lsp.Range.create(0, 0, 0, 0),
+		};
+	}
+
+	#headerToItem(uri: URI, entry: TocEntry): lsp.CallHierarchyItem {
+		return {
+			name: '#'.repeat(entry.level) + ' ' + entry.text,
+			kind: lsp.SymbolKind.String,
+			detail: Utils.basename(uri),
+			uri: uri.toString(),
+			range: entry.sectionLocation.range,
+			selectionRange: entry.headerTextLocation.range,
+		};
+	}
+}
+
+function getItemKey(item: lsp.CallHierarchyItem): string {
+	return `${item.uri}#${item.kind === lsp.SymbolKind.File ? '' : item.selectionRange.start.line}`;
+}
+
+function findLast(toc: TableOfContents, predicate: (entry: TocEntry) => boolean): TocEntry | undefined {
+	for (let i = toc.entries.length - 1; i >= 0; --i) {
+		if (predicate(toc.entries[i])) {
+			return toc.entries[i];
+		}
+	}
+	return undefined;
+}
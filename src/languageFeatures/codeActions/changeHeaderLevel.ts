@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as l10n from '@vscode/l10n';
+import * as lsp from 'vscode-languageserver-protocol';
+import { rangeIntersects } from '../../types/range';
+import { getDocUri, getLine, ITextDocument } from '../../types/textDocument';
+import { WorkspaceEditBuilder } from '../../util/editBuilder';
+import { DiagnosticCode } from '../diagnostics';
+import { codeActionKindContains } from './util';
+
+
+export class MdChangeHeaderLevelCodeActionProvider {
+
+	*getActions(doc: ITextDocument, range: lsp.Range, context: lsp.CodeActionContext): Iterable<lsp.CodeAction> {
+		if (!this.#isEnabled(context)) {
+			return;
+		}
+
+		for (const diag of context.diagnostics) {
+			if ((diag.code === DiagnosticCode.header_skippedLevel || diag.code === DiagnosticCode.header_multipleTopLevel)
+				&& diag.data && rangeIntersects(diag.range, range)
+			) {
+				const action = this.#getChangeLevelAction(doc, diag, (diag.data as { level: number }).level);
+				if (action) {
+					yield action;
+				}
+			}
+		}
+	}
+
+	#isEnabled(context: lsp.CodeActionContext): boolean {
+		if (typeof context.only === 'undefined') {
+			return true;
+		}
+
+		return context.only.some(kind => codeActionKindContains(lsp.CodeActionKind.QuickFix, kind));
+	}
+
+	#getChangeLevelAction(doc: ITextDocument, diag: lsp.Diagnostic, level: number): lsp.CodeAction | undefined {
+		const line = diag.range.start.line;
+
+		// Only atx style headers can be changed to any level
+		const match = getLine(doc, line).match(/^( {0,3})(#{1,6})(?=\s|$)/);
+		if (!match) {
+			return undefined;
+		}
+
+		const builder = new WorkspaceEditBuilder();
+		builder.replace(getDocUri(doc), lsp.Range.create(line, match[1].length, line, match[0].length), '#'.repeat(level));
+
+		return {
+			title: level < match[2].length
+				? l10n.t('Promote header to level {0}', level)
+				: l10n.t('Demote header to level {0}', level),
+			kind: lsp.CodeActionKind.QuickFix,
+			diagnostics: [diag],
+			isPreferred: true,
+			edit: builder.getEdit(),
+		};
+	}
+}
@@ -0,0 +1,189 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as l10n from '@vscode/l10n';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getDocUri, getLine, ITextDocument } from '../../types/textDocument';
+import { WorkspaceEditBuilder } from '../../util/editBuilder';
+import { formatTable, MdTable, MdTableFormattingProvider, TableColumnAlignment } from '../tableFormatting';
+import { codeActionKindContains } from './util';
+
+/**
+ * Provides code actions that insert, delete, move, and sort the rows and columns of the table under the cursor.
+ *
+ * Each action rewrites and realigns the entire table.
+ */
+export class MdEditTableCodeActionProvider {
+
+	static readonly #kind = lsp.CodeActionKind.RefactorRewrite + '.table';
+
+	readonly #tableProvider: MdTableFormattingProvider;
+
+	constructor(tableProvider: MdTableFormattingProvider) {
+		this.#tableProvider = tableProvider;
+	}
+
+	async getActions(doc: ITextDocument, range: lsp.Range, context: lsp.CodeActionContext, token: lsp.CancellationToken): Promise<lsp.CodeAction[]> {
+		if (!this.#isEnabled(context)) {
+			return [];
+		}
+
+		const tables = await this.#tableProvider.getTables(doc, token);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const pos = range.start;
+		const table = tables.find(table => pos.line >= table.range.start.line && pos.line <= table.range.end.line);
+		if (!table) {
+			return [];
+		}
+
+		const column = getColumnAtPosition(table, getLine(doc, pos.line), pos.character);
+
+		// Index of the body row under the cursor. The header and delimiter rows are both treated as row -1
+		const bodyRow = Math.max(pos.line - table.range.start.line - 2, -1);
+
+		const actions: lsp.CodeAction[] = [];
+		const addAction = (title: string, newTable: MdTable) => {
+			actions.push(this.#createAction(doc, table, title, newTable));
+		};
+
+		addAction(l10n.t('Insert column to the left'), insertColumn(table, column));
+		addAction(l10n.t('Insert column to the right'), insertColumn(table, column + 1));
+		if (table.header.length > 1) {
+			addAction(l10n.t('Delete column'), deleteColumn(table, column));
+		}
+		if (column > 0) {
+			addAction(l10n.t('Move column left'), moveColumn(table, column, column - 1));
+		}
+		if (column < table.header.length - 1) {
+			addAction(l10n.t('Move column right'), moveColumn(table, column, column + 1));
+		}
+
+		if (bodyRow >= 0) {
+			addAction(l10n.t('Insert row above'), insertRow(table, bodyRow));
+		}
+		addAction(l10n.t('Insert row below'), insertRow(table, bodyRow + 1));
+		if (bodyRow >= 0) {
+			addAction(l10n.t('Delete row'), { ...table, rows: table.rows.filter((_, i) => i !== bodyRow) });
+			if (bodyRow > 0) {
+				addAction(l10n.t('Move row up'), moveRow(table, bodyRow, bodyRow - 1));
+			}
+			if (bodyRow < table.rows.length - 1) {
+				addAction(l10n.t('Move row down'), moveRow(table, bodyRow, bodyRow + 1));
+			}
+		}
+
+		if (table.rows.length > 1) {
+			addAction(l10n.t('Sort table by column ascending'), sortByColumn(table, column, 1));
+			addAction(l10n.t('Sort table by column descending'), sortByColumn(table, column, -1));
+		}
+
+		return actions;
+	}
+
+	#isEnabled(context: lsp.CodeActionContext): boolean {
+		if (typeof context.only === 'undefined') {
+			return true;
+		}
+
+		return context.only.some(kind => codeActionKindContains(lsp.CodeActionKind.Refactor, kind));
+	}
+
+	#createAction(doc: ITextDocument, table: MdTable, title: string, newTable: MdTable): lsp.CodeAction {
+		const builder = new WorkspaceEditBuilder();
+		builder.replace(getDocUri(doc), table.range, formatTable(newTable).join('\n'));
+		return {
+			title,
+			kind: MdEditTableCodeActionProvider.#kind,
+			edit: builder.getEdit(),
+		};
+	}
+}
+
+/**
+ * Get the index of the column that `character` is in by counting the unescaped pipes before it.
+ */
+function getColumnAtPosition(table: MdTable, line: string, character: number): number {
+	const before = line.slice(0, character);
+	let pipes = 0;
+	for (let i = 0; i < before.length; ++i) {
+		if (before[i] === '\\') {
+			++i;
+		} else if (before[i] === '|') {
+			++pipes;
+		}
+	}
+
+	if (line.trimStart().startsWith('|') && pipes > 0) {
+		--pipes;
+	}
+	return Math.min(pipes, table.header.length - 1);
+}
+
+function mapRows(table: MdTable, f: (cells: string[]) => string[]): Pick<MdTable, 'header' | 'rows'> {
+	const fill = (cells: readonly string[]) => [...cells, ...new Array(Math.max(0, table.header.length - cells.length)).fill('')];
+	return {
+		header: f(fill(table.header)),
+		rows: table.rows.map(row => f(fill(row))),
+	};
+}
+
+function insertColumn(table: MdTable, column: number): MdTable {
+	const alignments = [...table.alignments];
+	alignments.splice(column, 0, TableColumnAlignment.none);
+	return {
+		...table,
+		...mapRows(table, cells => {
+			cells.splice(column, 0, '');
+			return cells;
+		}),
+		alignments,
+	};
+}
+
+function deleteColumn(table: MdTable, column: number): MdTable {
+	return {
+		...table,
+		...mapRows(table, cells => cells.filter((_, i) => i !== column)),
+		alignments: table.alignments.filter((_, i) => i !== column),
+	};
+}
+
+function moveColumn(table: MdTable, from: number, to: number): MdTable {
+	const move = <T>(items: T[]): T[] => {
+		const [item] = items.splice(from, 1);
+		items.splice(to, 0, item);
+		return items;
+	};
+
+	return {
+		...table,
+		...mapRows(table, move),
+		alignments: move([...table.alignments]),
+	};
+}
+
+function insertRow(table: MdTable, row: number): MdTable {
+	const rows = [...table.rows];
+	rows.splice(row, 0, new Array(table.header.length).fill(''));
+	return { ...table, rows };
+}
+
+function moveRow(table: MdTable, from: number, to: number): MdTable {
+	const rows = [...table.rows];
+	const [row] = rows.splice(from, 1);
+	rows.splice(to, 0, row);
+	return { ...table, rows };
+}
+
+/**
+ * Sort the body rows of the table by the text of `column`. Numbers in the cells are compared by value.
+ */
+function sortByColumn(table: MdTable, column: number, direction: 1 | -1): MdTable {
+	const rows = [...table.rows].sort((a, b) => direction * (a[column] ?? '').localeCompare(b[column] ?? '', undefined, { numeric: true, sensitivity: 'base' }));
+	return { ...table, rows };
+}
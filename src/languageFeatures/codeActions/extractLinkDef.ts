@@ -53,7 +53,7 @@ export class MdExtractLinkDefinitionCodeActionProvider {
 			return [];
 		}
 
-		const linksInRange = linkInfo.links.filter(link => link.kind !== MdLinkKind.Definition && rangeIntersects(range, link.source.range)) as MdInlineLink[];
+		const linksInRange = linkInfo.links.filter(link => (link.kind === MdLinkKind.Link || link.kind === MdLinkKind.AutoLink) && rangeIntersects(range, link.source.range)) as MdInlineLink[];
 		if (!linksInRange.length) {
 			return [MdExtractLinkDefinitionCodeActionProvider.notOnLinkAction];
 		}
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as l10n from '@vscode/l10n';
+import * as lsp from 'vscode-languageserver-protocol';
+import { rangeIntersects } from '../../types/range';
+import { getDocUri, ITextDocument } from '../../types/textDocument';
+import { WorkspaceEditBuilder } from '../../util/editBuilder';
+import { DiagnosticCode } from '../diagnostics';
+import { codeActionKindContains } from './util';
+
+
+export class MdFixPathCasingCodeActionProvider {
+
+	*getActions(doc: ITextDocument, range: lsp.Range, context: lsp.CodeActionContext): Iterable<lsp.CodeAction> {
+		if (!this.#isEnabled(context)) {
+			return;
+		}
+
+		for (const diag of context.diagnostics) {
+			if (diag.code === DiagnosticCode.link_pathCaseMismatch && diag.data && rangeIntersects(diag.range, range)) {
+				yield this.#getFixCasingAction(doc, diag, (diag.data as { correctedPathText: string }).correctedPathText);
+			}
+		}
+	}
+
+	#isEnabled(context: lsp.CodeActionContext): boolean {
+		if (typeof context.only === 'undefined') {
+			return true;
+		}
+
+		return context.only.some(kind => codeActionKindContains(lsp.CodeActionKind.QuickFix, kind));
+	}
+
+	#getFixCasingAction(doc: ITextDocument, diag: lsp.Diagnostic, correctedPathText: string): lsp.CodeAction {
+		const builder = new WorkspaceEditBuilder();
+		builder.replace(getDocUri(doc), diag.range, correctedPathText);
+
+		return {
+			title: l10n.t('Change path casing to \'{0}\'', correctedPathText),
+			kind: lsp.CodeActionKind.QuickFix,
+			diagnostics: [diag],
+			isPreferred: true,
+			edit: builder.getEdit(),
+		};
+	}
+}
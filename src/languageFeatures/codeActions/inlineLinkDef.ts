@@ -0,0 +1,209 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as l10n from '@vscode/l10n';
+import * as lsp from 'vscode-languageserver-protocol';
+import { HrefKind, MdInlineLink, MdLinkDefinition, MdLinkKind, ReferenceHref } from '../../types/documentLink';
+import { comparePosition, translatePosition } from '../../types/position';
+import { rangeIntersects } from '../../types/range';
+import { getDocUri, getLine, ITextDocument } from '../../types/textDocument';
+import { WorkspaceEditBuilder } from '../../util/editBuilder';
+import { escapeForAngleBracketLink, needsAngleBracketLink } from '../../util/mdLinks';
+import { definitionTitlePattern, MdDocumentLinksInfo, MdLinkProvider } from '../documentLinks';
+import { codeActionKindContains } from './util';
+
+/**
+ * Replaces reference links, such as `[text][ref]`, with an inline link to the destination of the link definition.
+ *
+ * This is the inverse of {@link MdExtractLinkDefinitionCodeActionProvider}.
+ */
+export class MdInlineLinkDefinitionCodeActionProvider {
+
+	public static readonly genericTitle = l10n.t('Inline link definition');
+
+	static #kind = lsp.CodeActionKind.RefactorInline + '.linkDefinition';
+
+	public static readonly notOnReferenceLinkAction: lsp.CodeAction = {
+		title: this.genericTitle,
+		kind: this.#kind,
+		disabled: {
+			reason: l10n.t('Not on reference link'),
+		}
+	};
+
+	public static readonly noDefinitionAction: lsp.CodeAction = {
+		title: this.genericTitle,
+		kind: this.#kind,
+		disabled: {
+			reason: l10n.t('Link definition not found'),
+		}
+	};
+
+	readonly #linkProvider: MdLinkProvider;
+
+	constructor(linkProvider: MdLinkProvider) {
+		this.#linkProvider = linkProvider;
+	}
+
+	async getActions(doc: ITextDocument, range: lsp.Range, context: lsp.CodeActionContext, token: lsp.CancellationToken): Promise<lsp.CodeAction[]> {
+		if (!this.#isEnabled(context)) {
+			return [];
+		}
+
+		const linkInfo = await this.#linkProvider.getLinks(doc);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const refLinksInRange = linkInfo.links.filter(link => link.kind === MdLinkKind.Link && link.href.kind === HrefKind.Reference && rangeIntersects(range, link.source.range)) as MdInlineLink<ReferenceHref>[];
+		if (!refLinksInRange.length) {
+			return [MdInlineLinkDefinitionCodeActionProvider.notOnReferenceLinkAction];
+		}
+
+		// Sort by range start to get most specific link
+		refLinksInRange.sort((a, b) => comparePosition(b.source.range.start, a.source.range.start));
+
+		const targetLink = refLinksInRange[0];
+		const definition = linkInfo.definitions.lookup(targetLink.href.ref);
+		if (!definition) {
+			return [MdInlineLinkDefinitionCodeActionProvider.noDefinitionAction];
+		}
+
+		const allUses = this.#getUsesOfDefinition(linkInfo, definition);
+		const actions = [this.#getInlineAction(doc, MdInlineLinkDefinitionCodeActionProvider.genericTitle, definition, [targetLink], allUses.length <= 1)];
+		if (allUses.length > 1) {
+			actions.push(this.#getInlineAction(doc, l10n.t('Inline all uses of link definition \'{0}\'', definition.ref.text), definition, allUses, true));
+		}
+		return actions;
+	}
+
+	#isEnabled(context: lsp.CodeActionContext): boolean {
+		if (typeof context.only === 'undefined') {
+			return true;
+		}
+
+		return context.only.some(kind => codeActionKindContains(lsp.CodeActionKind.Refactor, kind));
+	}
+
+	#getUsesOfDefinition(linkInfo: MdDocumentLinksInfo, definition: MdLinkDefinition): MdInlineLink<ReferenceHref>[] {
+		return linkInfo.links.filter(link =>
+			link.kind === MdLinkKind.Link
+			&& link.href.kind === HrefKind.Reference
+			&& linkInfo.definitions.lookup(link.href.ref) === definition
+		) as MdInlineLink<ReferenceHref>[];
+	}
+
+	#getInlineAction(doc: ITextDocument, title: string, definition: MdLinkDefinition, links: readonly MdInlineLink<ReferenceHref>[], removeDefinition: boolean): lsp.CodeAction {
+		const builder = new WorkspaceEditBuilder();
+		const resource = getDocUri(doc);
+
+		const target = `(${getInlineDestinationText(doc, definition)})`;
+		for (const link of links) {
+			builder.replace(resource, getReferenceRange(doc, link), target);
+		}
+
+		if (removeDefinition) {
+			for (const range of getRemoveDefinitionRanges(doc, [definition])) {
+				builder.replace(resource, range, '');
+			}
+		}
+
+		return {
+			title,
+			kind: MdInlineLinkDefinitionCodeActionProvider.#kind,
+			edit: builder.getEdit(),
+		};
+	}
+}
+
+/**
+ * Get the range of the reference part of a reference link, which is replaced by the inline destination.
+ *
+ * For `[text][ref]` this is `[ref]`. For `[ref][]` this is `[]`, while for `[ref]` this is the empty range after the link.
+ */
+export function getReferenceRange(doc: ITextDocument, link: MdInlineLink<ReferenceHref>): lsp.Range {
+	const { range, hrefRange } = link.source;
+	const isShorthand = hrefRange.start.line === range.start.line && hrefRange.start.character === range.start.character + 1;
+	if (isShorthand) {
+		return lsp.Range.create(translatePosition(hrefRange.end, { characterDelta: 1 }), range.end);
+	}
+
+	const refStart = getLine(doc, hrefRange.start.line).lastIndexOf('[', hrefRange.start.character - 1);
+	return lsp.Range.create(hrefRange.start.line, refStart, range.end.line, range.end.character);
+}
+
+/**
+ * Get the ranges to delete when removing a set of definitions.
+ *
+ * Definitions at the end of the document also remove the blank lines before them so that the document does not end
+ * with blank lines.
+ */
+export function getRemoveDefinitionRanges(doc: ITextDocument, definitions: readonly MdLinkDefinition[]): lsp.Range[] {
+	// Definitions may span multiple lines, for example when their title is on the next line
+	const removedLines = new Set<number>();
+	for (const def of definitions) {
+		for (let line = def.source.range.start.line; line <= def.source.range.end.line; ++line) {
+			removedLines.add(line);
+		}
+	}
+	const ranges: lsp.Range[] = [];
+
+	let lastKeptLine = doc.lineCount - 1;
+	if (removedLines.has(lastKeptLine)) {
+		const lastLine = lastKeptLine;
+		while (lastKeptLine >= 0 && (removedLines.has(lastKeptLine) || !getLine(doc, lastKeptLine).trim())) {
+			--lastKeptLine;
+		}
+
+		const end = lsp.Position.create(lastLine, getLine(doc, lastLine).length);
+		ranges.push(lastKeptLine < 0
+			? lsp.Range.create(lsp.Position.create(0, 0), end)
+			: lsp.Range.create(lsp.Position.create(lastKeptLine, getLine(doc, lastKeptLine).length), end));
+	}
+
+	const sortedLines = Array.from(removedLines).filter(line => line <= lastKeptLine).sort((a, b) => a - b);
+	for (let i = 0; i < sortedLines.length; ++i) {
+		const start = sortedLines[i];
+		while (sortedLines[i + 1] === sortedLines[i] + 1) {
+			++i;
+		}
+		ranges.push(lsp.Range.create(start, 0, sortedLines[i] + 1, 0));
+	}
+
+	return ranges;
+}
+
+/**
+ * Get the title of a link definition, including its quotes or parens.
+ *
+ * The title may either be on the same line as the destination or on the line after it.
+ */
+export function getDefinitionTitleText(doc: ITextDocument, definition: MdLinkDefinition): string | undefined {
+	const afterHref = translatePosition(definition.source.hrefRange.end, { characterDelta: definition.source.isAngleBracketLink ? 1 : 0 });
+	let title = getLine(doc, afterHref.line).slice(afterHref.character).trim();
+	if (!title && definition.source.range.end.line > afterHref.line) {
+		title = getLine(doc, afterHref.line + 1).trim();
+	}
+	return definitionTitlePattern.test(title) ? title : undefined;
+}
+
+/**
+ * Get the text of the definition's destination and title, for use inside of an inline link's parens.
+ */
+function getInlineDestinationText(doc: ITextDocument, definition: MdLinkDefinition): string {
+	const hrefText = doc.getText(definition.source.hrefRange);
+
+	let destination: string;
+	if (definition.source.isAngleBracketLink) {
+		destination = `<${hrefText}>`;
+	} else if (needsAngleBracketLink(hrefText)) {
+		destination = `<${escapeForAngleBracketLink(hrefText)}>`;
+	} else {
+		destination = hrefText;
+	}
+
+	const title = getDefinitionTitleText(doc, definition);
+	return title ? `${destination} ${title}` : destination;
+}
@@ -55,7 +55,7 @@ export class MdRemoveLinkDefinitionCodeActionProvider {
 		const builder = new WorkspaceEditBuilder();
 
 		const range = definition.source.range;
-		builder.replace(getDocUri(doc), lsp.Range.create(range.start.line, 0, range.start.line + 1, 0), '');
+		builder.replace(getDocUri(doc), lsp.Range.create(range.start.line, 0, range.end.line + 1, 0), '');
 
 		return { title, kind: lsp.CodeActionKind.QuickFix, edit: builder.getEdit() };
 	}
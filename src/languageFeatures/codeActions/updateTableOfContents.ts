@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as l10n from '@vscode/l10n';
+import * as lsp from 'vscode-languageserver-protocol';
+import { rangeIntersects } from '../../types/range';
+import { getDocUri, ITextDocument } from '../../types/textDocument';
+import { WorkspaceEditBuilder } from '../../util/editBuilder';
+import { DiagnosticCode } from '../diagnostics';
+import { codeActionKindContains } from './util';
+
+
+export class MdUpdateTableOfContentsCodeActionProvider {
+
+	static readonly #updateTitle = l10n.t('Update table of contents');
+
+	*getActions(doc: ITextDocument, range: lsp.Range, context: lsp.CodeActionContext): Iterable<lsp.CodeAction> {
+		if (!this.#isEnabled(context)) {
+			return;
+		}
+
+		for (const diag of context.diagnostics) {
+			if (diag.code === DiagnosticCode.toc_outOfDate && diag.data && rangeIntersects(diag.range, range)) {
+				const edit = diag.data as lsp.TextEdit;
+
+				const builder = new WorkspaceEditBuilder();
+				builder.replace(getDocUri(doc), edit.range, edit.newText);
+
+				yield {
+					title: MdUpdateTableOfContentsCodeActionProvider.#updateTitle,
+					kind: lsp.CodeActionKind.QuickFix,
+					diagnostics: [diag],
+					isPreferred: true,
+					edit: builder.getEdit(),
+				};
+			}
+		}
+	}
+
+	#isEnabled(context: lsp.CodeActionContext): boolean {
+		if (typeof context.only === 'undefined') {
+			return true;
+		}
+
+		return context.only.some(kind => codeActionKindContains(lsp.CodeActionKind.QuickFix, kind));
+	}
+}
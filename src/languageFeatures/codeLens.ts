@@ -0,0 +1,119 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as l10n from '@vscode/l10n';
+import * as lsp from 'vscode-languageserver-protocol';
+import { URI } from 'vscode-uri';
+import { ILogger, LogLevel } from '../logging';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { MdLinkKind } from '../types/documentLink';
+import { getDocUri, ITextDocument } from '../types/textDocument';
+import { IWorkspace } from '../workspace';
+import { MdLinkProvider } from './documentLinks';
+import { MdReferenceKind, MdReferencesProvider } from './references';
+
+/**
+ * Data stored on unresolved code lenses.
+ */
+interface MdCodeLensData {
+	readonly uri: string;
+
+	/**
+	 * Position to find references at. For headers this is on the header line, for link definitions this is on the
+	 * reference name.
+	 */
+	readonly position: lsp.Position;
+}
+
+/**
+ * Provides code lenses that show the number of references to headers and link definitions.
+ *
+ * Reference counts are only computed when a code lens is resolved.
+ */
+export class MdCodeLensProvider {
+
+	readonly #workspace: IWorkspace;
+	readonly #tocProvider: MdTableOfContentsProvider;
+	readonly #linkProvider: MdLinkProvider;
+	readonly #referencesProvider: MdReferencesProvider;
+	readonly #logger: ILogger;
+
+	constructor(
+		workspace: IWorkspace,
+		tocProvider: MdTableOfContentsProvider,
+		linkProvider: MdLinkProvider,
+		referencesProvider: MdReferencesProvider,
+		logger: ILogger,
+	) {
+		this.#workspace = workspace;
+		this.#tocProvider = tocProvider;
+		this.#linkProvider = linkProvider;
+		this.#referencesProvider = referencesProvider;
+		this.#logger = logger;
+	}
+
+	public async provideCodeLenses(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.CodeLens[]> {
+		this.#logger.log(LogLevel.Debug, 'CodeLensProvider.provideCodeLenses', { document: document.uri, version: document.version });
+
+		const toc = await this.#tocProvider.getForDocument(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const { links } = await this.#linkProvider.getLinks(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const uri = getDocUri(document).toString();
+		const lenses: lsp.CodeLens[] = [];
+
+		for (const entry of toc.entries) {
+			lenses.push(this.#createCodeLens(entry.headerLocation.range, { uri, position: entry.headerLocation.range.start }));
+		}
+
+		for (const link of links) {
+			if (link.kind === MdLinkKind.Definition) {
+				lenses.push(this.#createCodeLens(link.source.range, { uri, position: link.ref.range.start }));
+			}
+		}
+
+		return lenses;
+	}
+
+	public async resolveCodeLens(codeLens: lsp.CodeLens, token: lsp.CancellationToken): Promise<lsp.CodeLens> {
+		const data = codeLens.data as MdCodeLensData | undefined;
+		if (!data) {
+			return codeLens;
+		}
+
+		const document = await this.#workspace.openMarkdownDocument(URI.parse(data.uri));
+		if (!document || token.isCancellationRequested) {
+			return codeLens;
+		}
+
+		const references = await this.#referencesProvider.getReferencesAtPosition(document, data.position, token);
+		if (token.isCancellationRequested) {
+			return codeLens;
+		}
+
+		const locations = references
+			.filter(ref => ref.kind === MdReferenceKind.Link && !ref.isDefinition)
+			.map(ref => ref.location);
+
+		return {
+			...codeLens,
+			command: {
+				title: locations.length === 1 ? l10n.t('1 reference') : l10n.t('{0} references', locations.length),
+				command: 'vscodeMarkdownLanguageservice.showReferences',
+				arguments: [data.uri, data.position, locations],
+			},
+		};
+	}
+
+	#createCodeLens(range: lsp.Range, data: MdCodeLensData): lsp.CodeLens {
+		return { range, data };
+	}
+}
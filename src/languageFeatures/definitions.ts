@@ -5,7 +5,7 @@
 import * as lsp from 'vscode-languageserver-protocol';
 import { LsConfiguration } from '../config';
 import { MdTableOfContentsProvider } from '../tableOfContents';
-import { HrefKind, LinkDefinitionSet, MdLink, MdLinkKind } from '../types/documentLink';
+import { FootnoteDefinitionSet, HrefKind, LinkDefinitionSet, MdLink, MdLinkKind } from '../types/documentLink';
 import { rangeContains } from '../types/range';
 import { ITextDocument } from '../types/textDocument';
 import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
@@ -64,6 +64,10 @@ export class MdDefinitionProvider {
 			return this.#getDefinitionOfRef(sourceLink.href.ref, allLinksInFile);
 		}
 
+		if (sourceLink.href.kind === HrefKind.Footnote) {
+			return this.#getDefinitionOfFootnote(sourceLink.href.ref, allLinksInFile);
+		}
+
 		if (sourceLink.href.kind === HrefKind.External || !sourceLink.href.fragment) {
 			return undefined;
 		}
@@ -74,7 +78,7 @@ export class MdDefinitionProvider {
 		}
 
 		const toc = await this.#tocProvider.get(resolvedResource);
-		return toc?.lookupByFragment(sourceLink.href.fragment)?.headerLocation;
+		return toc?.lookupByFragment(sourceLink.href.fragment)?.headerLocation ?? toc?.lookupAnchorByFragment(sourceLink.href.fragment)?.location;
 	}
 
 	#getDefinitionOfRef(ref: string, allLinksInFile: readonly MdLink[]) {
@@ -82,4 +86,10 @@ export class MdDefinitionProvider {
 		const def = allDefinitions.lookup(ref);
 		return def ? { range: def.source.range, uri: def.source.resource.toString() } : undefined;
 	}
+
+	#getDefinitionOfFootnote(ref: string, allLinksInFile: readonly MdLink[]) {
+		const allFootnotes = new FootnoteDefinitionSet(allLinksInFile);
+		const def = allFootnotes.lookup(ref);
+		return def ? { range: def.source.range, uri: def.source.resource.toString() } : undefined;
+	}
 }
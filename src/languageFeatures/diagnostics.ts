@@ -6,20 +6,23 @@
 import * as l10n from '@vscode/l10n';
 import * as picomatch from 'picomatch';
 import * as lsp from 'vscode-languageserver-protocol';
-import { URI } from 'vscode-uri';
-import { LsConfiguration } from '../config';
+import { URI, Utils } from 'vscode-uri';
+import { isExcludedPath, LsConfiguration } from '../config';
+import { IExternalLinkChecker } from '../externalLinks';
 import { ILogger, LogLevel } from '../logging';
 import { MdTableOfContentsProvider, TableOfContents } from '../tableOfContents';
-import { HrefKind, InternalHref, LinkDefinitionSet, MdLink, MdLinkDefinition, MdLinkKind, MdLinkSource, ReferenceLinkMap } from '../types/documentLink';
+import { FootnoteDefinitionSet, HrefKind, InternalHref, LinkDefinitionSet, MdLink, MdLinkDefinition, MdLinkKind, MdLinkSource, ReferenceLinkMap } from '../types/documentLink';
 import { translatePosition } from '../types/position';
 import { modifyRange } from '../types/range';
 import { getDocUri, ITextDocument } from '../types/textDocument';
 import { Disposable, IDisposable } from '../util/dispose';
 import { Limiter } from '../util/limiter';
-import { isSameResource, looksLikeMarkdownUri, parseLocationInfoFromFragment } from '../util/path';
+import { isParentDir, isSameResource, looksLikeMarkdownUri, parseLocationInfoFromFragment, parseLocationRangeFromFragment } from '../util/path';
 import { ResourceMap } from '../util/resourceMap';
-import { FileStat, IWorkspace, IWorkspaceWithWatching, statLinkToMarkdownFile } from '../workspace';
+import { tryDecodeUri } from '../util/uri';
+import { FileStat, getWorkspaceFolder, IWorkspace, IWorkspaceWithWatching, LinkedFileStat, openLinkToTextFile, statLinkToMarkdownFile } from '../workspace';
 import { MdLinkProvider } from './documentLinks';
+import { getOutOfDateTocBlock, TocBlockOptions } from './tableOfContentsBlock';
 
 /**
  * The severity at which diagnostics are reported
@@ -61,6 +64,15 @@ export interface DiagnosticOptions {
 	 */
 	readonly validateFileLinks: DiagnosticLevel | undefined;
 
+	/**
+	 * Diagnostic level for links to local files where the casing of the path does not match the file on disk, e.g.
+	 * `[text](./Guide.md)` for the file `guide.md`.
+	 *
+	 * These links work on case insensitive file systems but break on case sensitive ones. Only validated when
+	 * {@link DiagnosticOptions.validateFileLinks} is enabled. Defaults to not validating path casing.
+	 */
+	readonly validateFileLinkCasing?: DiagnosticLevel | undefined;
+
 	/**
 	 * Diagnostic level for the fragment part of links to other local markdown files , e.g. `[text](./file.md#no-such-header)`.
 	 */
@@ -76,6 +88,69 @@ export interface DiagnosticOptions {
 	 */
 	readonly validateDuplicateLinkDefinitions: DiagnosticLevel | undefined;
 
+	/**
+	 * Diagnostic level for footnote references that don't have a definition, e.g. `[^no-such-footnote]`.
+	 *
+	 * If not set, this uses {@link DiagnosticOptions.validateReferences}.
+	 */
+	readonly validateFootnoteReferences?: DiagnosticLevel | undefined;
+
+	/**
+	 * Diagnostic level for footnote definitions that aren't used anywhere. `[^never-used]: Some note`.
+	 *
+	 * If not set, this uses {@link DiagnosticOptions.validateUnusedLinkDefinitions}.
+	 */
+	readonly validateUnusedFootnotes?: DiagnosticLevel | undefined;
+
+	/**
+	 * Diagnostic level for external `http` and `https` links that can't be reached or that redirect, e.g. `[text](https://example.com/gone)`.
+	 *
+	 * External links are only validated if the language service was created with an {@link IExternalLinkChecker}. Defaults to not validating external links.
+	 */
+	readonly validateExternalLinks?: DiagnosticLevel | undefined;
+
+	/**
+	 * Diagnostic level for line number fragments that are past the end of the linked to file, e.g. `[text](./file.ts#L10-L20)`
+	 * where `file.ts` only has 15 lines.
+	 *
+	 * The linked to file must be openable through the {@link IWorkspace}. Defaults to not validating line numbers.
+	 */
+	readonly validateLineRangeFragments?: DiagnosticLevel | undefined;
+
+	/**
+	 * Diagnostic level for a `<!-- toc -->` block that no longer matches the headers in the document.
+	 *
+	 * The expected table of contents is generated using {@link DiagnosticOptions.tocBlockOptions}.
+	 */
+	readonly validateTableOfContents?: DiagnosticLevel | undefined;
+
+	/**
+	 * Options used to generate the expected contents of `<!-- toc -->` blocks.
+	 */
+	readonly tocBlockOptions?: TocBlockOptions;
+
+	/**
+	 * Diagnostic level for headers that skip a level, e.g. `#` followed by `###`.
+	 */
+	readonly validateHeaderLevelIncrements?: DiagnosticLevel | undefined;
+
+	/**
+	 * Diagnostic level for documents with more than one top level (`#`) header.
+	 */
+	readonly validateMultipleTopLevelHeaders?: DiagnosticLevel | undefined;
+
+	/**
+	 * Diagnostic level for headers with the same text as an earlier header in the document.
+	 *
+	 * Links to these headers have to use a generated fragment such as `#header-1`.
+	 */
+	readonly validateDuplicateHeaders?: DiagnosticLevel | undefined;
+
+	/**
+	 * Diagnostic level for headers without any text, e.g. `##`.
+	 */
+	readonly validateEmptyHeaders?: DiagnosticLevel | undefined;
+
 	/**
 	 * Glob of links that should not be validated.
 	 */
@@ -105,6 +180,9 @@ export enum DiagnosticCode {
 	/** The linked to local file does not exist. */
 	link_noSuchFile = 'link.no-such-file',
 
+	/** The casing of the linked to local file path does not match the file on disk. */
+	link_pathCaseMismatch = 'link.path-case-mismatch',
+
 	/** The linked to heading does not exist in the another file. */
 	link_noSuchHeaderInFile = 'link.no-such-header-in-file',
 
@@ -113,6 +191,36 @@ export enum DiagnosticCode {
 
 	/** The link definition is not used anywhere. */
 	link_duplicateDefinition = 'link.duplicate-definition',
+
+	/** The referenced footnote does not exist. */
+	link_noSuchFootnote = 'link.no-such-footnote',
+
+	/** The footnote definition is not used anywhere. */
+	link_unusedFootnote = 'link.unused-footnote',
+
+	/** The linked to external resource could not be reached. */
+	link_deadExternalLink = 'link.dead-external-link',
+
+	/** The linked to external resource redirects to another uri. */
+	link_redirectedExternalLink = 'link.redirected-external-link',
+
+	/** The linked to line or line range does not exist in the file. */
+	link_noSuchLineInFile = 'link.no-such-line-in-file',
+
+	/** The table of contents block does not match the headers in the document. */
+	toc_outOfDate = 'toc.out-of-date',
+
+	/** The header skips a level, e.g. `#` followed by `###`. */
+	header_skippedLevel = 'header.skipped-level',
+
+	/** The document has more than one top level header. */
+	header_multipleTopLevel = 'header.multiple-top-level',
+
+	/** The header has the same text as an earlier header. */
+	header_duplicate = 'header.duplicate',
+
+	/** The header has no text. */
+	header_empty = 'header.empty',
 }
 
 /**
@@ -152,6 +260,50 @@ class FileLinkMap {
 	}
 }
 
+/**
+ * Remembers the most recently computed diagnostics for each document.
+ *
+ * This lets other features, such as semantic tokens, reflect the results of validation without re-validating documents.
+ *
+ * Entries are dropped when their document is deleted or changed, since they can no longer be returned at that point.
+ */
+export class MdDiagnosticsCache extends Disposable {
+
+	readonly #entries = new ResourceMap<{
+		readonly version: number;
+		readonly diagnostics: readonly lsp.Diagnostic[];
+	}>();
+
+	constructor(workspace: IWorkspace) {
+		super();
+
+		this._register(workspace.onDidDeleteMarkdownDocument(resource => this.delete(resource)));
+		this._register(workspace.onDidChangeMarkdownDocument(doc => {
+			if (this.#entries.get(getDocUri(doc))?.version !== doc.version) {
+				this.delete(getDocUri(doc));
+			}
+		}));
+	}
+
+	public set(doc: ITextDocument, diagnostics: readonly lsp.Diagnostic[]): void {
+		this.#entries.set(getDocUri(doc), { version: doc.version, diagnostics });
+	}
+
+	/**
+	 * Get the cached diagnostics for `doc`.
+	 *
+	 * @returns The diagnostics or `undefined` if diagnostics have not been computed for the current version of the document.
+	 */
+	public get(doc: ITextDocument): readonly lsp.Diagnostic[] | undefined {
+		const entry = this.#entries.get(getDocUri(doc));
+		return entry?.version === doc.version ? entry.diagnostics : undefined;
+	}
+
+	public delete(resource: URI): void {
+		this.#entries.delete(resource);
+	}
+}
+
 export class DiagnosticComputer {
 
 	readonly #configuration: LsConfiguration;
@@ -159,6 +311,8 @@ export class DiagnosticComputer {
 	readonly #linkProvider: MdLinkProvider;
 	readonly #tocProvider: MdTableOfContentsProvider;
 	readonly #logger: ILogger;
+	readonly #externalLinkChecker: IExternalLinkChecker | undefined;
+	readonly #diagnosticsCache: MdDiagnosticsCache | undefined;
 
 	constructor(
 		configuration: LsConfiguration,
@@ -166,12 +320,16 @@ export class DiagnosticComputer {
 		linkProvider: MdLinkProvider,
 		tocProvider: MdTableOfContentsProvider,
 		logger: ILogger,
+		externalLinkChecker?: IExternalLinkChecker,
+		diagnosticsCache?: MdDiagnosticsCache,
 	) {
 		this.#configuration = configuration;
 		this.#workspace = workspace;
 		this.#linkProvider = linkProvider;
 		this.#tocProvider = tocProvider;
 		this.#logger = logger;
+		this.#externalLinkChecker = externalLinkChecker;
+		this.#diagnosticsCache = diagnosticsCache;
 	}
 
 	public async compute(
@@ -181,18 +339,18 @@ export class DiagnosticComputer {
 	): Promise<{
 		readonly diagnostics: lsp.Diagnostic[];
 		readonly links: readonly MdLink[];
-		readonly statCache: ResourceMap<{ readonly exists: boolean }>;
+		readonly statCache: ResourceMap<LinkedFileStat>;
 	}> {
 		this.#logger.log(LogLevel.Debug, 'DiagnosticComputer.compute', { document: doc.uri, version: doc.version });
 
-		const { links, definitions } = await this.#linkProvider.getLinks(doc);
-		const statCache = new ResourceMap<{ readonly exists: boolean }>();
+		const { links, definitions, footnotes } = await this.#linkProvider.getLinks(doc);
+		const statCache = new ResourceMap<LinkedFileStat>();
 		if (token.isCancellationRequested) {
 			return { links, diagnostics: [], statCache };
 		}
 
 		// Current doc always implicitly exists
-		statCache.set(getDocUri(doc), { exists: true });
+		statCache.set(getDocUri(doc), { exists: true, isDirectory: false });
 
 		const diagnostics = (await Promise.all([
 			this.#validateFileLinks(options, links, statCache, token),
@@ -200,10 +358,20 @@ export class DiagnosticComputer {
 			Array.from(this.#validateReferenceLinks(options, links, definitions)),
 			Array.from(this.#validateUnusedLinkDefinitions(options, links)),
 			Array.from(this.#validateDuplicateLinkDefinitions(options, links)),
+			Array.from(this.#validateFootnoteReferences(options, links, footnotes)),
+			Array.from(this.#validateUnusedFootnotes(options, links)),
+			this.#validateExternalLinks(options, links, token),
+			this.#validateLineRangeFragments(options, links, token),
+			this.#validateTableOfContents(doc, options, token),
+			this.#validateHeaders(doc, options, token),
 		])).flat();
 
 		this.#logger.log(LogLevel.Trace, 'DiagnosticComputer.compute finished', { document: doc.uri, version: doc.version, diagnostics });
 
+		if (!token.isCancellationRequested) {
+			this.#diagnosticsCache?.set(doc, diagnostics);
+		}
+
 		return {
 			links: links,
 			statCache,
@@ -344,10 +512,60 @@ export class DiagnosticComputer {
 		}
 	}
 
+	*#validateFootnoteReferences(options: DiagnosticOptions, links: readonly MdLink[], footnotes: FootnoteDefinitionSet): Iterable<lsp.Diagnostic> {
+		const severity = toSeverity(typeof options.validateFootnoteReferences === 'undefined' ? options.validateReferences : options.validateFootnoteReferences);
+		if (typeof severity === 'undefined') {
+			return;
+		}
+
+		for (const link of links) {
+			if (link.kind === MdLinkKind.FootnoteReference && !footnotes.lookup(link.href.ref)) {
+				yield {
+					code: DiagnosticCode.link_noSuchFootnote,
+					message: l10n.t('No footnote found: \'{0}\'', link.href.ref),
+					range: link.source.hrefRange,
+					severity,
+					data: {
+						ref: link.href.ref,
+					},
+				};
+			}
+		}
+	}
+
+	*#validateUnusedFootnotes(options: DiagnosticOptions, links: readonly MdLink[]): Iterable<lsp.Diagnostic> {
+		const errorSeverity = toSeverity(typeof options.validateUnusedFootnotes === 'undefined' ? options.validateUnusedLinkDefinitions : options.validateUnusedFootnotes);
+		if (typeof errorSeverity === 'undefined') {
+			return;
+		}
+
+		const usedRefs = new ReferenceLinkMap<boolean>();
+		for (const link of links) {
+			if (link.kind === MdLinkKind.FootnoteReference) {
+				usedRefs.set(link.href.ref, true);
+			}
+		}
+
+		for (const link of links) {
+			if (link.kind === MdLinkKind.FootnoteDefinition && !usedRefs.lookup(link.ref.text)) {
+				yield {
+					code: DiagnosticCode.link_unusedFootnote,
+					message: l10n.t('Footnote is unused'),
+					range: link.source.range,
+					severity: errorSeverity,
+					tags: [
+						lsp.DiagnosticTag.Unnecessary,
+					],
+					data: link
+				};
+			}
+		}
+	}
+
 	async #validateFileLinks(
 		options: DiagnosticOptions,
 		links: readonly MdLink[],
-		statCache: ResourceMap<{ readonly exists: boolean }>,
+		statCache: ResourceMap<LinkedFileStat>,
 		token: lsp.CancellationToken,
 	): Promise<lsp.Diagnostic[]> {
 		const pathErrorSeverity = toSeverity(options.validateFileLinks);
@@ -355,6 +573,7 @@ export class DiagnosticComputer {
 			return [];
 		}
 		const fragmentErrorSeverity = toSeverity(typeof options.validateMarkdownFileLinkFragments === 'undefined' ? options.validateFragmentLinks : options.validateMarkdownFileLinkFragments);
+		const casingErrorSeverity = toSeverity(options.validateFileLinkCasing);
 
 		// We've already validated our own fragment links in `validateOwnHeaderLinks`
 		const linkSet = new FileLinkMap(links.filter(link => !link.source.hrefText.startsWith('#')));
@@ -363,6 +582,7 @@ export class DiagnosticComputer {
 		}
 
 		const limiter = new Limiter(10);
+		const readDirectoryCache = new ResourceMap<Promise<readonly string[] | undefined>>();
 
 		const diagnostics: lsp.Diagnostic[] = [];
 		await Promise.all(
@@ -392,7 +612,39 @@ export class DiagnosticComputer {
 								});
 							}
 						}
-					} else if (typeof fragmentErrorSeverity !== 'undefined' && this.#isMarkdownPath(resolvedHrefPath)) {
+						return;
+					}
+
+					if (typeof casingErrorSeverity !== 'undefined') {
+						// Links to directories are checked against the directory instead of its index file
+						const linkedPath = statCache.get(path)?.isDirectory ? path : resolvedHrefPath;
+						const actualPath = await this.#getPathWithActualCasing(linkedPath, readDirectoryCache);
+						if (token.isCancellationRequested) {
+							return;
+						}
+
+						if (actualPath) {
+							for (const link of links) {
+								const pathRange = lsp.Range.create(link.source.hrefRange.start, link.source.hrefFragmentRange ? translatePosition(link.source.hrefFragmentRange.start, { characterDelta: -1 }) : link.source.hrefRange.end);
+								const correctedPathText = getPathTextWithCasing(link.source.hrefPathText, actualPath);
+								if (correctedPathText && !this.#isIgnoredLink(options, link.source.hrefPathText)) {
+									diagnostics.push({
+										code: DiagnosticCode.link_pathCaseMismatch,
+										message: l10n.t('Path casing does not match the file on disk: {0}', actualPath.fsPath),
+										range: pathRange,
+										severity: casingErrorSeverity,
+										data: {
+											fsPath: actualPath.fsPath,
+											hrefText: link.source.hrefPathText,
+											correctedPathText,
+										}
+									});
+								}
+							}
+						}
+					}
+
+					if (typeof fragmentErrorSeverity !== 'undefined' && this.#isMarkdownPath(resolvedHrefPath)) {
 						// Validate each of the links to headers in the file
 						const fragmentLinks = links.filter(x => x.fragment);
 						if (fragmentLinks.length) {
@@ -428,10 +680,267 @@ export class DiagnosticComputer {
 		return diagnostics;
 	}
 
+	/**
+	 * Look up the real casing of each part of a path below the workspace folder, using {@link IWorkspace.readDirectory}.
+	 *
+	 * @returns The path with its real casing, or `undefined` if the casing already matches or could not be determined.
+	 */
+	async #getPathWithActualCasing(resource: URI, readDirectoryCache: ResourceMap<Promise<readonly string[] | undefined>>): Promise<URI | undefined> {
+		const root = getWorkspaceFolder(this.#workspace, resource);
+		const base = root && isParentDir(root, resource) ? root : Utils.dirname(resource);
+
+		const readDirectory = (dir: URI) => {
+			let entries = readDirectoryCache.get(dir);
+			if (!entries) {
+				entries = this.#workspace.readDirectory(dir).then(
+					entries => Array.from(entries, ([name]) => name),
+					() => undefined);
+				readDirectoryCache.set(dir, entries);
+			}
+			return entries;
+		};
+
+		let current = base;
+		let hasMismatch = false;
+		for (const part of resource.path.slice(base.path.length).split('/').filter(part => part.length)) {
+			const entries = await readDirectory(current);
+			if (!entries) {
+				return undefined;
+			}
+
+			if (entries.includes(part)) {
+				current = Utils.joinPath(current, part);
+				continue;
+			}
+
+			const actual = entries.find(entry => entry.toLowerCase() === part.toLowerCase());
+			if (!actual) {
+				return undefined;
+			}
+
+			hasMismatch = true;
+			current = Utils.joinPath(current, actual);
+		}
+
+		return hasMismatch ? current : undefined;
+	}
+
 	#isMarkdownPath(resolvedHrefPath: URI) {
 		return this.#workspace.hasMarkdownDocument(resolvedHrefPath) || looksLikeMarkdownUri(this.#configuration, resolvedHrefPath);
 	}
 
+	async #validateLineRangeFragments(options: DiagnosticOptions, links: readonly MdLink[], token: lsp.CancellationToken): Promise<lsp.Diagnostic[]> {
+		const severity = toSeverity(options.validateLineRangeFragments);
+		if (typeof severity === 'undefined') {
+			return [];
+		}
+
+		const limiter = new Limiter(10);
+
+		const diagnostics: lsp.Diagnostic[] = [];
+		await Promise.all(links.map(link => {
+			if (link.href.kind !== HrefKind.Internal || !link.href.fragment) {
+				return;
+			}
+
+			const range = parseLocationRangeFromFragment(link.href.fragment);
+			if (!range || this.#isIgnoredLink(options, link.source.hrefPathText) || this.#isIgnoredLink(options, link.source.hrefText)) {
+				return;
+			}
+
+			const { path, fragment } = link.href;
+			return limiter.queue(async () => {
+				if (token.isCancellationRequested) {
+					return;
+				}
+
+				const doc = await openLinkToTextFile(this.#configuration, this.#workspace, path);
+				if (!doc || token.isCancellationRequested) {
+					// Missing files are reported by `validateFileLinks`
+					return;
+				}
+
+				// Line ranges without an end column end at the start of the line after the range
+				const isPastEnd = range.start.line >= doc.lineCount
+					|| range.end.line > doc.lineCount
+					|| (range.end.line === doc.lineCount && (range.end.character !== 0 || range.end.line === range.start.line));
+				if (isPastEnd) {
+					diagnostics.push({
+						code: DiagnosticCode.link_noSuchLineInFile,
+						message: l10n.t('Line range \'{0}\' is past the end of the file, which only has {1} lines', fragment, doc.lineCount),
+						range: (link.source.hrefFragmentRange && modifyRange(link.source.hrefFragmentRange, translatePosition(link.source.hrefFragmentRange.start, { characterDelta: -1 }), undefined)) ?? link.source.hrefRange,
+						severity,
+						data: {
+							fragment,
+							hrefText: link.source.hrefText,
+							lineCount: doc.lineCount,
+						},
+					});
+				}
+			});
+		}));
+		return diagnostics;
+	}
+
+	async #validateExternalLinks(options: DiagnosticOptions, links: readonly MdLink[], token: lsp.CancellationToken): Promise<lsp.Diagnostic[]> {
+		const severity = toSeverity(options.validateExternalLinks);
+		const checker = this.#externalLinkChecker;
+		if (typeof severity === 'undefined' || !checker) {
+			return [];
+		}
+
+		const diagnostics: lsp.Diagnostic[] = [];
+		await Promise.all(links.map(async link => {
+			if (link.href.kind !== HrefKind.External
+				|| !/^https?$/i.test(link.href.uri.scheme)
+				|| this.#isIgnoredLink(options, link.source.hrefText)
+			) {
+				return;
+			}
+
+			let result;
+			try {
+				result = await checker.checkLink(link.href.uri, token);
+			} catch (e) {
+				this.#logger.log(LogLevel.Debug, 'DiagnosticComputer.validateExternalLinks failed', { uri: link.href.uri.toString(), error: e });
+				return;
+			}
+
+			if (token.isCancellationRequested) {
+				return;
+			}
+
+			if (result.kind === 'dead') {
+				diagnostics.push({
+					code: DiagnosticCode.link_deadExternalLink,
+					message: typeof result.statusCode === 'number'
+						? l10n.t('Link could not be reached ({0}): {1}', result.statusCode, link.source.hrefText)
+						: l10n.t('Link could not be reached: {0}', link.source.hrefText),
+					range: link.source.hrefRange,
+					severity,
+					data: {
+						hrefText: link.source.hrefText,
+						statusCode: result.statusCode,
+					},
+				});
+			} else if (result.kind === 'redirect') {
+				diagnostics.push({
+					code: DiagnosticCode.link_redirectedExternalLink,
+					message: l10n.t('Link redirects to: {0}', result.target.toString(true)),
+					range: link.source.hrefRange,
+					severity,
+					data: {
+						hrefText: link.source.hrefText,
+						target: result.target.toString(true),
+					},
+				});
+			}
+		}));
+
+		return diagnostics;
+	}
+
+	async #validateTableOfContents(doc: ITextDocument, options: DiagnosticOptions, token: lsp.CancellationToken): Promise<lsp.Diagnostic[]> {
+		const severity = toSeverity(options.validateTableOfContents);
+		if (typeof severity === 'undefined') {
+			return [];
+		}
+
+		const toc = await this.#tocProvider.getForDocument(doc);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const outOfDate = getOutOfDateTocBlock(doc, toc, options.tocBlockOptions ?? {});
+		if (!outOfDate) {
+			return [];
+		}
+
+		return [{
+			code: DiagnosticCode.toc_outOfDate,
+			message: l10n.t('Table of contents is out of date'),
+			range: outOfDate.range,
+			severity,
+			data: outOfDate.edit,
+		}];
+	}
+
+	async #validateHeaders(doc: ITextDocument, options: DiagnosticOptions, token: lsp.CancellationToken): Promise<lsp.Diagnostic[]> {
+		const skippedLevelSeverity = toSeverity(options.validateHeaderLevelIncrements);
+		const multipleTopLevelSeverity = toSeverity(options.validateMultipleTopLevelHeaders);
+		const duplicateSeverity = toSeverity(options.validateDuplicateHeaders);
+		const emptySeverity = toSeverity(options.validateEmptyHeaders);
+		if (typeof skippedLevelSeverity === 'undefined'
+			&& typeof multipleTopLevelSeverity === 'undefined'
+			&& typeof duplicateSeverity === 'undefined'
+			&& typeof emptySeverity === 'undefined'
+		) {
+			return [];
+		}
+
+		const toc = await this.#tocProvider.getForDocument(doc);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const diagnostics: lsp.Diagnostic[] = [];
+		let hasTopLevelHeader = false;
+		toc.entries.forEach((entry, i) => {
+			const range = entry.headerLocation.range;
+
+			const previous = toc.entries[i - 1];
+			if (typeof skippedLevelSeverity !== 'undefined' && previous && entry.level > previous.level + 1) {
+				diagnostics.push({
+					code: DiagnosticCode.header_skippedLevel,
+					message: l10n.t('Header level skipped. Expected level {0} but found level {1}', previous.level + 1, entry.level),
+					range,
+					severity: skippedLevelSeverity,
+					data: { level: previous.level + 1 },
+				});
+			}
+
+			if (entry.level === 1) {
+				if (hasTopLevelHeader && typeof multipleTopLevelSeverity !== 'undefined') {
+					diagnostics.push({
+						code: DiagnosticCode.header_multipleTopLevel,
+						message: l10n.t('Document has multiple top level headers'),
+						range,
+						severity: multipleTopLevelSeverity,
+						data: { level: 2 },
+					});
+				}
+				hasTopLevelHeader = true;
+			}
+
+			if (!entry.text) {
+				if (typeof emptySeverity !== 'undefined') {
+					diagnostics.push({
+						code: DiagnosticCode.header_empty,
+						message: l10n.t('Header is empty'),
+						range,
+						severity: emptySeverity,
+					});
+				}
+			} else if (typeof duplicateSeverity !== 'undefined') {
+				// Later headers with the same text get a unique slug, such as `#header-1`
+				const first = toc.lookupByHeading(entry.text);
+				if (first && first !== entry) {
+					diagnostics.push({
+						code: DiagnosticCode.header_duplicate,
+						message: l10n.t('Duplicate header \'{0}\'. Links to this header must use \'#{1}\'', entry.text, entry.slug.value),
+						range,
+						severity: duplicateSeverity,
+						relatedInformation: [
+							lsp.DiagnosticRelatedInformation.create(first.headerLocation, l10n.t('First header with this text')),
+						],
+					});
+				}
+			}
+		});
+
+		return diagnostics;
+	}
+
 	#isIgnoredLink(options: DiagnosticOptions, link: string): boolean {
 		return options.ignoreLinks.some(glob => picomatch.isMatch(link, glob));
 	}
@@ -493,6 +1002,11 @@ class FileLinkState extends Disposable {
 		readonly documents: ResourceMap</* document resource*/ URI>;
 
 		exists: boolean;
+
+		/**
+		 * Is the linked to resource a directory? `undefined` if this is not known, such as after the resource is created.
+		 */
+		isDirectory: boolean | undefined;
 	}>();
 
 	readonly #workspace: IWorkspaceWithWatching;
@@ -517,11 +1031,11 @@ class FileLinkState extends Disposable {
 	/**
 	 * Set the known links in a markdown document, adding and removing file watchers as needed
 	 */
-	updateLinksForDocument(document: URI, links: readonly MdLink[], statCache: ResourceMap<{ readonly exists: boolean }>) {
-		const linkedToResource = new Set<{ path: URI; exists: boolean }>(
+	updateLinksForDocument(document: URI, links: readonly MdLink[], statCache: ResourceMap<LinkedFileStat>) {
+		const linkedToResource = new Set<{ path: URI; stat: LinkedFileStat | undefined }>(
 			links
 				.filter(link => link.href.kind === HrefKind.Internal)
-				.map(link => ({ path: (link.href as InternalHref).path, exists: !!(statCache.get((link.href as InternalHref).path)?.exists) })));
+				.map(link => ({ path: (link.href as InternalHref).path, stat: statCache.get((link.href as InternalHref).path) })));
 
 		// First decrement watcher counter for previous document state
 		for (const entry of this.#linkedToFile.values()) {
@@ -529,13 +1043,14 @@ class FileLinkState extends Disposable {
 		}
 
 		// Then create/update watchers for new document state
-		for (const { path, exists } of linkedToResource) {
+		for (const { path, stat } of linkedToResource) {
 			let entry = this.#linkedToFile.get(path);
 			if (!entry) {
 				entry = {
 					watcher: this.#startWatching(path),
 					documents: new ResourceMap(),
-					exists
+					exists: !!stat?.exists,
+					isDirectory: stat?.isDirectory,
 				};
 				this.#linkedToFile.set(path, entry);
 			}
@@ -556,12 +1071,12 @@ class FileLinkState extends Disposable {
 		this.updateLinksForDocument(resource, [], new ResourceMap());
 	}
 
-	public tryStatFileLink(link: URI): { exists: boolean } | undefined {
+	public tryStatFileLink(link: URI): LinkedFileStat | undefined {
 		const entry = this.#linkedToFile.get(link);
 		if (!entry) {
 			return undefined;
 		}
-		return { exists: entry.exists };
+		return { exists: entry.exists, isDirectory: entry.isDirectory };
 	}
 
 	#startWatching(path: URI): IDisposable {
@@ -583,6 +1098,7 @@ class FileLinkState extends Disposable {
 		const entry = this.#linkedToFile.get(resource);
 		if (entry) {
 			entry.exists = exists;
+			entry.isDirectory = undefined;
 			this.#onDidChangeLinkedToFile.fire({
 				changedResource: resource,
 				linkingFiles: entry.documents.values(),
@@ -596,6 +1112,7 @@ export class DiagnosticsManager extends Disposable implements IPullDiagnosticsMa
 
 	readonly #computer: DiagnosticComputer;
 	readonly #linkWatcher: FileLinkState;
+	readonly #diagnosticsCache: MdDiagnosticsCache | undefined;
 
 	readonly #onLinkedToFileChanged = this._register(new lsp.Emitter<{
 		readonly changedResource: URI;
@@ -609,9 +1126,13 @@ export class DiagnosticsManager extends Disposable implements IPullDiagnosticsMa
 		linkProvider: MdLinkProvider,
 		tocProvider: MdTableOfContentsProvider,
 		logger: ILogger,
+		externalLinkChecker?: IExternalLinkChecker,
+		diagnosticsCache?: MdDiagnosticsCache,
 	) {
 		super();
 
+		this.#diagnosticsCache = diagnosticsCache;
+
 		const linkWatcher = new FileLinkState(workspace, logger);
 		this.#linkWatcher = this._register(linkWatcher);
 
@@ -632,20 +1153,20 @@ export class DiagnosticsManager extends Disposable implements IPullDiagnosticsMa
 				}
 
 				return async function (this: any, resource: URI): Promise<FileStat | undefined> {
+					// Only use the cached state if it is complete. Links to directories need to know that the target
+					// is a directory so that they resolve to the directory's index file
 					const stat = linkWatcher.tryStatFileLink(resource);
-					if (stat) {
-						if (stat.exists) {
-							return { isDirectory: false };
-						} else {
-							return undefined;
-						}
+					if (stat && !stat.exists) {
+						return undefined;
+					} else if (stat && typeof stat.isDirectory === 'boolean') {
+						return { isDirectory: stat.isDirectory };
 					}
 					return workspace.stat.call(this === receiver ? target : this, resource);
 				};
 			},
 		});
 
-		this.#computer = new DiagnosticComputer(configuration, stateCachedWorkspace, linkProvider, tocProvider, logger);
+		this.#computer = new DiagnosticComputer(configuration, stateCachedWorkspace, linkProvider, tocProvider, logger, externalLinkChecker, diagnosticsCache);
 
 		this._register(workspace.onDidDeleteMarkdownDocument(uri => {
 			this.#linkWatcher.deleteDocument(uri);
@@ -664,9 +1185,164 @@ export class DiagnosticsManager extends Disposable implements IPullDiagnosticsMa
 
 	public disposeDocumentResources(uri: URI): void {
 		this.#linkWatcher.deleteDocument(uri);
+		this.#diagnosticsCache?.delete(uri);
+	}
+}
+
+/**
+ * Diagnostics for a single markdown file in the workspace.
+ */
+export interface MdFileDiagnostics {
+	/**
+	 * The markdown file the diagnostics are for.
+	 */
+	readonly uri: URI;
+
+	readonly diagnostics: readonly lsp.Diagnostic[];
+}
+
+/**
+ * Progress of computing diagnostics for all markdown files in the workspace.
+ */
+export interface WorkspaceDiagnosticsProgress {
+	/**
+	 * Number of files that diagnostics have been computed for so far.
+	 */
+	readonly completed: number;
+
+	/**
+	 * Total number of files that diagnostics will be computed for.
+	 */
+	readonly total: number;
+}
+
+/**
+ * Computes diagnostics for every markdown file in the workspace.
+ */
+export class MdWorkspaceDiagnosticsComputer {
+
+	readonly #configuration: LsConfiguration;
+	readonly #workspace: IWorkspace;
+	readonly #linkProvider: MdLinkProvider;
+	readonly #tocProvider: MdTableOfContentsProvider;
+	readonly #logger: ILogger;
+	readonly #externalLinkChecker: IExternalLinkChecker | undefined;
+
+	constructor(
+		configuration: LsConfiguration,
+		workspace: IWorkspace,
+		linkProvider: MdLinkProvider,
+		tocProvider: MdTableOfContentsProvider,
+		logger: ILogger,
+		externalLinkChecker?: IExternalLinkChecker,
+	) {
+		this.#configuration = configuration;
+		this.#workspace = workspace;
+		this.#linkProvider = linkProvider;
+		this.#tocProvider = tocProvider;
+		this.#logger = logger;
+		this.#externalLinkChecker = externalLinkChecker;
+	}
+
+	/**
+	 * Compute diagnostics for all markdown files in the workspace, yielding the results for each file as soon as they are ready.
+	 *
+	 * Files matched by {@link LsConfiguration.excludePaths} are skipped.
+	 */
+	public async *compute(
+		options: DiagnosticOptions,
+		token: lsp.CancellationToken,
+		onProgress?: (progress: WorkspaceDiagnosticsProgress) => void,
+	): AsyncIterable<MdFileDiagnostics> {
+		this.#logger.log(LogLevel.Debug, 'WorkspaceDiagnosticsComputer.compute', {});
+
+		const docs = Array.from(await this.#workspace.getAllMarkdownDocuments())
+			.filter(doc => !isExcludedPath(this.#configuration, getDocUri(doc)));
+		if (token.isCancellationRequested) {
+			return;
+		}
+
+		// Share stats across all files since many files typically link to the same resources
+		const statCache = new ResourceMap<Promise<FileStat | undefined>>();
+		const workspace = this.#workspace;
+		const statCachedWorkspace = new Proxy(workspace, {
+			get(target, p, receiver) {
+				if (p !== 'stat') {
+					const value = Reflect.get(target, p, receiver);
+					return typeof value === 'function' ? value.bind(workspace) : value;
+				}
+
+				return (resource: URI): Promise<FileStat | undefined> => {
+					let stat = statCache.get(resource);
+					if (!stat) {
+						stat = workspace.stat(resource);
+						statCache.set(resource, stat);
+					}
+					return stat;
+				};
+			},
+		});
+
+		const computer = new DiagnosticComputer(this.#configuration, statCachedWorkspace, this.#linkProvider, this.#tocProvider, this.#logger, this.#externalLinkChecker);
+
+		let completed = 0;
+		onProgress?.({ completed, total: docs.length });
+		for (const doc of docs) {
+			const { diagnostics } = await computer.compute(doc, options, token);
+			if (token.isCancellationRequested) {
+				return;
+			}
+
+			onProgress?.({ completed: ++completed, total: docs.length });
+			yield { uri: getDocUri(doc), diagnostics };
+		}
 	}
 }
 
 function tocLookupByLink(toc: TableOfContents, link: { readonly source: MdLinkSource; readonly fragment: string; }) {
-	return link.source.isAngleBracketLink ? toc.lookupByHeading(link.fragment) : toc.lookupByFragment(link.fragment);
+	return (link.source.isAngleBracketLink ? toc.lookupByHeading(link.fragment) : toc.lookupByFragment(link.fragment))
+		?? toc.lookupAnchorByFragment(link.fragment);
+}
+
+/**
+ * Rewrite the parts of a link's path text to use the casing of the actual path on disk.
+ *
+ * @returns The corrected path text, or `undefined` if there is nothing to correct.
+ */
+function getPathTextWithCasing(pathText: string, actualPath: URI): string | undefined {
+	const textParts = pathText.split('/');
+	const actualParts = actualPath.path.split('/').filter(part => part.length);
+
+	// Skip the trailing slashes of links to directories
+	let lastPart = textParts.length - 1;
+	while (lastPart >= 0 && !textParts[lastPart]) {
+		--lastPart;
+	}
+
+	let hasChanges = false;
+	for (let i = lastPart, j = actualParts.length - 1; i >= 0 && j >= 0; --i, --j) {
+		const part = textParts[i];
+		if (!part || part === '.' || part === '..') {
+			break;
+		}
+
+		const decodedPart = tryDecodeUri(part);
+		let actualPart = actualParts[j];
+
+		// Handle links that leave off the file extension
+		if (i === lastPart && actualPart.toLowerCase() === decodedPart.toLowerCase() + Utils.extname(actualPath).toLowerCase()) {
+			actualPart = actualPart.slice(0, decodedPart.length);
+		}
+
+		if (actualPart.toLowerCase() !== decodedPart.toLowerCase()) {
+			break;
+		}
+
+		if (actualPart !== decodedPart) {
+			textParts[i] = part === decodedPart ? actualPart : encodeURI(actualPart);
+			hasChanges = true;
+		}
+	}
+
+	return hasChanges ? textParts.join('/') : undefined;
 }
@@ -7,7 +7,7 @@ import * as lsp from 'vscode-languageserver-protocol';
 import { URI } from 'vscode-uri';
 import { LsConfiguration } from '../config';
 import { MdTableOfContentsProvider, TableOfContents, TocEntry } from '../tableOfContents';
-import { HrefKind, InternalHref, MdLink, MdLinkKind } from '../types/documentLink';
+import { HrefKind, InternalHref, MdLink, MdLinkKind, normalizeReferenceName } from '../types/documentLink';
 import { translatePosition } from '../types/position';
 import { modifyRange, rangeContains } from '../types/range';
 import { getDocUri, ITextDocument } from '../types/textDocument';
@@ -94,6 +94,9 @@ export class MdDocumentHighlightProvider {
 			case HrefKind.External: {
 				return this.#getHighlightsForExternalLink(link.href.uri, links);
 			}
+			case HrefKind.Footnote: {
+				return this.#getHighlightsForFootnote(link.href.ref, links);
+			}
 		}
 	}
 
@@ -109,6 +112,11 @@ export class MdDocumentHighlightProvider {
 			const header = toc.lookupByFragment(fragment);
 			if (header) {
 				yield { range: header.headerLocation.range, kind: lsp.DocumentHighlightKind.Write };
+			} else {
+				const anchor = toc.lookupAnchorByFragment(fragment);
+				if (anchor) {
+					yield { range: anchor.location.range, kind: lsp.DocumentHighlightKind.Write };
+				}
 			}
 		}
 
@@ -162,4 +170,16 @@ export class MdDocumentHighlightProvider {
 			}
 		}
 	}
+
+	*#getHighlightsForFootnote(ref: string, links: readonly MdLink[]): Iterable<lsp.DocumentHighlight> {
+		const normalizedRef = normalizeReferenceName(ref);
+		for (const link of links) {
+			if (link.href.kind === HrefKind.Footnote && normalizeReferenceName(link.href.ref) === normalizedRef) {
+				yield {
+					range: link.source.hrefRange,
+					kind: link.kind === MdLinkKind.FootnoteDefinition ? lsp.DocumentHighlightKind.Write : lsp.DocumentHighlightKind.Read,
+				};
+			}
+		}
+	}
 }
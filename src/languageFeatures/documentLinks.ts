@@ -6,23 +6,26 @@
 import * as l10n from '@vscode/l10n';
 import { HTMLElement, parse } from 'node-html-parser';
 import * as lsp from 'vscode-languageserver-protocol';
-import { URI } from 'vscode-uri';
-import { LsConfiguration } from '../config';
+import { URI, Utils } from 'vscode-uri';
+import { getSlugifierForDocument, LsConfiguration } from '../config';
+import { parseFrontMatter } from '../frontMatter';
 import { ILogger, LogLevel } from '../logging';
 import { IMdParser, Token } from '../parser';
+import { ISlugifier } from '../slugify';
 import { MdTableOfContentsProvider } from '../tableOfContents';
-import { ExternalHref, HrefKind, InternalHref, LinkDefinitionSet, MdLink, MdLinkDefinition, MdLinkKind } from '../types/documentLink';
+import { ExternalHref, FootnoteDefinitionSet, HrefKind, InternalHref, LinkDefinitionSet, MdFootnoteDefinition, MdFootnoteReference, MdLink, MdLinkDefinition, MdLinkKind, MdWikiLink } from '../types/documentLink';
 import { translatePosition } from '../types/position';
-import { rangeContains } from '../types/range';
+import { isEmptyRange, rangeContains } from '../types/range';
 import { ITextDocument, getDocUri, getLine } from '../types/textDocument';
 import { coalesce } from '../util/arrays';
 import { Disposable } from '../util/dispose';
 import { htmlTagPathAttrs } from '../util/html';
-import { resolveInternalDocumentLink } from '../util/mdLinks';
-import { parseLocationInfoFromFragment } from '../util/path';
+import { resolveInternalDocumentLink, resolveSiteUrlLink } from '../util/mdLinks';
+import { parseLocationRangeFromFragment } from '../util/path';
 import { r } from '../util/string';
 import { tryDecodeUri } from '../util/uri';
-import { IWorkspace, tryAppendMarkdownFileExtension } from '../workspace';
+import { IWikiLinkResolver } from '../wikiLinks';
+import { findDirectoryIndexFile, IWorkspace, tryAppendMarkdownFileExtension } from '../workspace';
 import { MdDocumentInfoCache, MdWorkspaceInfoCache } from '../workspaceCache';
 
 
@@ -30,8 +33,19 @@ function createHref(
 	sourceDocUri: URI,
 	link: string,
 	workspace: IWorkspace,
+	config: LsConfiguration | undefined,
 ): ExternalHref | InternalHref | undefined {
 	if (/^[a-z\-][a-z\-]+:/i.test(link)) {
+		// Links to a site that is built from the workspace point to files in the workspace
+		const siteLink = config && resolveSiteUrlLink(config, link);
+		if (siteLink) {
+			return {
+				kind: HrefKind.Internal,
+				path: siteLink.resource,
+				fragment: siteLink.linkFragment,
+			};
+		}
+
 		// Looks like a uri
 		try {
 			return { kind: HrefKind.External, uri: URI.parse(tryDecodeUri(link)) };
@@ -62,13 +76,14 @@ function createMdLink(
 	fullMatch: string,
 	titleMatch: string | undefined,
 	workspace: IWorkspace,
+	config: LsConfiguration | undefined,
 ): MdLink | undefined {
 	const isAngleBracketLink = rawLink.startsWith('<');
 	const link = stripAngleBrackets(rawLink);
 
 	let linkTarget: ExternalHref | InternalHref | undefined;
 	try {
-		linkTarget = createHref(getDocUri(document), link, workspace);
+		linkTarget = createHref(getDocUri(document), link, workspace, config);
 	} catch {
 		return undefined;
 	}
@@ -116,6 +131,58 @@ function createMdLink(
 	};
 }
 
+/**
+ * Apply the GFM rules for where an extended autolink ends.
+ *
+ * @returns The text of the link, or `undefined` if the match is not a valid link.
+ */
+function trimExtendedAutoLink(link: string): string | undefined {
+	if (isEmailAutoLink(link)) {
+		// Emails may not end with `-` or `_`
+		return /[-_]$/.test(link) ? undefined : link;
+	}
+
+	for (; ;) {
+		const last = link.at(-1);
+		if (last && '?!.,:*_~'.includes(last)) {
+			link = link.slice(0, -1);
+		} else if (last === ')' && countChar(link, '(') < countChar(link, ')')) {
+			link = link.slice(0, -1);
+		} else if (last === ';' && /&[a-z0-9]+;$/i.test(link)) {
+			// Looks like an entity reference
+			link = link.replace(/&[a-z0-9]+;$/i, '');
+		} else {
+			break;
+		}
+	}
+
+	// The domain must be made up of segments separated by periods, with no underscores in the last two segments
+	const domain = link.replace(/^(?:https?:\/\/)?/i, '').split(/[\/?#:]/)[0];
+	const segments = domain.split('.');
+	if (!/^[\w\-]+(?:\.[\w\-]+)*$/.test(domain)
+		|| (/^www\./i.test(link) && segments.length < 2)
+		|| segments.slice(-2).some(segment => segment.includes('_'))
+	) {
+		return undefined;
+	}
+
+	return link;
+}
+
+function isEmailAutoLink(link: string): boolean {
+	return !/^(?:https?:\/\/|www\.)/i.test(link);
+}
+
+function countChar(text: string, char: string): number {
+	let result = 0;
+	for (const c of text) {
+		if (c === char) {
+			++result;
+		}
+	}
+	return result;
+}
+
 function getFragmentRange(text: string, start: lsp.Position, end: lsp.Position): lsp.Range | undefined {
 	const index = text.indexOf('#');
 	if (index < 0) {
@@ -187,12 +254,12 @@ const referenceLinkPattern = new RegExp(
 	/****/`)*)\]` + // end link  text
 	/****/r`\[\s*` + // Start of link def
 	/**/r`)` + // end link prefix
-	/**/r`(?<ref>(?:[^\\\]]|\\.)*?)\]` + // link def
+	/**/r`(?<ref>(?!\^)(?:[^\\\]]|\\.)*?)\]` + // link def, but not a footnote
 
 	/**/r`|` +
 
-	// [shorthand] but not [!shorthand]
-	/****/r`\[(?!\!)\s*(?<shorthand>(?:\\.|[^\[\]\n\\])+?)\s*\]` +
+	// [shorthand] but not [!shorthand] or [^footnote]
+	/****/r`\[(?![\!\^])\s*(?<shorthand>(?:\\.|[^\[\]\n\\])+?)\s*\]` +
 	r`)` +
 	r`(?![\(])`,  // Must not be followed by a paren to avoid matching normal links
 	'gm');
@@ -202,11 +269,38 @@ const referenceLinkPattern = new RegExp(
  */
 const autoLinkPattern = /(?<!\\)\<(\w+:[^\>\s]+)\>/g;
 
+/**
+ * Matches GFM extended autolinks: `https://example.com`, `www.example.com`, or `user@example.com`
+ *
+ * These may only start at the beginning of a line, after whitespace, or after one of `*`, `_`, `~`, or `(`.
+ */
+const extendedAutoLinkPattern = /(?<=^|[\s*_~(])(?:(?:https?:\/\/|www\.)[^\s<]+|[\w.+\-]+@[\w\-]+(?:\.[\w\-]+)+)/gim;
+
+/**
+ * Matches `[[Page]]`, `[[Page#Heading]]`, or `[[Page|alias]]`
+ */
+const wikiLinkPattern = /(?<!\\)(!?\[\[[ \t]*)([^\[\]\|\n]*?)[ \t]*(?:\|[^\[\]\n]*)?\]\](?!\()/g;
+
+/**
+ * Matches `[^note]`
+ */
+const footnoteReferencePattern = /(?<!\\)\[\^((?:\\\]|\\\[|[^\]\[\s])+)\](?![\(])/g;
+
+/**
+ * Matches the first line of `[^note]: text`
+ */
+const footnoteDefinitionPattern = /^([\t ]*(?<!\\)\[\^((?:\\\]|\\\[|[^\]\[\s])+)\]:[\t ]*)(.*)$/gm;
+
 /**
  * Matches `[text]: link`
  */
 const definitionPattern = /^([\t ]*(?<!\\)\[(?!\^)((?:\\\]|\\\[|[^\]\[\n])+)\]:[\t ]*)([^<]\S*|<(?:\\[<>]|[^<>])+>)/gm;
 
+/**
+ * Matches the title of a link definition: `"title"`, `'title'`, or `(title)`
+ */
+export const definitionTitlePattern = /^(?:"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\((?:\\.|[^()\\])*\))$/;
+
 class InlineRanges {
 
 	public static create() {
@@ -252,6 +346,11 @@ class NoLinkRanges {
 			.filter(t => (t.type === 'code_block' || t.type === 'fence' || t.type === 'html_block') && !!t.map)
 			.map(t => ({ type: t.type, range: t.map as [number, number] }));
 
+		const frontMatter = parseFrontMatter(document);
+		if (frontMatter) {
+			multiline.push({ type: 'front_matter', range: [0, frontMatter.range.end.line + 1] });
+		}
+
 		const inlineRanges = InlineRanges.create();
 		const text = document.getText();
 		for (const match of text.matchAll(inlineCodePattern)) {
@@ -289,7 +388,16 @@ class NoLinkRanges {
  * The place a document link links to.
  */
 export type ResolvedDocumentLinkTarget =
-	| { readonly kind: 'file'; readonly uri: URI; position?: lsp.Position; fragment?: string }
+	| {
+		readonly kind: 'file';
+		readonly uri: URI;
+		position?: lsp.Position;
+		/**
+		 * Range to select in the file, set for line range fragments such as `#L10-L20`.
+		 */
+		range?: lsp.Range;
+		fragment?: string;
+	}
 	| { readonly kind: 'folder'; readonly uri: URI }
 	| { readonly kind: 'external'; readonly uri: URI };
 
@@ -300,13 +408,23 @@ export class MdLinkComputer {
 
 	readonly #tokenizer: IMdParser;
 	readonly #workspace: IWorkspace;
+	readonly #wikiLinkResolver: IWikiLinkResolver | undefined;
+	readonly #config: LsConfiguration | undefined;
 
+	/**
+	 * @param wikiLinkResolver Resolver used for wiki links. Wiki links are only detected if this is provided.
+	 * @param config Configuration used to resolve links to {@link LsConfiguration.siteUrlMappings mapped sites}.
+	 */
 	constructor(
 		tokenizer: IMdParser,
 		workspace: IWorkspace,
+		wikiLinkResolver?: IWikiLinkResolver,
+		config?: LsConfiguration,
 	) {
 		this.#tokenizer = tokenizer;
 		this.#workspace = workspace;
+		this.#wikiLinkResolver = wikiLinkResolver;
+		this.#config = config;
 	}
 
 	public async getAllLinks(document: ITextDocument, token: lsp.CancellationToken): Promise<MdLink[]> {
@@ -318,20 +436,32 @@ export class MdLinkComputer {
 		const noLinkRanges = NoLinkRanges.compute(tokens, document);
 
 		const inlineLinks = Array.from(this.#getInlineLinks(document, noLinkRanges));
-		return [
+		const wikiLinks = await this.#getWikiLinks(document, noLinkRanges, token);
+		const links = [
 			...inlineLinks,
-			...this.#getReferenceLinks(document, noLinkRanges.concatInline(inlineLinks.map(x => x.source.range))),
+			...this.#getReferenceLinks(document, noLinkRanges.concatInline([...inlineLinks, ...wikiLinks].map(x => x.source.range))),
 			...this.#getLinkDefinitions(document, noLinkRanges),
+			...this.#getFootnoteReferences(document, noLinkRanges),
+			...this.#getFootnoteDefinitions(document, noLinkRanges),
 			...this.#getAutoLinks(document, noLinkRanges),
 			...this.#getHtmlLinks(document, noLinkRanges),
+			...wikiLinks,
 		];
+
+		if (this.#config?.enableExtendedAutoLinks) {
+			// Footnote definitions cover their entire body, which may itself contain links
+			const linkRanges = links.filter(link => link.kind !== MdLinkKind.FootnoteDefinition).map(link => link.source.range);
+			links.push(...this.#getExtendedAutoLinks(document, noLinkRanges.concatInline(linkRanges)));
+		}
+
+		return links;
 	}
 
 	*#getInlineLinks(document: ITextDocument, noLinkRanges: NoLinkRanges): Iterable<MdLink> {
 		const text = document.getText();
 		for (const match of text.matchAll(linkPattern)) {
 			const linkTextIncludingBrackets = match[1];
-			const matchLinkData = createMdLink(document, linkTextIncludingBrackets, match[2], match[3], match.index ?? 0, match[0], match.groups?.['title'], this.#workspace);
+			const matchLinkData = createMdLink(document, linkTextIncludingBrackets, match[2], match[3], match.index ?? 0, match[0], match.groups?.['title'], this.#workspace, this.#config);
 			if (matchLinkData && !noLinkRanges.contains(matchLinkData.source.hrefRange.start)) {
 				yield matchLinkData;
 
@@ -340,7 +470,7 @@ export class MdLinkComputer {
 					const linkText = linkTextIncludingBrackets.slice(1, -1);
 					const startOffset = (match.index ?? 0) + 1;
 					for (const innerMatch of linkText.matchAll(linkPattern)) {
-						const innerData = createMdLink(document, innerMatch[1], innerMatch[2], innerMatch[3], startOffset + (innerMatch.index ?? 0), innerMatch[0], innerMatch.groups?.['title'], this.#workspace);
+						const innerData = createMdLink(document, innerMatch[1], innerMatch[2], innerMatch[3], startOffset + (innerMatch.index ?? 0), innerMatch[0], innerMatch.groups?.['title'], this.#workspace, this.#config);
 						if (innerData) {
 							yield innerData;
 						}
@@ -363,8 +493,8 @@ export class MdLinkComputer {
 			}
 
 			const link = match[1];
-			const linkTarget = createHref(docUri, link, this.#workspace);
-			if (linkTarget?.kind !== HrefKind.External) {
+			const linkTarget = createHref(docUri, link, this.#workspace, this.#config);
+			if (!linkTarget) {
 				continue;
 			}
 
@@ -389,6 +519,120 @@ export class MdLinkComputer {
 		}
 	}
 
+	*#getExtendedAutoLinks(document: ITextDocument, noLinkRanges: NoLinkRanges): Iterable<MdLink> {
+		const text = document.getText();
+		const docUri = getDocUri(document);
+		for (const match of text.matchAll(extendedAutoLinkPattern)) {
+			const link = trimExtendedAutoLink(match[0]);
+			if (!link) {
+				continue;
+			}
+
+			const linkStart = document.positionAt(match.index ?? 0);
+			if (noLinkRanges.contains(linkStart)) {
+				continue;
+			}
+
+			let normalizedLink = link;
+			if (isEmailAutoLink(link)) {
+				normalizedLink = 'mailto:' + link;
+			} else if (/^www\./i.test(link)) {
+				normalizedLink = 'http://' + link;
+			}
+
+			const linkTarget = createHref(docUri, normalizedLink, this.#workspace, this.#config);
+			if (!linkTarget) {
+				continue;
+			}
+
+			const linkEnd = translatePosition(linkStart, { characterDelta: link.length });
+			const hrefRange = { start: linkStart, end: linkEnd };
+			yield {
+				kind: MdLinkKind.AutoLink,
+				href: linkTarget,
+				source: {
+					isAngleBracketLink: false,
+					hrefText: link,
+					resource: docUri,
+					targetRange: hrefRange,
+					hrefRange: hrefRange,
+					range: hrefRange,
+					...getLinkSourceFragmentInfo(document, link, linkStart, linkEnd),
+					titleRange: undefined,
+				}
+			};
+		}
+	}
+
+	/**
+	 * Get the slugifier used for the headers of the document at `uri`.
+	 */
+	#getSlugifier(uri: URI): ISlugifier {
+		return this.#config ? getSlugifierForDocument(this.#config, this.#tokenizer.slugifier, uri) : this.#tokenizer.slugifier;
+	}
+
+	async #getWikiLinks(document: ITextDocument, noLinkRanges: NoLinkRanges, token: lsp.CancellationToken): Promise<MdWikiLink[]> {
+		if (!this.#wikiLinkResolver) {
+			return [];
+		}
+
+		const text = document.getText();
+		const docUri = getDocUri(document);
+		const links: MdWikiLink[] = [];
+		for (const match of text.matchAll(wikiLinkPattern)) {
+			const linkOffset = (match.index ?? 0);
+			const linkStart = document.positionAt(linkOffset);
+			if (noLinkRanges.contains(linkStart)) {
+				continue;
+			}
+
+			const pre = match[1];
+			const link = match[2];
+			if (!link) {
+				continue;
+			}
+
+			const fragmentIndex = link.indexOf('#');
+			const pageName = fragmentIndex >= 0 ? link.slice(0, fragmentIndex) : link;
+			const headingText = fragmentIndex >= 0 ? link.slice(fragmentIndex + 1) : '';
+
+			let path: URI;
+			if (!pageName.trim()) {
+				path = docUri;
+			} else {
+				// Fall back to resolving the page relative to the current document so that we can still report it as missing
+				path = await this.#wikiLinkResolver.resolveWikiLink(pageName, docUri, token) ?? Utils.joinPath(Utils.dirname(docUri), pageName.trim());
+				if (token.isCancellationRequested) {
+					return [];
+				}
+			}
+
+			const hrefStart = document.positionAt(linkOffset + pre.length);
+			const hrefEnd = document.positionAt(linkOffset + pre.length + link.length);
+			const linkEnd = document.positionAt(linkOffset + match[0].length);
+			const range = { start: linkStart, end: linkEnd };
+			links.push({
+				kind: MdLinkKind.WikiLink,
+				href: {
+					kind: HrefKind.Internal,
+					path,
+					fragment: headingText ? this.#getSlugifier(path).fromHeading(headingText).value : '',
+				},
+				source: {
+					isAngleBracketLink: false,
+					hrefText: link,
+					resource: docUri,
+					range,
+					targetRange: range,
+					hrefRange: { start: hrefStart, end: hrefEnd },
+					...getLinkSourceFragmentInfo(document, link, hrefStart, hrefEnd),
+					titleRange: undefined,
+				}
+			});
+		}
+		return links;
+	}
+
 	#getReferenceLinks(document: ITextDocument, noLinkRanges: NoLinkRanges): Iterable<MdLink> {
 		const text = document.getText();
 		return this.#getReferenceLinksInText(document, text, 0, noLinkRanges);
@@ -502,7 +746,7 @@ export class MdLinkComputer {
 			const isAngleBracketLink = angleBracketLinkRe.test(rawLinkText);
 			const linkText = stripAngleBrackets(rawLinkText);
 
-			const target = createHref(docUri, linkText, this.#workspace);
+			const target = createHref(docUri, linkText, this.#workspace, this.#config);
 			if (!target) {
 				continue;
 			}
@@ -514,7 +758,17 @@ export class MdLinkComputer {
 			const refStart = translatePosition(linkStart, { characterDelta: 1 });
 			const refRange: lsp.Range = { start: refStart, end: translatePosition(refStart, { characterDelta: reference.length }) };
 			const line = getLine(document, linkStart.line);
-			const linkEnd = translatePosition(linkStart, { characterDelta: line.length });
+			let linkEnd = translatePosition(linkStart, { characterDelta: line.length });
+
+			// The title may be on the line after the destination
+			const afterHref = hrefEnd.character + (isAngleBracketLink ? 1 : 0);
+			if (!line.slice(afterHref).trim() && linkStart.line + 1 < document.lineCount) {
+				const nextLine = getLine(document, linkStart.line + 1);
+				if (definitionTitlePattern.test(nextLine.trim())) {
+					linkEnd = lsp.Position.create(linkStart.line + 1, nextLine.length);
+				}
+			}
+
 			yield {
 				kind: MdLinkKind.Definition,
 				source: {
@@ -533,6 +787,118 @@ export class MdLinkComputer {
 		}
 	}
 
+	*#getFootnoteReferences(document: ITextDocument, noLinkRanges: NoLinkRanges): Iterable<MdFootnoteReference> {
+		const text = document.getText();
+		const docUri = getDocUri(document);
+		for (const match of text.matchAll(footnoteReferencePattern)) {
+			const offset = (match.index ?? 0);
+			const linkStart = document.positionAt(offset);
+			if (noLinkRanges.contains(linkStart)) {
+				continue;
+			}
+
+			const label = match[1];
+			const linkEnd = translatePosition(linkStart, { characterDelta: match[0].length });
+
+			// See if this is actually a footnote definition
+			if (text[offset + match[0].length] === ':' && /^[\t ]*$/.test(getLine(document, linkStart.line).slice(0, linkStart.character))) {
+				continue;
+			}
+
+			const hrefStart = translatePosition(linkStart, { characterDelta: 2 });
+			const hrefRange = { start: hrefStart, end: translatePosition(hrefStart, { characterDelta: label.length }) };
+			const range = { start: linkStart, end: linkEnd };
+			yield {
+				kind: MdLinkKind.FootnoteReference,
+				source: {
+					isAngleBracketLink: false,
+					hrefText: label,
+					hrefPathText: label,
+					resource: docUri,
+					range,
+					targetRange: range,
+					hrefRange,
+					hrefFragmentRange: undefined,
+					titleRange: undefined,
+				},
+				href: {
+					kind: HrefKind.Footnote,
+					ref: label,
+				}
+			};
+		}
+	}
+
+	*#getFootnoteDefinitions(document: ITextDocument, noLinkRanges: NoLinkRanges): Iterable<MdFootnoteDefinition> {
+		const text = document.getText();
+		const docUri = getDocUri(document);
+		for (const match of text.matchAll(footnoteDefinitionPattern)) {
+			const offset = (match.index ?? 0);
+			const linkStart = document.positionAt(offset);
+			if (noLinkRanges.contains(linkStart)) {
+				continue;
+			}
+
+			const pre = match[1];
+			const label = match[2];
+
+			// Footnotes continue on indented lines, as well as on lazy continuation lines of the first paragraph
+			const bodyLines = [match[3]];
+			let bodyEnd = translatePosition(linkStart, { characterDelta: match[0].length });
+			let inParagraph = !!match[3].trim();
+			for (let line = linkStart.line + 1; line < document.lineCount; ++line) {
+				const lineText = getLine(document, line);
+				if (/^(?: {4}|\t)/.test(lineText) && lineText.trim()) {
+					bodyLines.push(lineText.replace(/^(?: {4}|\t)/, ''));
+				} else if (!lineText.trim()) {
+					// Blank lines are only part of the footnote if an indented line follows
+					const next = line + 1 < document.lineCount ? getLine(document, line + 1) : '';
+					if (!/^(?: {4}|\t)/.test(next) || !next.trim()) {
+						break;
+					}
+					bodyLines.push('');
+					inParagraph = false;
+					continue;
+				} else if (inParagraph && !/^[\t ]*(?:\[[^\]]+\]:|#|>|[-*+][\t ]|\d+[.)][\t ]|```|~~~)/.test(lineText)) {
+					bodyLines.push(lineText.trim());
+				} else {
+					break;
+				}
+
+				inParagraph = true;
+				bodyEnd = lsp.Position.create(line, lineText.length);
+			}
+
+			const refStart = translatePosition(linkStart, { characterDelta: pre.indexOf('^') + 1 });
+			const refRange: lsp.Range = { start: refStart, end: translatePosition(refStart, { characterDelta: label.length }) };
+			const bodyStart = translatePosition(linkStart, { characterDelta: pre.length });
+			const bodyRange: lsp.Range = { start: bodyStart, end: bodyEnd };
+			yield {
+				kind: MdLinkKind.FootnoteDefinition,
+				source: {
+					isAngleBracketLink: false,
+					hrefText: label,
+					hrefPathText: label,
+					resource: docUri,
+					range: { start: linkStart, end: bodyEnd },
+					targetRange: bodyRange,
+					hrefRange: refRange,
+					hrefFragmentRange: undefined,
+					titleRange: undefined,
+				},
+				ref: { text: label, range: refRange },
+				href: {
+					kind: HrefKind.Footnote,
+					ref: label,
+				},
+				body: {
+					range: bodyRange,
+					text: bodyLines.join('\n').trim(),
+				},
+			};
+		}
+	}
+
 	#getHtmlLinks(document: ITextDocument, noLinkRanges: NoLinkRanges): Iterable<MdLink> {
 		const text = document.getText();
 		if (!/<\w/.test(text)) { // Only parse if there may be html
@@ -566,7 +932,7 @@ export class MdLinkComputer {
 				}
 
 				const docUri = getDocUri(document);
-				const linkTarget = createHref(docUri, link, this.#workspace);
+				const linkTarget = createHref(docUri, link, this.#workspace, this.#config);
 				if (!linkTarget) {
 					continue;
 				}
@@ -606,6 +972,7 @@ export class MdLinkComputer {
 export interface MdDocumentLinksInfo {
 	readonly links: readonly MdLink[];
 	readonly definitions: LinkDefinitionSet;
+	readonly footnotes: FootnoteDefinitionSet;
 }
 
 /**
@@ -627,6 +994,7 @@ export class MdLinkProvider extends Disposable {
 		workspace: IWorkspace,
 		tocProvider: MdTableOfContentsProvider,
 		logger: ILogger,
+		wikiLinkResolver?: IWikiLinkResolver,
 	) {
 		super();
 
@@ -635,8 +1003,8 @@ export class MdLinkProvider extends Disposable {
 		this.#tocProvider = tocProvider;
 		this.#logger = logger;
 
-		this.#linkComputer = new MdLinkComputer(tokenizer, this.#workspace);
-		this.#linkCache = this._register(new MdDocumentInfoCache(this.#workspace, (doc, token) => this.getLinksWithoutCaching(doc, token)));
+		this.#linkComputer = new MdLinkComputer(tokenizer, this.#workspace, wikiLinkResolver, this.#config);
+		this.#linkCache = this._register(new MdDocumentInfoCache(this.#workspace, (doc, token) => this.getLinksWithoutCaching(doc, token), wikiLinkResolver?.onDidChangeLinks));
 	}
 
 	public getLinks(document: ITextDocument): Promise<MdDocumentLinksInfo> {
@@ -650,16 +1018,17 @@ export class MdLinkProvider extends Disposable {
 		return {
 			links,
 			definitions: new LinkDefinitionSet(links),
+			footnotes: new FootnoteDefinitionSet(links),
 		};
 	}
 
 	public async provideDocumentLinks(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.DocumentLink[]> {
-		const { links, definitions } = await this.getLinks(document);
+		const { links, definitions, footnotes } = await this.getLinks(document);
 		if (token.isCancellationRequested) {
 			return [];
 		}
 
-		return coalesce(links.map(data => this.#toValidDocumentLink(data, definitions)));
+		return coalesce(links.map(data => this.#toValidDocumentLink(data, definitions, footnotes)));
 	}
 
 	public async resolveDocumentLink(link: lsp.DocumentLink, token: lsp.CancellationToken): Promise<lsp.DocumentLink | undefined> {
@@ -677,7 +1046,9 @@ export class MdLinkProvider extends Disposable {
 				link.target = target.uri.toString(true);
 				break;
 			case 'file':
-				if (target.position) {
+				if (target.range && !isEmptyRange(target.range)) {
+					link.target = this.#createOpenAtRangeCommand(target.uri, target.range);
+				} else if (target.position) {
 					link.target = this.#createOpenAtPosCommand(target.uri, target.position);
 				} else {
 					link.target = target.uri.toString(true);
@@ -689,17 +1060,12 @@ export class MdLinkProvider extends Disposable {
 	}
 
 	public async resolveLinkTarget(linkText: string, sourceDoc: URI, token: lsp.CancellationToken): Promise<ResolvedDocumentLinkTarget | undefined> {
-		const href = createHref(sourceDoc, linkText, this.#workspace);
+		const href = createHref(sourceDoc, linkText, this.#workspace, this.#config);
 		if (href?.kind !== HrefKind.Internal) {
 			return undefined;
 		}
 
-		const resolved = resolveInternalDocumentLink(sourceDoc, linkText, this.#workspace);
-		if (!resolved) {
-			return undefined;
-		}
-
-		return this.#resolveInternalLinkTarget(resolved.resource, resolved.linkFragment, token);
+		return this.#resolveInternalLinkTarget(href.path, href.fragment, token);
 	}
 
 	async #resolveInternalLinkTarget(linkPath: URI, linkFragment: string, token: lsp.CancellationToken): Promise<ResolvedDocumentLinkTarget> {
@@ -711,7 +1077,12 @@ export class MdLinkProvider extends Disposable {
 		if (!containingContext) {
 			const stat = await this.#workspace.stat(target);
 			if (stat?.isDirectory) {
-				return { kind: 'folder', uri: target };
+				// Links to a directory open the directory's index file if it has one
+				const indexFile = await findDirectoryIndexFile(this.#config, this.#workspace, target);
+				if (!indexFile) {
+					return { kind: 'folder', uri: target };
+				}
+				target = indexFile;
 			}
 
 			if (token.isCancellationRequested) {
@@ -739,10 +1110,10 @@ export class MdLinkProvider extends Disposable {
 			return { kind: 'file', uri: target };
 		}
 
-		// Try navigating with fragment that sets line number
-		const locationLinkPosition = parseLocationInfoFromFragment(linkFragment);
-		if (locationLinkPosition) {
-			return { kind: 'file', uri: target, position: locationLinkPosition };
+		// Try navigating with fragment that sets line number or line range
+		const locationLinkRange = parseLocationRangeFromFragment(linkFragment);
+		if (locationLinkRange) {
+			return { kind: 'file', uri: target, position: locationLinkRange.start, range: locationLinkRange };
 		}
 
 		// Try navigating to header in file
@@ -757,6 +1128,11 @@ export class MdLinkProvider extends Disposable {
 			if (entry) {
 				return { kind: 'file', uri: URI.parse(entry.headerLocation.uri), position: entry.headerLocation.range.start, fragment: linkFragment };
 			}
+
+			const anchor = toc.lookupAnchorByFragment(linkFragment);
+			if (anchor) {
+				return { kind: 'file', uri: URI.parse(anchor.location.uri), position: anchor.location.range.start, fragment: linkFragment };
+			}
 		}
 
 		return { kind: 'file', uri: target };
@@ -775,7 +1151,7 @@ export class MdLinkProvider extends Disposable {
 		return { path: URI.from(mdLink.href.path), fragment: mdLink.href.fragment };
 	}
 
-	#toValidDocumentLink(link: MdLink, definitionSet: LinkDefinitionSet): lsp.DocumentLink | undefined {
+	#toValidDocumentLink(link: MdLink, definitionSet: LinkDefinitionSet, footnoteSet: FootnoteDefinitionSet): lsp.DocumentLink | undefined {
 		switch (link.href.kind) {
 			case HrefKind.External: {
 				return {
@@ -807,6 +1183,24 @@ export class MdLinkProvider extends Disposable {
 					data: link
 				};
 			}
+			case HrefKind.Footnote: {
+				if (link.kind === MdLinkKind.FootnoteDefinition) {
+					return undefined;
+				}
+
+				const def = footnoteSet.lookup(link.href.ref);
+				if (!def) {
+					return undefined;
+				}
+
+				const target = this.#createOpenAtPosCommand(link.source.resource, def.source.range.start);
+				return {
+					range: link.source.hrefRange,
+					tooltip: l10n.t('Go to footnote'),
+					target: target,
+					data: link
+				};
+			}
 		}
 	}
 
@@ -828,12 +1222,26 @@ export class MdLinkProvider extends Disposable {
 			fragment: `L${pos.line + 1},${pos.character + 1}`
 		}).toString(true);
 	}
+
+	#createOpenAtRangeCommand(resource: URI, range: lsp.Range): string {
+		if (resource.fragment) {
+			return this.#createCommandUri('vscodeMarkdownLanguageservice.open', resource, {
+				selection: range,
+			});
+		}
+
+		return resource.with({
+			fragment: `L${range.start.line + 1},${range.start.character + 1}-L${range.end.line + 1},${range.end.character + 1}`
+		}).toString(true);
+	}
 }
 
 export function createWorkspaceLinkCache(
 	parser: IMdParser,
 	workspace: IWorkspace,
+	wikiLinkResolver?: IWikiLinkResolver,
+	config?: LsConfiguration,
 ) {
-	const linkComputer = new MdLinkComputer(parser, workspace);
-	return new MdWorkspaceInfoCache(workspace, (doc, token) => linkComputer.getAllLinks(doc, token));
+	const linkComputer = new MdLinkComputer(parser, workspace, wikiLinkResolver, config);
+	return new MdWorkspaceInfoCache(workspace, (doc, token) => linkComputer.getAllLinks(doc, token), wikiLinkResolver?.onDidChangeLinks);
 }
@@ -3,7 +3,9 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as l10n from '@vscode/l10n';
 import * as lsp from 'vscode-languageserver-protocol';
+import { MdFrontMatter, parseFrontMatter } from '../frontMatter';
 import { ILogger, LogLevel } from '../logging';
 import { MdTableOfContentsProvider, TableOfContents, TocEntry } from '../tableOfContents';
 import { MdLinkDefinition, MdLinkKind } from '../types/documentLink';
@@ -61,6 +63,11 @@ export class MdDocumentSymbolProvider {
 			parent: undefined,
 			range: lsp.Range.create(0, 0, document.lineCount + 1, 0),
 		};
+		const frontMatter = parseFrontMatter(document);
+		if (frontMatter) {
+			root.children.push(this.#frontMatterToDocumentSymbol(frontMatter));
+		}
+
 		const additionalSymbols = [...linkSymbols];
 		this.#buildTocSymbolTree(root, toc.entries, additionalSymbols);
 		// Put remaining link definitions into top level document instead of last header
@@ -88,6 +95,16 @@ export class MdDocumentSymbolProvider {
 		};
 	}
 
+	#frontMatterToDocumentSymbol(frontMatter: MdFrontMatter): lsp.DocumentSymbol {
+		return {
+			kind: lsp.SymbolKind.Module,
+			name: l10n.t('Front matter'),
+			detail: frontMatter.title,
+			selectionRange: frontMatter.range,
+			range: frontMatter.range,
+		};
+	}
+
 	#buildTocSymbolTree(root: MarkdownSymbol, entries: readonly TocEntry[], additionalSymbols: lsp.DocumentSymbol[]): void {
 		let parent: MarkdownSymbol | undefined = root;
 		for (const entry of entries) {
@@ -6,15 +6,15 @@ import * as path from 'path';
 import * as lsp from 'vscode-languageserver-protocol';
 import { URI, Utils } from 'vscode-uri';
 import { LsConfiguration, isExcludedPath } from '../config';
-import { HrefKind, MdLink } from '../types/documentLink';
+import { HrefKind, MdLink, MdLinkKind } from '../types/documentLink';
 import { ITextDocument, getDocUri } from '../types/textDocument';
 import { WorkspaceEditBuilder } from '../util/editBuilder';
-import { removeNewUriExtIfNeeded, resolveInternalDocumentLink } from '../util/mdLinks';
+import { removeNewUriExtIfNeeded, resolveInternalDocumentLink, resolveSiteUrlLink } from '../util/mdLinks';
 import { isParentDir, isSameResource, looksLikeMarkdownUri } from '../util/path';
 import { IWorkspace } from '../workspace';
 import { MdWorkspaceInfoCache } from '../workspaceCache';
 import { MdReferenceKind, MdReferencesProvider } from './references';
-import { getLinkRenameEdit, getLinkRenameText } from './rename';
+import { getLinkRenameEdit, getLinkRenameText, getWikiLinkRenameEdit } from './rename';
 
 
 export interface FileRename {
@@ -102,6 +102,11 @@ export class MdFileRenameProvider {
 					continue;
 				}
 
+				// Wiki links are resolved by name so moving a directory does not change them
+				if (link.kind === MdLinkKind.WikiLink) {
+					continue;
+				}
+
 				// Update links to the moved dir
 				if (isParentDir(edit.oldUri, link.href.path)) {
 					const relative = path.posix.relative(edit.oldUri.path, link.href.path.path);
@@ -179,7 +184,7 @@ export class MdFileRenameProvider {
 	}
 
 	async #addEditsForLinksInSelf(doc: ITextDocument, link: MdLink, edit: FileRename, allEdits: readonly FileRename[], builder: WorkspaceEditBuilder): Promise<boolean> {
-		if (link.href.kind !== HrefKind.Internal) {
+		if (link.href.kind !== HrefKind.Internal || link.kind === MdLinkKind.WikiLink) {
 			return false;
 		}
 
@@ -188,7 +193,7 @@ export class MdFileRenameProvider {
 			return false;
 		}
 
-		if (link.source.hrefText.startsWith('/')) {
+		if (link.source.hrefText.startsWith('/') || resolveSiteUrlLink(this.#config, link.source.hrefText)) {
 			// We likely don't need to update anything since an absolute path is used
 			return false;
 		}
@@ -239,8 +244,17 @@ export class MdFileRenameProvider {
 			return false;
 		}
 
+		if (link.kind === MdLinkKind.WikiLink) {
+			const { range, newText } = getWikiLinkRenameEdit(this.#config, this.#workspace, link, newUri);
+			if (!link.source.hrefPathText.trim() || newText.toLowerCase() === link.source.hrefPathText.trim().toLowerCase()) {
+				return false;
+			}
+			builder.replace(doc, range, newText);
+			return true;
+		}
+
 		const newFilePath = removeNewUriExtIfNeeded(this.#config, link.href, newUri);
-		const newLinkText = getLinkRenameText(this.#workspace, link.source, newFilePath, link.source.hrefText.startsWith('.'));
+		const newLinkText = getLinkRenameText(this.#config, this.#workspace, link.source, newFilePath, link.source.hrefText.startsWith('.'));
 		if (typeof newLinkText === 'string') {
 			const { range, newText } = getLinkRenameEdit(link, newLinkText);
 			builder.replace(doc, range, newText);
@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as lsp from 'vscode-languageserver-protocol';
+import { isInFrontMatter, parseFrontMatter } from '../frontMatter';
 import { ILogger, LogLevel } from '../logging';
 import { IMdParser, Token, TokenWithMap } from '../parser';
 import { MdTableOfContentsProvider } from '../tableOfContents';
@@ -37,6 +38,7 @@ export class MdFoldingProvider {
 		this.#logger.log(LogLevel.Debug, 'MdFoldingProvider.provideFoldingRanges', { document: document.uri, version: document.version });
 
 		const foldables = await Promise.all([
+			this.#getFrontMatterFoldingRanges(document),
 			this.#getRegions(document, token),
 			this.#getHeaderFoldingRanges(document, token),
 			this.#getBlockFoldingRanges(document, token)
@@ -45,6 +47,14 @@ export class MdFoldingProvider {
 		return result.length > rangeLimit ? result.slice(0, rangeLimit) : result;
 	}
 
+	#getFrontMatterFoldingRanges(document: ITextDocument): lsp.FoldingRange[] {
+		const frontMatter = parseFrontMatter(document);
+		if (!frontMatter) {
+			return [];
+		}
+		return [{ startLine: frontMatter.range.start.line, endLine: frontMatter.range.end.line, kind: lsp.FoldingRangeKind.Region }];
+	}
+
 	async #getRegions(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.FoldingRange[]> {
 		const tokens = await this.#parser.tokenize(document);
 		if (token.isCancellationRequested) {
@@ -94,8 +104,9 @@ export class MdFoldingProvider {
 	}
 
 	*#getBlockFoldingRangesFromTokens(document: ITextDocument, tokens: readonly Token[]): Iterable<lsp.FoldingRange> {
+		const frontMatter = parseFrontMatter(document);
 		for (const token of tokens) {
-			if (isFoldableToken(token)) {
+			if (isFoldableToken(token) && !isInFrontMatter(frontMatter, token.map[0])) {
 				const startLine = token.map[0];
 				let endLine = token.map[1] - 1;
 				if (isEmptyOrWhitespace(getLine(document, endLine)) && endLine >= startLine + 1) {
@@ -0,0 +1,800 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { isInFrontMatter, parseFrontMatter } from '../frontMatter';
+import { ILogger, LogLevel } from '../logging';
+import { IMdParser, Token, TokenWithMap } from '../parser';
+import { getLine, ITextDocument } from '../types/textDocument';
+import { getDisplayWidth, isEmptyOrWhitespace } from '../util/string';
+import { formatTable, parseTable } from './tableFormatting';
+
+/**
+ * How headers should be written.
+ */
+export enum HeadingStyle {
+	/** `# Header` */
+	atx = 'atx',
+
+	/**
+	 * Underlined headers for levels 1 and 2:
+	 *
+	 * ```md
+	 * Header
+	 * ======
+	 * ```
+	 *
+	 * Headers with higher levels are always written as atx headers.
+	 */
+	setext = 'setext',
+}
+
+/**
+ * Marker used for items of bulleted lists.
+ */
+export enum BulletListMarker {
+	/** `- item` */
+	dash = 'dash',
+
+	/** `* item` */
+	asterisk = 'asterisk',
+
+	/** `+ item` */
+	plus = 'plus',
+}
+
+/**
+ * How the items of ordered lists should be numbered.
+ */
+export enum OrderedListNumbering {
+	/** Number items counting up from the number of the first item: `1.`, `2.`, `3.` */
+	sequential = 'sequential',
+
+	/** Give all items the number of the first item: `1.`, `1.`, `1.` */
+	allSame = 'allSame',
+}
+
+/**
+ * Character used to mark emphasis and strong emphasis.
+ */
+export enum EmphasisMarker {
+	/** `*emphasis*` and `**strong**` */
+	asterisk = 'asterisk',
+
+	/** `_emphasis_` and `__strong__` */
+	underscore = 'underscore',
+}
+
+/**
+ * Character used for fenced code blocks.
+ */
+export enum CodeFenceStyle {
+	/** Fences made of backticks */
+	backtick = 'backtick',
+
+	/** `~~~` */
+	tilde = 'tilde',
+}
+
+/**
+ * Target style profile for {@link MdDocumentFormattingProvider formatting a document}.
+ *
+ * Options that are not set keep the existing style of the document.
+ */
+export interface DocumentFormattingOptions {
+	readonly headingStyle?: HeadingStyle;
+
+	/**
+	 * Should atx headers end with closing hashes, e.g. `## Header ##`?
+	 */
+	readonly atxClosingHashes?: boolean;
+
+	readonly bulletListMarker?: BulletListMarker;
+
+	readonly orderedListNumbering?: OrderedListNumbering;
+
+	/**
+	 * Marker for emphasis, e.g. `*text*`.
+	 */
+	readonly emphasisMarker?: EmphasisMarker;
+
+	/**
+	 * Marker for strong emphasis, e.g. `**text**`.
+	 */
+	readonly strongMarker?: EmphasisMarker;
+
+	readonly codeFenceStyle?: CodeFenceStyle;
+
+	/**
+	 * Separate top level blocks, such as headers, paragraphs, lists, and code blocks, with a single blank line.
+	 *
+	 * This also collapses multiple blank lines into one.
+	 */
+	readonly blankLinesAroundBlocks?: boolean;
+
+	/**
+	 * Remove trailing whitespace from lines.
+	 *
+	 * Trailing spaces that create hard line breaks in paragraphs are kept.
+	 */
+	readonly trimTrailingWhitespace?: boolean;
+
+	/**
+	 * Align the columns of pipe tables.
+	 */
+	readonly alignTables?: boolean;
+}
+
+/**
+ * Matches text that starts a block other than a paragraph, such as a list item, blockquote, header, or code fence.
+ */
+const blockStartPattern = /^(?:[-*+](?:[ \t]|$)|\d{1,9}[.)](?:[ \t]|$)|>|#{1,6}(?:[ \t]|$)|`{3,}|~{3,}|<|\[[^\]]*\]:|(?:[-*_=][ \t]*)+$)/;
+
+/**
+ * Tracks the new text of each line of a document while it is being formatted.
+ */
+class FormattedLines {
+
+	readonly #document: ITextDocument;
+
+	/**
+	 * Current text of each line of the original document.
+	 */
+	public readonly lines: string[] = [];
+
+	readonly #deleted = new Set<number>();
+	readonly #blankLineBefore = new Set<number>();
+	readonly #replacements = new Map</* start line */ number, { readonly end: number; readonly lines: readonly string[] }>();
+
+	constructor(document: ITextDocument) {
+		this.#document = document;
+		for (let i = 0; i < document.lineCount; ++i) {
+			this.lines.push(getLine(document, i));
+		}
+	}
+
+	/**
+	 * Replace the lines from `start` up to, but not including, `end` with `lines`.
+	 */
+	public replaceLines(start: number, end: number, lines: readonly string[]): void {
+		this.#replacements.set(start, { end, lines });
+	}
+
+	public deleteLine(line: number): void {
+		this.#deleted.add(line);
+	}
+
+	public insertBlankLineBefore(line: number): void {
+		this.#blankLineBefore.add(line);
+	}
+
+	public getEdits(): lsp.TextEdit[] {
+		const edits: lsp.TextEdit[] = [];
+		const prefix = (line: number) => this.#blankLineBefore.has(line) ? '\n' : '';
+
+		for (let line = 0; line < this.lines.length; ++line) {
+			const replacement = this.#replacements.get(line);
+			if (replacement) {
+				const lastLine = replacement.end - 1;
+				const range = lsp.Range.create(line, 0, lastLine, getLine(this.#document, lastLine).length);
+				const newText = prefix(line) + replacement.lines.join('\n');
+				if (newText !== this.#document.getText(range)) {
+					edits.push(lsp.TextEdit.replace(range, newText));
+				}
+				line = lastLine;
+				continue;
+			}
+
+			if (this.#deleted.has(line)) {
+				// Delete consecutive lines with a single edit so that the edits never overlap
+				const start = line;
+				while (this.#deleted.has(line + 1)) {
+					++line;
+				}
+
+				if (line + 1 < this.lines.length) {
+					edits.push(lsp.TextEdit.del(lsp.Range.create(start, 0, line + 1, 0)));
+				} else {
+					// There is no next line to delete up to, so instead remove the line break before the first deleted line
+					const end = lsp.Position.create(line, getLine(this.#document, line).length);
+					edits.push(lsp.TextEdit.del(start > 0
+						? lsp.Range.create(start - 1, getLine(this.#document, start - 1).length, end.line, end.character)
+						: lsp.Range.create(0, 0, end.line, end.character)));
+				}
+				continue;
+			}
+
+			const original = getLine(this.#document, line);
+			const newText = prefix(line) + this.lines[line];
+			if (newText !== original) {
+				edits.push(lsp.TextEdit.replace(lsp.Range.create(line, 0, line, original.length), newText));
+			}
+		}
+		return edits;
+	}
+}
+
+/**
+ * A run of `*` or `_` characters that may open or close emphasis.
+ */
+interface DelimiterRun {
+	readonly char: string;
+	readonly offset: number;
+	readonly length: number;
+	readonly canOpen: boolean;
+	readonly canClose: boolean;
+}
+
+/**
+ * The characters of a delimiter run used by a single emphasis marker.
+ */
+interface EmphasisMarkerLocation {
+	readonly run: DelimiterRun;
+	readonly offset: number;
+	readonly count: number;
+	readonly targetChar: string;
+}
+
+const bulletMarkers: Record<BulletListMarker, string> = {
+	[BulletListMarker.dash]: '-',
+	[BulletListMarker.asterisk]: '*',
+	[BulletListMarker.plus]: '+',
+};
+
+const emphasisMarkers: Record<EmphasisMarker, string> = {
+	[EmphasisMarker.asterisk]: '*',
+	[EmphasisMarker.underscore]: '_',
+};
+
+const fenceMarkers: Record<CodeFenceStyle, string> = {
+	[CodeFenceStyle.backtick]: '`',
+	[CodeFenceStyle.tilde]: '~',
+};
+
+/**
+ * Formats a document to follow a consistent {@link DocumentFormattingOptions style}.
+ *
+ * Formatting is based on the tokens from the {@link IMdParser parser}. The contents of code blocks, html blocks, and
+ * front matter are never changed.
+ */
+export class MdDocumentFormattingProvider {
+
+	readonly #parser: IMdParser;
+	readonly #logger: ILogger;
+
+	constructor(
+		parser: IMdParser,
+		logger: ILogger,
+	) {
+		this.#parser = parser;
+		this.#logger = logger;
+	}
+
+	public async getFormattingEdits(document: ITextDocument, options: DocumentFormattingOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		this.#logger.log(LogLevel.Debug, 'DocumentFormattingProvider.getFormattingEdits', { document: document.uri, version: document.version });
+
+		const allTokens = await this.#parser.tokenize(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const frontMatter = parseFrontMatter(document);
+		const tokens = allTokens.filter(token => !token.map || !isInFrontMatter(frontMatter, token.map[0]));
+
+		const protectedLines = new Set<number>();
+		if (frontMatter) {
+			for (let line = frontMatter.range.start.line; line <= frontMatter.range.end.line; ++line) {
+				protectedLines.add(line);
+			}
+		}
+		for (const token of tokens) {
+			if ((token.type === 'fence' || token.type === 'code_block' || token.type === 'html_block') && token.map) {
+				for (let line = token.map[0]; line < token.map[1]; ++line) {
+					protectedLines.add(line);
+				}
+			}
+		}
+
+		const lines = new FormattedLines(document);
+
+		if (options.trimTrailingWhitespace) {
+			this.#trimTrailingWhitespace(lines, tokens, protectedLines);
+		}
+		if (options.emphasisMarker || options.strongMarker) {
+			this.#normalizeEmphasis(lines, tokens, options);
+		}
+		if (options.bulletListMarker || options.orderedListNumbering) {
+			this.#normalizeListMarkers(lines, tokens, options);
+		}
+		if (options.codeFenceStyle) {
+			this.#normalizeCodeFences(lines, tokens, fenceMarkers[options.codeFenceStyle]);
+		}
+		if (options.alignTables) {
+			this.#alignTables(document, lines, tokens);
+		}
+		if (options.headingStyle || typeof options.atxClosingHashes === 'boolean') {
+			this.#normalizeHeadings(lines, tokens, options);
+		}
+		if (options.blankLinesAroundBlocks) {
+			this.#normalizeBlankLines(lines, tokens, protectedLines);
+		}
+
+		return lines.getEdits();
+	}
+
+	#trimTrailingWhitespace(lines: FormattedLines, tokens: readonly Token[], protectedLines: ReadonlySet<number>): void {
+		// Two or more trailing spaces inside of a paragraph create a hard line break
+		const hardBreakLines = new Set<number>();
+		for (let i = 1; i < tokens.length; ++i) {
+			const token = tokens[i];
+			if (token.type === 'inline' && token.map && tokens[i - 1].type === 'paragraph_open') {
+				for (let line = token.map[0]; line < token.map[1] - 1; ++line) {
+					hardBreakLines.add(line);
+				}
+			}
+		}
+
+		for (let line = 0; line < lines.lines.length; ++line) {
+			if (protectedLines.has(line)) {
+				continue;
+			}
+
+			const text = lines.lines[line];
+			if (hardBreakLines.has(line) && / {2,}$/.test(text)) {
+				continue;
+			}
+			lines.lines[line] = text.replace(/[ \t]+$/, '');
+		}
+	}
+
+	#normalizeEmphasis(lines: FormattedLines, tokens: readonly Token[], options: DocumentFormattingOptions): void {
+		for (let i = 1; i < tokens.length; ++i) {
+			const token = tokens[i];
+			const parentType = tokens[i - 1].type;
+			if (token.type !== 'inline' || !token.map || !token.children || (parentType !== 'paragraph_open' && parentType !== 'heading_open')) {
+				continue;
+			}
+
+			const [startLine, endLine] = token.map;
+			const text = lines.lines.slice(startLine, endLine).join('\n');
+			const newText = replaceEmphasisMarkers(text, token.children, options);
+			if (newText !== undefined && newText !== text) {
+				const newLines = newText.split('\n');
+				for (let line = startLine; line < endLine; ++line) {
+					lines.lines[line] = newLines[line - startLine];
+				}
+			}
+		}
+	}
+
+	#normalizeListMarkers(lines: FormattedLines, tokens: readonly Token[], options: DocumentFormattingOptions): void {
+		const lists: Array<{ readonly ordered: boolean; readonly keepMarker: boolean; itemCount: number; start?: number }> = [];
+		const keepMarkerLists = options.bulletListMarker ? getBulletListsToKeep(tokens, bulletMarkers[options.bulletListMarker]) : new Set<Token>();
+
+		// The first line of nested list items may also hold the marker of the parent item. Only update the outer marker
+		const updatedLines = new Set<number>();
+
+		for (const token of tokens) {
+			if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+				lists.push({ ordered: token.type === 'ordered_list_open', keepMarker: keepMarkerLists.has(token), itemCount: 0 });
+				continue;
+			} else if (token.type === 'bullet_list_close' || token.type === 'ordered_list_close') {
+				lists.pop();
+				continue;
+			} else if (token.type !== 'list_item_open' || !token.map || !lists.length) {
+				continue;
+			}
+
+			const list = lists[lists.length - 1];
+			const itemIndex = list.itemCount++;
+
+			const line = token.map[0];
+			if (updatedLines.has(line)) {
+				continue;
+			}
+
+			const text = lines.lines[line];
+			if (!list.ordered) {
+				const match = text.match(/^(\s*)([-*+])(?=\s|$)/);
+				if (match && options.bulletListMarker && !list.keepMarker && match[2] === token.markup) {
+					lines.lines[line] = match[1] + bulletMarkers[options.bulletListMarker] + text.slice(match[0].length);
+					updatedLines.add(line);
+				}
+				continue;
+			}
+
+			const match = text.match(/^(\s*)(\d{1,9})(?=[.)](?:\s|$))/);
+			if (!match) {
+				continue;
+			}
+
+			list.start ??= +match[2];
+			if (!options.orderedListNumbering) {
+				continue;
+			}
+
+			const number = String(options.orderedListNumbering === OrderedListNumbering.sequential ? list.start + itemIndex : list.start);
+
+			// Changing the width of the number would also require re-indenting the content of the item
+			if (number.length !== match[2].length && lines.lines.slice(line + 1, token.map[1]).some(line => !isEmptyOrWhitespace(line))) {
+				continue;
+			}
+
+			lines.lines[line] = match[1] + number + text.slice(match[0].length);
+			updatedLines.add(line);
+		}
+	}
+
+	#normalizeCodeFences(lines: FormattedLines, tokens: readonly Token[], fenceChar: string): void {
+		for (const token of tokens) {
+			if (token.type !== 'fence' || !token.map || token.markup.startsWith(fenceChar)) {
+				continue;
+			}
+
+			const [startLine, endLine] = token.map;
+			const openMatch = lines.lines[startLine].match(/^(\s*)(`{3,}|~{3,})(.*)$/);
+			if (!openMatch || openMatch[2] !== token.markup || (fenceChar === '`' && openMatch[3].includes('`'))) {
+				continue;
+			}
+
+			const contentEnd = endLine - 1 > startLine && isClosingFence(lines.lines[endLine - 1], token.markup) ? endLine - 1 : endLine;
+
+			// The new fence must be longer than any run of the fence character that starts a line of the code
+			let fenceLength = 3;
+			for (let line = startLine + 1; line < contentEnd; ++line) {
+				const run = lines.lines[line].trimStart().match(fenceChar === '`' ? /^`+/ : /^~+/);
+				if (run) {
+					fenceLength = Math.max(fenceLength, run[0].length + 1);
+				}
+			}
+
+			const fence = fenceChar.repeat(fenceLength);
+			lines.lines[startLine] = openMatch[1] + fence + openMatch[3];
+			if (contentEnd !== endLine) {
+				const closeLine = lines.lines[endLine - 1];
+				const indent = closeLine.match(/^\s*/)![0];
+				lines.lines[endLine - 1] = indent + fence;
+			}
+		}
+	}
+
+	#alignTables(document: ITextDocument, lines: FormattedLines, tokens: readonly Token[]): void {
+		for (const token of tokens) {
+			if (token.type === 'table_open' && token.map) {
+				const table = parseTable(document, token.map[0], token.map[1]);
+				if (table) {
+					const tableLines = formatTable(table);
+					for (let i = 0; i < tableLines.length; ++i) {
+						lines.lines[table.range.start.line + i] = tableLines[i];
+					}
+				}
+			}
+		}
+	}
+
+	#normalizeHeadings(lines: FormattedLines, tokens: readonly Token[], options: DocumentFormattingOptions): void {
+		for (const token of getTopLevelBlocks(tokens)) {
+			if (token.type !== 'heading_open') {
+				continue;
+			}
+
+			const [startLine, endLine] = token.map;
+			const isSetext = token.markup === '=' || token.markup === '-';
+
+			let indent: string;
+			let content: string;
+			let level: number;
+			let hasClosingHashes = false;
+			if (isSetext) {
+				level = token.markup === '=' ? 1 : 2;
+				indent = lines.lines[startLine].match(/^\s*/)![0];
+				content = lines.lines.slice(startLine, endLine - 1).map(line => line.trim()).join(' ');
+			} else {
+				const match = lines.lines[startLine].match(/^( {0,3})(#{1,6})(?:[ \t]+(.*?))?([ \t]+#+)?[ \t]*$/);
+				if (!match) {
+					continue;
+				}
+				indent = match[1];
+				level = match[2].length;
+				content = match[3] ?? '';
+				hasClosingHashes = !!match[4];
+			}
+
+			// Setext headers can not be used if their text would instead start another block, such as a list
+			const useSetext = level <= 2 && !!content && (options.headingStyle ? options.headingStyle === HeadingStyle.setext : isSetext)
+				&& (isSetext || !blockStartPattern.test(content));
+			if (useSetext) {
+				if (!isSetext) {
+					lines.replaceLines(startLine, endLine, [
+						indent + content,
+						indent + (level === 1 ? '=' : '-').repeat(Math.max(3, getDisplayWidth(content))),
+					]);
+				}
+				continue;
+			}
+
+			const hashes = '#'.repeat(level);
+			const closingHashes = options.atxClosingHashes ?? (!isSetext && hasClosingHashes);
+			const heading = indent + hashes + (content ? ' ' + content : '') + (closingHashes && content ? ' ' + hashes : '');
+			if (isSetext || heading !== lines.lines[startLine]) {
+				lines.replaceLines(startLine, endLine, [heading]);
+			}
+		}
+	}
+
+	#normalizeBlankLines(lines: FormattedLines, tokens: readonly Token[], protectedLines: ReadonlySet<number>): void {
+		const blocks = getTopLevelBlocks(tokens);
+		for (let i = 1; i < blocks.length; ++i) {
+			const start = blocks[i].map[0];
+			if (!isEmptyOrWhitespace(lines.lines[start - 1])) {
+				lines.insertBlankLineBefore(start);
+			}
+		}
+
+		for (let line = 1; line < lines.lines.length; ++line) {
+			if (!protectedLines.has(line) && !protectedLines.has(line - 1)
+				&& isEmptyOrWhitespace(lines.lines[line]) && isEmptyOrWhitespace(lines.lines[line - 1])
+			) {
+				lines.deleteLine(line);
+			}
+		}
+	}
+}
+
+/**
+ * Get the bullet lists whose marker can not be changed to `marker`.
+ *
+ * Lists that are next to each other are only kept apart by using different markers. Changing the marker of a list to
+ * that of the list next to it would merge the two lists.
+ */
+function getBulletListsToKeep(tokens: readonly Token[], marker: string): Set<Token> {
+	// Previous block at each depth, along with the marker the block ends up with if it is a bullet list
+	const previousBlocks: Array<{ readonly token: Token; readonly marker: string } | undefined> = [];
+	const keep = new Set<Token>();
+
+	let depth = 0;
+	for (let i = 0; i < tokens.length; ++i) {
+		const token = tokens[i];
+		if (token.type.endsWith('_close')) {
+			--depth;
+			continue;
+		}
+
+		if (token.map) {
+			let newMarker = '';
+			if (token.type === 'bullet_list_open') {
+				const previous = previousBlocks[depth];
+				const next = getNextBlock(tokens, i);
+				if (token.markup !== marker && (previous?.marker === marker || (next?.type === 'bullet_list_open' && next.markup === marker))) {
+					keep.add(token);
+					newMarker = token.markup;
+				} else {
+					newMarker = marker;
+				}
+			}
+			previousBlocks[depth] = { token, marker: newMarker };
+		}
+
+		if (token.type.endsWith('_open')) {
+			++depth;
+			previousBlocks[depth] = undefined;
+		}
+	}
+	return keep;
+}
+
+/**
+ * Get the block after the block that is opened by `tokens[index]`, as long as they have the same parent.
+ */
+function getNextBlock(tokens: readonly Token[], index: number): Token | undefined {
+	let depth = 0;
+	for (let i = index; i < tokens.length; ++i) {
+		const token = tokens[i];
+		if (token.type.endsWith('_close')) {
+			if (--depth < 0) {
+				return undefined;
+			}
+		} else if (depth === 0 && i > index && token.map) {
+			return token;
+		} else if (token.type.endsWith('_open')) {
+			++depth;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Get the tokens that start blocks at the top level of the document, such as headers, paragraphs, and lists.
+ */
+function getTopLevelBlocks(tokens: readonly Token[]): TokenWithMap[] {
+	const blocks: TokenWithMap[] = [];
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.type.endsWith('_close')) {
+			--depth;
+			continue;
+		}
+
+		if (depth === 0 && token.map) {
+			blocks.push(token as TokenWithMap);
+		}
+
+		if (token.type.endsWith('_open')) {
+			++depth;
+		}
+	}
+	return blocks;
+}
+
+function isClosingFence(line: string, openingFence: string): boolean {
+	const match = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+	return !!match && match[1][0] === openingFence[0] && match[1].length >= openingFence.length;
+}
+
+/**
+ * Replace the emphasis markers in the source `text` of an inline token.
+ *
+ * Pairs of markers that can not be switched to underscores, such as `*` inside of words, are left unchanged.
+ *
+ * @returns The new text or `undefined` if the markers of the inline token could not be reliably found in the text.
+ */
+function replaceEmphasisMarkers(text: string, children: readonly Token[], options: DocumentFormattingOptions): string | undefined {
+	const runs = findDelimiterRuns(text);
+	const chars = text.split('');
+
+	const openMarkers: EmphasisMarkerLocation[] = [];
+
+	let runIndex = 0;
+	let used = 0;
+	for (const child of children) {
+		const isOpen = child.type === 'em_open' || child.type === 'strong_open';
+		const isEmphasis = child.type === 'em_open' || child.type === 'em_close';
+		if (!isOpen && !isEmphasis && child.type !== 'strong_close') {
+			continue;
+		}
+
+		const markerChar = child.markup[0];
+		const count = child.markup.length;
+
+		// Find the run in the source text that holds this marker
+		let run: DelimiterRun | undefined;
+		for (; runIndex < runs.length; ++runIndex, used = 0) {
+			const candidate = runs[runIndex];
+			if (candidate.char === markerChar && (isOpen ? candidate.canOpen : candidate.canClose) && candidate.length - used >= count) {
+				run = candidate;
+				break;
+			}
+		}
+		if (!run) {
+			return undefined;
+		}
+
+		const target = isEmphasis ? options.emphasisMarker : options.strongMarker;
+		const marker: EmphasisMarkerLocation = { run, offset: run.offset + used, count, targetChar: target ? emphasisMarkers[target] : markerChar };
+		used += count;
+
+		if (isOpen) {
+			openMarkers.push(marker);
+			continue;
+		}
+
+		const open = openMarkers.pop();
+		if (!open || open.targetChar === markerChar) {
+			continue;
+		}
+
+		// Underscores can not be used inside of words
+		if (open.targetChar === '_' && !(canUnderscoreOpen(text, open.run) && canUnderscoreClose(text, run))) {
+			continue;
+		}
+
+		for (const { offset, count } of [open, marker]) {
+			for (let i = 0; i < count; ++i) {
+				chars[offset + i] = open.targetChar;
+			}
+		}
+	}
+
+	return chars.join('');
+}
+
+/**
+ * Find the runs of `*` and `_` in the source of an inline token.
+ *
+ * Code spans, escapes, autolinks, html tags, and link destinations are skipped.
+ */
+function findDelimiterRuns(text: string): DelimiterRun[] {
+	const runs: DelimiterRun[] = [];
+	for (let i = 0; i < text.length;) {
+		const char = text[i];
+		if (char === '\\') {
+			i += 2;
+		} else if (char === '`') {
+			const length = getRunLength(text, i);
+			const close = findClosingBackticks(text, i + length, length);
+			i = close >= 0 ? close + length : i + length;
+		} else if (char === '<') {
+			const match = text.slice(i).match(/^<(?:[a-zA-Z][\w.+-]*:[^\s<>]*|\/?[a-zA-Z][^<>]*|!--[\s\S]*?--)>/);
+			i += match ? match[0].length : 1;
+		} else if (char === ']' && text[i + 1] === '(') {
+			i = skipLinkDestination(text, i + 1);
+		} else if (char === '*' || char === '_') {
+			const length = getRunLength(text, i);
+			const before = i > 0 ? text[i - 1] : ' ';
+			const after = text[i + length] ?? ' ';
+			const leftFlanking = isLeftFlanking(before, after);
+			const rightFlanking = isLeftFlanking(after, before);
+			runs.push({
+				char,
+				offset: i,
+				length,
+				canOpen: char === '*' ? leftFlanking : leftFlanking && (!rightFlanking || isPunctuation(before)),
+				canClose: char === '*' ? rightFlanking : rightFlanking && (!leftFlanking || isPunctuation(after)),
+			});
+			i += length;
+		} else {
+			++i;
+		}
+	}
+	return runs;
+}
+
+function getRunLength(text: string, start: number): number {
+	let end = start;
+	while (text[end] === text[start]) {
+		++end;
+	}
+	return end - start;
+}
+
+function findClosingBackticks(text: string, start: number, length: number): number {
+	for (let i = text.indexOf('`', start); i >= 0; i = text.indexOf('`', i)) {
+		const runLength = getRunLength(text, i);
+		if (runLength === length) {
+			return i;
+		}
+		i += runLength;
+	}
+	return -1;
+}
+
+/**
+ * @returns The offset after the closing `)` of the destination that starts at `start`.
+ */
+function skipLinkDestination(text: string, start: number): number {
+	let depth = 0;
+	for (let i = start; i < text.length; ++i) {
+		if (text[i] === '\\') {
+			++i;
+		} else if (text[i] === '(') {
+			++depth;
+		} else if (text[i] === ')' && --depth === 0) {
+			return i + 1;
+		}
+	}
+	return text.length;
+}
+
+function isWhitespace(char: string): boolean {
+	return /\s/.test(char);
+}
+
+function isPunctuation(char: string): boolean {
+	return /[\p{P}\p{S}]/u.test(char);
+}
+
+function isLeftFlanking(before: string, after: string): boolean {
+	return !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+}
+
+function canUnderscoreOpen(text: string, run: DelimiterRun): boolean {
+	const before = run.offset > 0 ? text[run.offset - 1] : ' ';
+	return !/[\p{L}\p{N}]/u.test(before);
+}
+
+function canUnderscoreClose(text: string, run: DelimiterRun): boolean {
+	const after = text[run.offset + run.length] ?? ' ';
+	return !/[\p{L}\p{N}]/u.test(after);
+}
@@ -3,20 +3,42 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as l10n from '@vscode/l10n';
 import * as lsp from 'vscode-languageserver-protocol';
-import { HrefKind, MdLink } from '../types/documentLink';
+import { LsConfiguration } from '../config';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { ExternalHref, FootnoteDefinitionSet, HrefKind, InternalHref, MdLink, MdLinkDefinition, MdLinkKind } from '../types/documentLink';
 import { rangeContains } from '../types/range';
-import { ITextDocument } from '../types/textDocument';
+import { getDocUri, getLine, ITextDocument } from '../types/textDocument';
 import * as mdBuilder from '../util/mdBuilder';
 import { getMediaPreviewType, MediaType } from '../util/media';
-import { MdLinkProvider } from './documentLinks';
+import { isSameResource } from '../util/path';
+import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
+import { getDefinitionTitleText } from './codeActions/inlineLinkDef';
+import { MdDocumentLinksInfo, MdLinkProvider } from './documentLinks';
+
+/**
+ * Maximum number of lines of a header section to show when hovering a link to the header.
+ */
+const maxSectionPreviewLines = 10;
 
 export class MdHoverProvider {
 
+	readonly #configuration: LsConfiguration;
+	readonly #workspace: IWorkspace;
 	readonly #linkProvider: MdLinkProvider;
+	readonly #tocProvider: MdTableOfContentsProvider;
 
-	constructor(linkProvider: MdLinkProvider) {
+	constructor(
+		configuration: LsConfiguration,
+		workspace: IWorkspace,
+		linkProvider: MdLinkProvider,
+		tocProvider: MdTableOfContentsProvider,
+	) {
+		this.#configuration = configuration;
+		this.#workspace = workspace;
 		this.#linkProvider = linkProvider;
+		this.#tocProvider = tocProvider;
 	}
 
 	public async provideHover(document: ITextDocument, pos: lsp.Position, token: lsp.CancellationToken): Promise<lsp.Hover | undefined> {
@@ -26,23 +48,50 @@ export class MdHoverProvider {
 		}
 
 		const link = links.links.find(link => rangeContains(link.source.hrefRange, pos));
-		if (!link || link.href.kind === HrefKind.Reference) {
-			return;
+		if (link) {
+			const contents = await this.#getLinkHoverContents(document, link, links, token);
+			if (token.isCancellationRequested) {
+				return;
+			}
+
+			if (contents) {
+				return {
+					contents,
+					range: link.source.hrefRange
+				};
+			}
 		}
 
-		const contents = this.#getHoverContents(link);
-		return contents && {
-			contents,
-			range: link.source.hrefRange
-		};
+		const definition = links.links.find(link => link.kind === MdLinkKind.Definition && rangeContains(link.source.range, pos));
+		if (definition?.kind === MdLinkKind.Definition) {
+			return {
+				contents: this.#getDefinitionUsesHoverContents(definition, links),
+				range: definition.source.range,
+			};
+		}
+
+		return undefined;
 	}
 
-	#getHoverContents(link: MdLink): lsp.MarkupContent | undefined {
-		if (link.href.kind === HrefKind.Reference) {
-			return undefined;
+	async #getLinkHoverContents(document: ITextDocument, link: MdLink, links: MdDocumentLinksInfo, token: lsp.CancellationToken): Promise<lsp.MarkupContent | undefined> {
+		switch (link.href.kind) {
+			case HrefKind.Footnote:
+				return this.#getFootnoteHoverContents(link.href.ref, links.footnotes);
+
+			case HrefKind.Reference: {
+				const definition = links.definitions.lookup(link.href.ref);
+				return definition ? this.#getReferenceHoverContents(document, definition) : undefined;
+			}
+			case HrefKind.Internal:
+				return this.#getMediaHoverContents(link.href) ?? await this.#getHeaderSectionHoverContents(document, link.href, token);
+
+			case HrefKind.External:
+				return this.#getMediaHoverContents(link.href);
 		}
+	}
 
-		const uri = link.href.kind === HrefKind.External ? link.href.uri : link.href.path;
+	#getMediaHoverContents(href: ExternalHref | InternalHref): lsp.MarkupContent | undefined {
+		const uri = href.kind === HrefKind.External ? href.uri : href.path;
 		const mediaType = getMediaPreviewType(uri);
 		const maxWidth = 300;
 		switch (mediaType) {
@@ -61,4 +110,105 @@ export class MdHoverProvider {
 		}
 		return undefined;
 	}
+
+	/**
+	 * Show the header and the first lines of the section that a link such as `[text](./other.md#header)` points to.
+	 */
+	async #getHeaderSectionHoverContents(document: ITextDocument, href: InternalHref, token: lsp.CancellationToken): Promise<lsp.MarkupContent | undefined> {
+		if (!href.fragment) {
+			return undefined;
+		}
+
+		let targetDoc: ITextDocument | undefined;
+		if (isSameResource(href.path, getDocUri(document))) {
+			targetDoc = document;
+		} else {
+			const resolved = await statLinkToMarkdownFile(this.#configuration, this.#workspace, href.path);
+			if (!resolved || token.isCancellationRequested) {
+				return undefined;
+			}
+			targetDoc = await this.#workspace.openMarkdownDocument(resolved);
+		}
+
+		if (!targetDoc || token.isCancellationRequested) {
+			return undefined;
+		}
+
+		const toc = await this.#tocProvider.getForDocument(targetDoc);
+		const entry = toc.lookupByFragment(href.fragment);
+		if (!entry) {
+			return undefined;
+		}
+
+		const lines: string[] = [];
+		const lastLine = Math.min(entry.sectionLocation.range.end.line, entry.line + maxSectionPreviewLines);
+		for (let line = entry.line; line <= lastLine && line < targetDoc.lineCount; ++line) {
+			lines.push(getLine(targetDoc, line));
+		}
+
+		while (lines.length && !lines[lines.length - 1].trim()) {
+			lines.pop();
+		}
+
+		return {
+			kind: 'markdown',
+			value: lines.join('\n'),
+		};
+	}
+
+	/**
+	 * Show the destination and title of the definition that a reference link uses.
+	 */
+	#getReferenceHoverContents(document: ITextDocument, definition: MdLinkDefinition): lsp.MarkupContent {
+		const parts = [mdBuilder.inlineCode(definition.source.hrefText)];
+
+		const title = getDefinitionTitleText(document, definition);
+		if (title) {
+			parts.push(mdBuilder.text(unescapeBackslashes(title.slice(1, -1))));
+		}
+
+		const media = this.#getMediaHoverContents(definition.href);
+		if (media) {
+			parts.push(media.value);
+		}
+
+		return {
+			kind: 'markdown',
+			value: parts.join('\n\n'),
+		};
+	}
+
+	#getDefinitionUsesHoverContents(definition: MdLinkDefinition, links: MdDocumentLinksInfo): lsp.MarkupContent {
+		const useCount = links.links.filter(link =>
+			link.kind === MdLinkKind.Link
+			&& link.href.kind === HrefKind.Reference
+			&& links.definitions.lookup(link.href.ref) === definition
+		).length;
+
+		return {
+			kind: 'markdown',
+			value: useCount === 1
+				? l10n.t('Link definition is used 1 time')
+				: l10n.t('Link definition is used {0} times', useCount),
+		};
+	}
+
+	#getFootnoteHoverContents(ref: string, footnotes: FootnoteDefinitionSet): lsp.MarkupContent | undefined {
+		const def = footnotes.lookup(ref);
+		if (!def?.body.text) {
+			return undefined;
+		}
+
+		return {
+			kind: 'markdown',
+			value: def.body.text,
+		};
+	}
+}
+
+/**
+ * Remove the backslashes from escaped punctuation, such as `\"` in a link title.
+ */
+function unescapeBackslashes(text: string): string {
+	return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
 }
@@ -0,0 +1,138 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { URI } from 'vscode-uri';
+import { LsConfiguration } from '../config';
+import { ILogger, LogLevel } from '../logging';
+import { MdTableOfContentsProvider, TableOfContents } from '../tableOfContents';
+import { HrefKind, InternalHref, LinkDefinitionSet, MdLink } from '../types/documentLink';
+import { rangeIntersects } from '../types/range';
+import { getDocUri, ITextDocument } from '../types/textDocument';
+import { isSameResource } from '../util/path';
+import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
+import { MdLinkProvider } from './documentLinks';
+
+/**
+ * Controls which inlay hints are shown.
+ */
+export interface InlayHintOptions {
+	/**
+	 * Show the text of the header that a fragment link such as `[text](#header)` or `[text](./other.md#header)` points to.
+	 *
+	 * Defaults to `true`.
+	 */
+	readonly fragmentLinks?: boolean;
+
+	/**
+	 * Show the destination of the definition that a reference link such as `[text][ref]` uses.
+	 *
+	 * Defaults to `true`.
+	 */
+	readonly referenceLinks?: boolean;
+}
+
+/**
+ * Provides inlay hints that show where fragment links and reference links point to.
+ */
+export class MdInlayHintProvider {
+
+	readonly #configuration: LsConfiguration;
+	readonly #workspace: IWorkspace;
+	readonly #linkProvider: MdLinkProvider;
+	readonly #tocProvider: MdTableOfContentsProvider;
+	readonly #logger: ILogger;
+
+	constructor(
+		configuration: LsConfiguration,
+		workspace: IWorkspace,
+		linkProvider: MdLinkProvider,
+		tocProvider: MdTableOfContentsProvider,
+		logger: ILogger,
+	) {
+		this.#configuration = configuration;
+		this.#workspace = workspace;
+		this.#linkProvider = linkProvider;
+		this.#tocProvider = tocProvider;
+		this.#logger = logger;
+	}
+
+	public async provideInlayHints(document: ITextDocument, range: lsp.Range, options: InlayHintOptions, token: lsp.CancellationToken): Promise<lsp.InlayHint[]> {
+		this.#logger.log(LogLevel.Debug, 'InlayHintProvider.provideInlayHints', { document: document.uri, version: document.version });
+
+		const showFragmentLinks = options.fragmentLinks ?? true;
+		const showReferenceLinks = options.referenceLinks ?? true;
+		if (!showFragmentLinks && !showReferenceLinks) {
+			return [];
+		}
+
+		const { links, definitions } = await this.#linkProvider.getLinks(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		// Cache the table of contents for each linked file so that it is only looked up once
+		const tocs = new Map<string, Promise<TableOfContents | undefined>>();
+
+		const hints: lsp.InlayHint[] = [];
+		for (const link of links) {
+			if (!rangeIntersects(range, link.source.range)) {
+				continue;
+			}
+
+			let label: string | undefined;
+			if (link.href.kind === HrefKind.Internal && showFragmentLinks) {
+				label = await this.#getFragmentLinkLabel(document, link.href, tocs);
+			} else if (link.href.kind === HrefKind.Reference && showReferenceLinks) {
+				label = this.#getReferenceLinkLabel(link, definitions);
+			}
+
+			if (token.isCancellationRequested) {
+				return [];
+			}
+
+			if (label) {
+				hints.push({
+					position: link.source.range.end,
+					label,
+					paddingLeft: true,
+				});
+			}
+		}
+
+		return hints;
+	}
+
+	async #getFragmentLinkLabel(document: ITextDocument, href: InternalHref, tocs: Map<string, Promise<TableOfContents | undefined>>): Promise<string | undefined> {
+		if (!href.fragment) {
+			return undefined;
+		}
+
+		const key = href.path.toString();
+		let toc = tocs.get(key);
+		if (!toc) {
+			toc = this.#getTocForLinkTarget(document, href.path);
+			tocs.set(key, toc);
+		}
+
+		return (await toc)?.lookupByFragment(href.fragment)?.text;
+	}
+
+	async #getTocForLinkTarget(document: ITextDocument, target: URI): Promise<TableOfContents | undefined> {
+		if (isSameResource(target, getDocUri(document))) {
+			return this.#tocProvider.getForDocument(document);
+		}
+
+		const resolved = await statLinkToMarkdownFile(this.#configuration, this.#workspace, target);
+		return resolved ? this.#tocProvider.get(resolved) : undefined;
+	}
+
+	#getReferenceLinkLabel(link: MdLink, definitions: LinkDefinitionSet): string | undefined {
+		if (link.href.kind !== HrefKind.Reference) {
+			return undefined;
+		}
+		return definitions.lookup(link.href.ref)?.source.hrefText;
+	}
+}
@@ -0,0 +1,296 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { URI } from 'vscode-uri';
+import { LsConfiguration } from '../config';
+import { ILogger, LogLevel } from '../logging';
+import { HrefKind, MdLink } from '../types/documentLink';
+import { Disposable } from '../util/dispose';
+import { ResourceMap } from '../util/resourceMap';
+import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
+import { MdWorkspaceInfoCache } from '../workspaceCache';
+
+/**
+ * A file in the {@link IMdLinkGraph link graph}.
+ */
+export interface MdLinkGraphNode {
+	readonly uri: URI;
+
+	/**
+	 * Is the node a markdown document in the workspace?
+	 *
+	 * Nodes for other resources, such as images or files that don't exist, only have incoming links.
+	 */
+	readonly isMarkdownDocument: boolean;
+}
+
+/**
+ * A link from one file to another in the {@link IMdLinkGraph link graph}.
+ */
+export interface MdLinkGraphEdge {
+	/**
+	 * The markdown document that contains the link.
+	 */
+	readonly source: URI;
+
+	/**
+	 * The file being linked to.
+	 */
+	readonly target: URI;
+
+	/**
+	 * The full range of the link in the source document.
+	 */
+	readonly range: lsp.Range;
+
+	/**
+	 * The range of the link's href in the source document.
+	 */
+	readonly hrefRange: lsp.Range;
+
+	/**
+	 * The fragment of the link, without the leading `#`. Empty if the link has no fragment.
+	 */
+	readonly fragment: string;
+}
+
+/**
+ * Directed graph of the links between files in the workspace.
+ *
+ * Links from a document to itself, such as `[text](#header)`, are not included.
+ */
+export interface IMdLinkGraph {
+	readonly nodes: readonly MdLinkGraphNode[];
+	readonly edges: readonly MdLinkGraphEdge[];
+
+	/**
+	 * Get all links from a markdown document to other files.
+	 */
+	getOutgoingLinks(uri: URI): readonly MdLinkGraphEdge[];
+
+	/**
+	 * Get all links to a file from other markdown documents (backlinks).
+	 */
+	getIncomingLinks(uri: URI): readonly MdLinkGraphEdge[];
+
+	/**
+	 * Get all markdown documents that are not linked to from any other document.
+	 */
+	getOrphans(): readonly URI[];
+
+	/**
+	 * Get the groups of markdown documents that can all reach each other by following links.
+	 *
+	 * Only groups with more than one document are returned.
+	 */
+	getStronglyConnectedClusters(): ReadonlyArray<readonly URI[]>;
+}
+
+class MdLinkGraph implements IMdLinkGraph {
+
+	readonly #nodes: ResourceMap<MdLinkGraphNode>;
+	readonly #outgoing = new ResourceMap<MdLinkGraphEdge[]>();
+	readonly #incoming = new ResourceMap<MdLinkGraphEdge[]>();
+
+	constructor(
+		nodes: ResourceMap<MdLinkGraphNode>,
+		public readonly edges: readonly MdLinkGraphEdge[],
+	) {
+		this.#nodes = nodes;
+
+		for (const edge of edges) {
+			getOrCreate(this.#outgoing, edge.source).push(edge);
+			getOrCreate(this.#incoming, edge.target).push(edge);
+		}
+	}
+
+	public get nodes(): readonly MdLinkGraphNode[] {
+		return Array.from(this.#nodes.values());
+	}
+
+	public getOutgoingLinks(uri: URI): readonly MdLinkGraphEdge[] {
+		return this.#outgoing.get(uri) ?? [];
+	}
+
+	public getIncomingLinks(uri: URI): readonly MdLinkGraphEdge[] {
+		return this.#incoming.get(uri) ?? [];
+	}
+
+	public getOrphans(): readonly URI[] {
+		return Array.from(this.#nodes.values())
+			.filter(node => node.isMarkdownDocument && !this.#incoming.has(node.uri))
+			.map(node => node.uri);
+	}
+
+	public getStronglyConnectedClusters(): ReadonlyArray<readonly URI[]> {
+		// Iterative version of Tarjan's algorithm
+		const index = new ResourceMap<number>();
+		const lowLink = new ResourceMap<number>();
+		const onStack = new ResourceMap<boolean>();
+		const stack: URI[] = [];
+		const clusters: URI[][] = [];
+		let nextIndex = 0;
+
+		for (const root of this.#nodes.values()) {
+			if (!root.isMarkdownDocument || index.has(root.uri)) {
+				continue;
+			}
+
+			const work: Array<{ readonly uri: URI; readonly targets: readonly URI[]; next: number }> = [];
+			const visit = (uri: URI) => {
+				index.set(uri, nextIndex);
+				lowLink.set(uri, nextIndex);
+				++nextIndex;
+				stack.push(uri);
+				onStack.set(uri, true);
+				work.push({ uri, targets: this.getOutgoingLinks(uri).map(edge => edge.target), next: 0 });
+			};
+
+			visit(root.uri);
+			while (work.length) {
+				const frame = work[work.length - 1];
+				if (frame.next < frame.targets.length) {
+					const target = frame.targets[frame.next++];
+					if (!index.has(target)) {
+						visit(target);
+					} else if (onStack.get(target)) {
+						lowLink.set(frame.uri, Math.min(lowLink.get(frame.uri)!, index.get(target)!));
+					}
+					continue;
+				}
+
+				work.pop();
+				const parent = work[work.length - 1];
+				if (parent) {
+					lowLink.set(parent.uri, Math.min(lowLink.get(parent.uri)!, lowLink.get(frame.uri)!));
+				}
+
+				if (lowLink.get(frame.uri) === index.get(frame.uri)) {
+					const cluster: URI[] = [];
+					let member: URI;
+					do {
+						member = stack.pop()!;
+						onStack.set(member, false);
+						cluster.push(member);
+					} while (member.toString() !== frame.uri.toString());
+
+					if (cluster.length > 1) {
+						clusters.push(cluster.reverse());
+					}
+				}
+			}
+		}
+
+		return clusters;
+	}
+}
+
+function getOrCreate<T>(map: ResourceMap<T[]>, uri: URI): T[] {
+	let entry = map.get(uri);
+	if (!entry) {
+		entry = [];
+		map.set(uri, entry);
+	}
+	return entry;
+}
+
+/**
+ * Builds the {@link IMdLinkGraph link graph} of the workspace.
+ *
+ * The whole graph is rebuilt the next time it is requested after any markdown document in the workspace is changed,
+ * created, or deleted. The links of unchanged documents come from the link cache.
+ */
+export class MdLinkGraphProvider extends Disposable {
+
+	#graph?: Promise<MdLinkGraph>;
+
+	readonly #configuration: LsConfiguration;
+	readonly #workspace: IWorkspace;
+	readonly #linkCache: MdWorkspaceInfoCache<readonly MdLink[]>;
+	readonly #logger: ILogger;
+
+	constructor(
+		configuration: LsConfiguration,
+		workspace: IWorkspace,
+		linkCache: MdWorkspaceInfoCache<readonly MdLink[]>,
+		logger: ILogger,
+	) {
+		super();
+
+		this.#configuration = configuration;
+		this.#workspace = workspace;
+		this.#linkCache = linkCache;
+		this.#logger = logger;
+
+		const invalidate = () => { this.#graph = undefined; };
+		this._register(workspace.onDidChangeMarkdownDocument(invalidate));
+		this._register(workspace.onDidCreateMarkdownDocument(invalidate));
+		this._register(workspace.onDidDeleteMarkdownDocument(invalidate));
+	}
+
+	public async getLinkGraph(token: lsp.CancellationToken): Promise<IMdLinkGraph> {
+		this.#graph ??= this.#computeGraph();
+		const graph = await this.#graph;
+		if (token.isCancellationRequested) {
+			return new MdLinkGraph(new ResourceMap(), []);
+		}
+		return graph;
+	}
+
+	async #computeGraph(): Promise<MdLinkGraph> {
+		this.#logger.log(LogLevel.Debug, 'LinkGraphProvider.computeGraph', {});
+
+		const entries = await this.#linkCache.entries();
+
+		const nodes = new ResourceMap<MdLinkGraphNode>();
+		for (const [uri] of entries) {
+			nodes.set(uri, { uri, isMarkdownDocument: true });
+		}
+
+		const resolvedTargets = new ResourceMap<Promise<URI>>();
+		const edges: MdLinkGraphEdge[] = [];
+		for (const [source, links] of entries) {
+			for (const link of links) {
+				if (link.href.kind !== HrefKind.Internal) {
+					continue;
+				}
+
+				let resolvedTarget = resolvedTargets.get(link.href.path);
+				if (!resolvedTarget) {
+					resolvedTarget = this.#resolveTarget(link.href.path);
+					resolvedTargets.set(link.href.path, resolvedTarget);
+				}
+
+				const target = await resolvedTarget;
+				if (target.toString() === source.toString()) {
+					continue;
+				}
+
+				if (!nodes.has(target)) {
+					nodes.set(target, { uri: target, isMarkdownDocument: false });
+				}
+
+				edges.push({
+					source,
+					target,
+					range: link.source.range,
+					hrefRange: link.source.hrefRange,
+					fragment: link.href.fragment,
+				});
+			}
+		}
+
+		return new MdLinkGraph(nodes, edges);
+	}
+
+	/**
+	 * Resolve links such as `./doc` to the markdown document `./doc.md` and links to directories to the directory's
+	 * index file.
+	 */
+	async #resolveTarget(path: URI): Promise<URI> {
+		return await statLinkToMarkdownFile(this.#configuration, this.#workspace, path) ?? path;
+	}
+}
@@ -0,0 +1,353 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { Utils } from 'vscode-uri';
+import { LsConfiguration, PreferredMdPathExtensionStyle } from '../config';
+import { ILogger, LogLevel } from '../logging';
+import { ExternalHref, HrefKind, InternalHref, MdInlineLink, MdLink, MdLinkDefinition, MdLinkKind, ReferenceHref } from '../types/documentLink';
+import { getDocUri, ITextDocument } from '../types/textDocument';
+import { WorkspaceEditBuilder } from '../util/editBuilder';
+import { escapeForAngleBracketLink, needsAngleBracketLink } from '../util/mdLinks';
+import { looksLikeMarkdownUri } from '../util/path';
+import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
+import { getDefinitionTitleText, getReferenceRange, getRemoveDefinitionRanges } from './codeActions/inlineLinkDef';
+import { createAddDefinitionEdit } from './codeActions/extractLinkDef';
+import { MdDocumentLinksInfo, MdLinkProvider } from './documentLinks';
+
+/**
+ * The kind of link to normalize links to.
+ */
+export enum LinkStyleKind {
+	/** Inline links: `[text](./path.md)` */
+	inline = 'inline',
+
+	/** Reference links with a link definition: `[text][ref]` */
+	reference = 'reference',
+}
+
+/**
+ * How relative paths in links should start.
+ */
+export enum RelativePathPrefixStyle {
+	/** Start relative paths with `./`, e.g. `./docs/file.md` */
+	dotSlash = 'dotSlash',
+
+	/** Don't start relative paths with `./`, e.g. `docs/file.md` */
+	none = 'none',
+}
+
+/**
+ * Target style profile for {@link MdLinkStyleProvider normalizing links}.
+ *
+ * Options that are not set keep the existing style of each link. Link destinations always only use angle brackets,
+ * `<path with spaces.md>`, when they are required.
+ */
+export interface LinkStyleOptions {
+	/**
+	 * Should links be written as inline links or as reference links?
+	 */
+	readonly linkKind?: LinkStyleKind;
+
+	/**
+	 * Should relative paths be prefixed with `./`?
+	 */
+	readonly relativePathPrefix?: RelativePathPrefixStyle;
+
+	/**
+	 * Should paths to markdown files include the file extension?
+	 *
+	 * {@link PreferredMdPathExtensionStyle.auto} keeps the existing style of each link.
+	 */
+	readonly markdownFileExtensions?: PreferredMdPathExtensionStyle;
+}
+
+type MdStyledLink = MdInlineLink<ExternalHref | InternalHref> | MdLinkDefinition;
+
+/**
+ * Rewrites the links in documents to follow a consistent {@link LinkStyleOptions style}.
+ */
+export class MdLinkStyleProvider {
+
+	readonly #configuration: LsConfiguration;
+	readonly #workspace: IWorkspace;
+	readonly #linkProvider: MdLinkProvider;
+	readonly #logger: ILogger;
+
+	constructor(
+		configuration: LsConfiguration,
+		workspace: IWorkspace,
+		linkProvider: MdLinkProvider,
+		logger: ILogger,
+	) {
+		this.#configuration = configuration;
+		this.#workspace = workspace;
+		this.#linkProvider = linkProvider;
+		this.#logger = logger;
+	}
+
+	public async getNormalizeLinkStyleEdits(document: ITextDocument, options: LinkStyleOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		this.#logger.log(LogLevel.Debug, 'LinkStyleProvider.getNormalizeLinkStyleEdits', { document: document.uri, version: document.version });
+
+		const linkInfo = await this.#linkProvider.getLinks(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		switch (options.linkKind) {
+			case LinkStyleKind.inline:
+				return this.#getInlineEdits(document, linkInfo, options, token);
+
+			case LinkStyleKind.reference:
+				return this.#getReferenceEdits(document, linkInfo, options, token);
+
+			case undefined:
+				return this.#getDestinationEdits(document, linkInfo.links.filter(link => isStyledLink(document, link)), options, token);
+		}
+	}
+
+	public async getNormalizeLinkStyleWorkspaceEdit(options: LinkStyleOptions, token: lsp.CancellationToken): Promise<lsp.WorkspaceEdit> {
+		this.#logger.log(LogLevel.Debug, 'LinkStyleProvider.getNormalizeLinkStyleWorkspaceEdit', {});
+
+		const builder = new WorkspaceEditBuilder();
+		for (const document of await this.#workspace.getAllMarkdownDocuments()) {
+			if (token.isCancellationRequested) {
+				break;
+			}
+
+			const resource = getDocUri(document);
+			for (const edit of await this.getNormalizeLinkStyleEdits(document, options, token)) {
+				builder.replace(resource, edit.range, edit.newText);
+			}
+		}
+		return builder.getEdit();
+	}
+
+	/**
+	 * Rewrite the destination of inline links and link definitions, without changing the kind of link.
+	 */
+	async #getDestinationEdits(document: ITextDocument, links: readonly MdStyledLink[], options: LinkStyleOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		const edits: lsp.TextEdit[] = [];
+		for (const link of links) {
+			const destination = await this.#getDestinationText(document, link, options);
+			if (token.isCancellationRequested) {
+				return [];
+			}
+
+			const range = getDestinationRange(link);
+			if (destination !== document.getText(range)) {
+				edits.push(lsp.TextEdit.replace(range, destination));
+			}
+		}
+		return edits;
+	}
+
+	/**
+	 * Convert reference links to inline links and remove the link definitions they used.
+	 */
+	async #getInlineEdits(document: ITextDocument, linkInfo: MdDocumentLinksInfo, options: LinkStyleOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		const edits: lsp.TextEdit[] = [];
+		const inlinedDefinitions = new Map<MdLinkDefinition, /* inline target */ string>();
+
+		for (const link of linkInfo.links) {
+			if (link.kind !== MdLinkKind.Link || link.href.kind !== HrefKind.Reference) {
+				continue;
+			}
+
+			const definition = linkInfo.definitions.lookup(link.href.ref);
+			if (!definition) {
+				continue;
+			}
+
+			let target = inlinedDefinitions.get(definition);
+			if (typeof target === 'undefined') {
+				const title = getDefinitionTitleText(document, definition);
+				target = `(${await this.#getDestinationText(document, definition, options)}${title ? ' ' + title : ''})`;
+				if (token.isCancellationRequested) {
+					return [];
+				}
+				inlinedDefinitions.set(definition, target);
+			}
+
+			edits.push(lsp.TextEdit.replace(getReferenceRange(document, link as MdInlineLink<ReferenceHref>), target));
+		}
+
+		for (const range of getRemoveDefinitionRanges(document, Array.from(inlinedDefinitions.keys()))) {
+			edits.push(lsp.TextEdit.del(range));
+		}
+
+		// Still normalize the remaining links
+		const remainingLinks = linkInfo.links.filter((link): link is MdStyledLink => isStyledLink(document, link) && !(link.kind === MdLinkKind.Definition && inlinedDefinitions.has(link)));
+		edits.push(...await this.#getDestinationEdits(document, remainingLinks, options, token));
+		return token.isCancellationRequested ? [] : edits;
+	}
+
+	/**
+	 * Convert inline links to reference links, reusing existing link definitions for the same destination.
+	 */
+	async #getReferenceEdits(document: ITextDocument, linkInfo: MdDocumentLinksInfo, options: LinkStyleOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		const existingDefinitions = linkInfo.links.filter(link => link.kind === MdLinkKind.Definition) as MdLinkDefinition[];
+
+		// Existing definitions keep their name but still have their destination normalized
+		const edits = await this.#getDestinationEdits(document, existingDefinitions, options, token);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const definitionNamesByText = new Map</* definition text */ string, /* name */ string>();
+		for (const definition of existingDefinitions) {
+			const title = getDefinitionTitleText(document, definition);
+			const text = await this.#getDestinationText(document, definition, options) + (title ? ' ' + title : '');
+			if (!definitionNamesByText.has(text)) {
+				definitionNamesByText.set(text, definition.ref.text);
+			}
+		}
+
+		const usedNames = new Set(existingDefinitions.map(def => def.ref.text.toLowerCase()));
+		const newDefs: Array<{ definitionText: string; placeholder: string }> = [];
+
+		for (const link of linkInfo.links) {
+			if (link.kind !== MdLinkKind.Link || !isStyledLink(document, link)) {
+				continue;
+			}
+
+			const inlineLink = link as MdInlineLink<InternalHref | ExternalHref>;
+			const destination = await this.#getDestinationText(document, inlineLink, options);
+			if (token.isCancellationRequested) {
+				return [];
+			}
+
+			const definitionText = destination + (inlineLink.source.titleRange ? ' ' + document.getText(inlineLink.source.titleRange) : '');
+			let name = definitionNamesByText.get(definitionText);
+			if (!name) {
+				name = getUniqueDefinitionName(getLinkText(document, inlineLink), usedNames);
+				usedNames.add(name.toLowerCase());
+				definitionNamesByText.set(definitionText, name);
+				newDefs.push({ definitionText, placeholder: name });
+			}
+
+			edits.push(lsp.TextEdit.replace(inlineLink.source.targetRange, `[${name}]`));
+		}
+
+		if (newDefs.length) {
+			edits.push(createAddDefinitionEdit(document, existingDefinitions, newDefs));
+		}
+		return edits;
+	}
+
+	/**
+	 * Get the normalized text of a link's destination, including any required angle brackets.
+	 */
+	async #getDestinationText(document: ITextDocument, link: MdStyledLink, options: LinkStyleOptions): Promise<string> {
+		const rawText = document.getText(link.source.hrefRange);
+		let text = link.source.isAngleBracketLink ? rawText.replace(/\\([<>])/g, '$1') : rawText;
+
+		if (link.href.kind === HrefKind.Internal) {
+			const fragmentIndex = text.indexOf('#');
+			const pathText = fragmentIndex >= 0 ? text.slice(0, fragmentIndex) : text;
+			const newPathText = await this.#normalizePathText(pathText, link.href, options);
+			text = newPathText + text.slice(pathText.length);
+		}
+
+		return needsAngleBracketLink(text) ? `<${escapeForAngleBracketLink(text)}>` : text;
+	}
+
+	async #normalizePathText(pathText: string, href: InternalHref, options: LinkStyleOptions): Promise<string> {
+		if (!pathText) {
+			// Fragment only link such as `#header`
+			return pathText;
+		}
+
+		const queryIndex = pathText.indexOf('?');
+		let path = queryIndex >= 0 ? pathText.slice(0, queryIndex) : pathText;
+		const query = queryIndex >= 0 ? pathText.slice(queryIndex) : '';
+
+		switch (options.markdownFileExtensions) {
+			case PreferredMdPathExtensionStyle.removeExtension: {
+				const ext = Utils.extname(href.path);
+				if (looksLikeMarkdownUri(this.#configuration, href.path) && path.toLowerCase().endsWith(ext.toLowerCase())) {
+					path = path.slice(0, path.length - ext.length);
+				}
+				break;
+			}
+			case PreferredMdPathExtensionStyle.includeExtension: {
+				if (!Utils.extname(href.path) && !path.endsWith('/')) {
+					const resolved = await statLinkToMarkdownFile(this.#configuration, this.#workspace, href.path);
+					if (resolved && resolved.path === href.path.path + Utils.extname(resolved)) {
+						path += Utils.extname(resolved);
+					}
+				}
+				break;
+			}
+		}
+
+		if (!path.startsWith('/')) {
+			switch (options.relativePathPrefix) {
+				case RelativePathPrefixStyle.dotSlash: {
+					if (!path.startsWith('./') && !path.startsWith('../')) {
+						path = './' + path;
+					}
+					break;
+				}
+				case RelativePathPrefixStyle.none: {
+					path = path.replace(/^(?:\.\/)+/, '');
+					break;
+				}
+			}
+		}
+
+		return path + query;
+	}
+}
+
+/**
+ * Check if the style of a link can be normalized.
+ *
+ * Html links and autolinks also use {@link MdLinkKind.Link} but are left as is, so only links written with markdown's
+ * `[text](destination)` syntax are included.
+ */
+function isStyledLink(document: ITextDocument, link: MdLink): link is MdStyledLink {
+	if (link.kind === MdLinkKind.Definition) {
+		return true;
+	}
+
+	if (link.kind !== MdLinkKind.Link || (link.href.kind !== HrefKind.Internal && link.href.kind !== HrefKind.External)) {
+		return false;
+	}
+
+	const text = document.getText(link.source.range);
+	return text.startsWith('[') || text.startsWith('![');
+}
+
+/**
+ * Get the range of a link's destination, including any angle brackets.
+ */
+function getDestinationRange(link: MdStyledLink): lsp.Range {
+	const { hrefRange, isAngleBracketLink } = link.source;
+	if (!isAngleBracketLink) {
+		return hrefRange;
+	}
+	return lsp.Range.create(hrefRange.start.line, hrefRange.start.character - 1, hrefRange.end.line, hrefRange.end.character + 1);
+}
+
+/**
+ * Get the text of a link, without the surrounding brackets.
+ */
+function getLinkText(document: ITextDocument, link: MdInlineLink): string {
+	return document.getText(lsp.Range.create(link.source.range.start, link.source.targetRange.start)).replace(/^!?\[|\]$/g, '');
+}
+
+/**
+ * Create a reference name from the text of a link, such as `my-link` for `[My link](...)`.
+ */
+function getUniqueDefinitionName(linkText: string, usedNames: ReadonlySet<string>): string {
+	const base = linkText.trim().toLowerCase().replace(/[\[\]\\]/g, '').replace(/\s+/g, '-') || 'link';
+	for (let i = 1; ; ++i) {
+		const name = i === 1 ? base : `${base}-${i}`;
+		if (!usedNames.has(name.toLowerCase())) {
+			return name;
+		}
+	}
+}
@@ -0,0 +1,263 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { isInFrontMatter, parseFrontMatter } from '../frontMatter';
+import { ILogger, LogLevel } from '../logging';
+import { IMdParser, Token } from '../parser';
+import { getLine, ITextDocument } from '../types/textDocument';
+import { isEmptyOrWhitespace } from '../util/string';
+
+/**
+ * A blockquote marker or list item marker at the start of a line.
+ */
+interface LinePrefixPart {
+	readonly kind: 'quote' | 'bullet' | 'ordered';
+
+	/**
+	 * Full text of the part, including its surrounding whitespace and any task list checkbox.
+	 */
+	readonly text: string;
+
+	/**
+	 * Whitespace before the marker.
+	 */
+	readonly indent: string;
+
+	/**
+	 * Offset of the marker in the line.
+	 */
+	readonly markerOffset: number;
+
+	/**
+	 * The bullet character or, for ordered list items, the number.
+	 */
+	readonly marker: string;
+
+	/**
+	 * The `.` or `)` after the number of ordered list items.
+	 */
+	readonly delimiter: string;
+
+	readonly isTask: boolean;
+
+	/**
+	 * Whitespace after the marker or checkbox.
+	 */
+	readonly spacing: string;
+}
+
+const quotePattern = /^ {0,3}>[ \t]?/;
+
+const listItemPattern = /^([ \t]*)(?:([-*+])|(\d{1,9})([.)]))((?:[ \t]+\[[ xX]\])?)([ \t]+|$)/;
+
+interface ListItemLocation {
+	/**
+	 * Start line of the item before this one in the same list.
+	 */
+	readonly previousLine: number | undefined;
+
+	/**
+	 * Start lines of the items after this one in the same list.
+	 */
+	readonly siblingLines: readonly number[];
+}
+
+/**
+ * Continues lists and blockquotes when a new line is started.
+ */
+export class MdOnTypeFormattingProvider {
+
+	readonly #parser: IMdParser;
+	readonly #logger: ILogger;
+
+	constructor(
+		parser: IMdParser,
+		logger: ILogger,
+	) {
+		this.#parser = parser;
+		this.#logger = logger;
+	}
+
+	/**
+	 * @param position Position after the typed character.
+	 * @param ch The typed character. Only `\n` produces edits.
+	 */
+	public async provideOnTypeFormattingEdits(document: ITextDocument, position: lsp.Position, ch: string, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		this.#logger.log(LogLevel.Debug, 'MdOnTypeFormattingProvider.provideOnTypeFormattingEdits', { document: document.uri, version: document.version });
+
+		if (ch !== '\n' || position.line === 0) {
+			return [];
+		}
+
+		// Only continue if the cursor is at the start of the new line, ignoring any indentation added by the editor
+		const line = getLine(document, position.line);
+		if (!isEmptyOrWhitespace(line.slice(0, position.character))) {
+			return [];
+		}
+
+		const prevLineNumber = position.line - 1;
+		const prevLine = getLine(document, prevLineNumber);
+		const parts = parseLinePrefix(prevLine);
+		if (!parts.length || isInFrontMatter(parseFrontMatter(document), prevLineNumber)) {
+			return [];
+		}
+
+		const tokens = await this.#parser.tokenize(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const lastPart = parts[parts.length - 1];
+		const item = lastPart.kind === 'quote' ? undefined : findListItem(tokens, prevLineNumber);
+		if (lastPart.kind === 'quote') {
+			if (!tokens.some(token => token.type === 'blockquote_open' && token.map && token.map[0] <= prevLineNumber && prevLineNumber < token.map[1])) {
+				return [];
+			}
+		} else if (!item) {
+			return [];
+		}
+
+		const prefixLength = parts.reduce((length, part) => length + part.text.length, 0);
+		if (isEmptyOrWhitespace(prevLine.slice(prefixLength)) && isEmptyOrWhitespace(line.slice(position.character))) {
+			// Pressing enter on an empty item removes its marker and keeps the cursor on that line
+			const remainingPrefix = parts.slice(0, -1).map(part => part.text).join('');
+			return [lsp.TextEdit.replace(
+				lsp.Range.create(prevLineNumber, 0, position.line, position.character),
+				isEmptyOrWhitespace(remainingPrefix) ? '' : remainingPrefix)];
+		}
+
+		// Lists where all items have the same number, such as `1.`, `1.`, `1.`, keep that numbering
+		let number: number | undefined;
+		let isSequential = true;
+		if (lastPart.kind === 'ordered') {
+			const current = +lastPart.marker;
+			const previous = item?.previousLine !== undefined ? findOrderedMarker(document, item.previousLine, lastPart.markerOffset) : undefined;
+			isSequential = !previous || +previous.marker !== current;
+			number = isSequential ? current + 1 : current;
+		}
+
+		const newPrefix = parts.map((part, i) => {
+			if (part.kind === 'quote') {
+				return part.text;
+			} else if (i < parts.length - 1) {
+				// Outer list items continue as indentation
+				return part.text.replace(/[^\t]/g, ' ');
+			}
+			return part.indent
+				+ (part.kind === 'ordered' ? `${number}${part.delimiter}` : part.marker)
+				+ (part.isTask ? ' [ ]' : '')
+				+ (part.spacing || ' ');
+		}).join('');
+
+		const edits = [lsp.TextEdit.replace(lsp.Range.create(position.line, 0, position.line, position.character), newPrefix)];
+
+		if (item && isSequential && number !== undefined) {
+			edits.push(...getRenumberEdits(document, lastPart.markerOffset, item.siblingLines, number + 1));
+		}
+		return edits;
+	}
+}
+
+/**
+ * Split the blockquote and list item markers off the start of `line`.
+ */
+function parseLinePrefix(line: string): LinePrefixPart[] {
+	const parts: LinePrefixPart[] = [];
+	let offset = 0;
+	while (offset < line.length) {
+		const rest = line.slice(offset);
+
+		const quote = rest.match(quotePattern);
+		if (quote) {
+			parts.push({ kind: 'quote', text: quote[0], indent: '', markerOffset: offset, marker: '>', delimiter: '', isTask: false, spacing: '' });
+			offset += quote[0].length;
+			continue;
+		}
+
+		const item = rest.match(listItemPattern);
+		if (!item) {
+			break;
+		}
+
+		const [text, indent, bullet, number, delimiter, task, spacing] = item;
+		parts.push({
+			kind: bullet ? 'bullet' : 'ordered',
+			text,
+			indent,
+			markerOffset: offset + indent.length,
+			marker: bullet ?? number,
+			delimiter: delimiter ?? '',
+			isTask: !!task,
+			spacing,
+		});
+		offset += text.length;
+	}
+	return parts;
+}
+
+/**
+ * Find the innermost list item that starts on `line` using the `list_item_open` tokens.
+ */
+function findListItem(tokens: readonly Token[], line: number): ListItemLocation | undefined {
+	let item: { readonly depth: number; readonly siblingLines: number[]; readonly previousLine: number | undefined } | undefined;
+	let previousItemLine: number | undefined;
+	let depth = 0;
+	const previousItemLines: Array<number | undefined> = [];
+	for (const token of tokens) {
+		if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+			previousItemLines.push(previousItemLine);
+			previousItemLine = undefined;
+			++depth;
+		} else if (token.type === 'bullet_list_close' || token.type === 'ordered_list_close') {
+			if (item && depth === item.depth) {
+				break;
+			}
+			previousItemLine = previousItemLines.pop();
+			--depth;
+		} else if (token.type === 'list_item_open' && token.map) {
+			if (token.map[0] === line) {
+				item = { depth, siblingLines: [], previousLine: previousItemLine };
+			} else if (item && depth === item.depth) {
+				item.siblingLines.push(token.map[0]);
+			}
+			previousItemLine = token.map[0];
+		}
+	}
+	return item;
+}
+
+/**
+ * Get edits that number the ordered list items starting on `lines` counting up from `start`.
+ *
+ * @param markerOffset Offset of the number of the list's items.
+ */
+function getRenumberEdits(document: ITextDocument, markerOffset: number, lines: readonly number[], start: number): lsp.TextEdit[] {
+	const edits: lsp.TextEdit[] = [];
+	let number = start;
+	for (const line of lines) {
+		const part = findOrderedMarker(document, line, markerOffset);
+		if (!part) {
+			break;
+		}
+
+		if (+part.marker !== number) {
+			edits.push(lsp.TextEdit.replace(lsp.Range.create(line, part.markerOffset, line, part.markerOffset + part.marker.length), String(number)));
+		}
+		++number;
+	}
+	return edits;
+}
+
+/**
+ * Find the ordered list marker on `line` that is closest to `markerOffset`.
+ *
+ * The first line of a list item may also hold the markers of nested lists.
+ */
+function findOrderedMarker(document: ITextDocument, line: number, markerOffset: number): LinePrefixPart | undefined {
+	return parseLinePrefix(getLine(document, line))
+		.filter(part => part.kind === 'ordered')
+		.sort((a, b) => Math.abs(a.markerOffset - markerOffset) - Math.abs(b.markerOffset - markerOffset))[0];
+}
@@ -8,6 +8,7 @@ import { HrefKind, MdLinkDefinition, MdLinkKind } from '../types/documentLink';
 import { getLine, ITextDocument } from '../types/textDocument';
 import { maxLspUInt } from '../util/number';
 import { isEmptyOrWhitespace } from '../util/string';
+import { getDefinitionTitleText } from './codeActions/inlineLinkDef';
 import { MdLinkProvider } from './documentLinks';
 
 export class MdOrganizeLinkDefinitionProvider {
@@ -58,7 +59,11 @@ export class MdOrganizeLinkDefinitionProvider {
 			});
 
 		const defBlock = newDefs
-			.map((def => `[${def.ref.text}]: ${def.source.hrefText}`))
+			.map(def => {
+				// Titles are moved onto the same line as the destination
+				const title = getDefinitionTitleText(doc, def);
+				return `[${def.ref.text}]: ${def.source.hrefText}` + (title ? ' ' + title : '');
+			})
 			.join('\n');
 
 		if (existingDefBlockRange) {
@@ -96,14 +101,14 @@ export class MdOrganizeLinkDefinitionProvider {
 		let endDef = startDef;
 		for (; i < definitions.length - 1; ++i) {
 			const nextDef = definitions[i + 1];
-			if (nextDef.source.range.start.line === endDef.source.range.start.line + 1) {
+			if (nextDef.source.range.start.line === endDef.source.range.end.line + 1) {
 				endDef = nextDef;
 			} else {
 				break;
 			}
 		}
 
-		yield { startLine: startDef.source.range.start.line, endLine: endDef.source.range.start.line };
+		yield { startLine: startDef.source.range.start.line, endLine: endDef.source.range.end.line };
 		yield* this.#getDefinitionBlockGroups(doc, definitions.slice(i + 1));
 	}
 
@@ -113,11 +118,11 @@ export class MdOrganizeLinkDefinitionProvider {
 		const lines = textAfter.split(/\r\n|\n/g);
 		for (let i = lines.length - 1; i >= 0; --i) {
 			if (!isEmptyOrWhitespace(lines[i])) {
-				return lastDef.source.range.start.line + 1 + i;
+				return lastDef.source.range.end.line + 1 + i;
 			}
 		}
 
-		return lastDef.source.range.start.line;
+		return lastDef.source.range.end.line;
 	}
 }
 
@@ -133,14 +138,14 @@ export function getExistingDefinitionBlock(doc: ITextDocument, orderedDefinition
 		let prevDef = lastDef;
 		for (let i = orderedDefinitions.length - 1; i >= 0; --i) {
 			const def = orderedDefinitions[i];
-			if (def.source.range.start.line < prevDef.source.range.start.line - 1) {
+			if (def.source.range.end.line < prevDef.source.range.start.line - 1) {
 				break;
 			}
 			prevDef = def;
 		}
 		return {
 			startLine: prevDef.source.range.start.line,
-			endLine: lastDef.source.range.start.line
+			endLine: lastDef.source.range.end.line
 		};
 	}
 
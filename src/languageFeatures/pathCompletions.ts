@@ -8,20 +8,22 @@ import { dirname, extname, resolve } from 'path';
 import type { CancellationToken, CompletionContext } from 'vscode-languageserver-protocol';
 import * as lsp from 'vscode-languageserver-protocol';
 import { URI, Utils } from 'vscode-uri';
-import { LsConfiguration, isExcludedPath } from '../config';
+import { LsConfiguration, getSlugifierForDocument, isExcludedPath } from '../config';
+import { parseFrontMatter } from '../frontMatter';
 import { IMdParser } from '../parser';
-import { MdTableOfContentsProvider, TableOfContents, TocEntry } from '../tableOfContents';
+import { MdTableOfContentsProvider, TableOfContents, TocAnchor, TocEntry } from '../tableOfContents';
 import { translatePosition } from '../types/position';
 import { ITextDocument, getDocUri, getLine } from '../types/textDocument';
 import { htmlTagPathAttrs } from '../util/html';
+import { Limiter } from '../util/limiter';
 import * as mdBuilder from '../util/mdBuilder';
 import { escapeForAngleBracketLink, hasBalancedParens } from '../util/mdLinks';
 import { MediaType, getMediaPreviewType } from '../util/media';
 import { computeRelativePath, isSameResource, looksLikeMarkdownFilePath } from '../util/path';
 import { Schemes } from '../util/schemes';
 import { r } from '../util/string';
-import { FileStat, IWorkspace, getWorkspaceFolder, openLinkToMarkdownFile } from '../workspace';
-import { MdWorkspaceInfoCache } from '../workspaceCache';
+import { FileStat, IWorkspace, getWorkspaceFolder, openLinkToMarkdownFile, openLinkToTextFile } from '../workspace';
+import { MdDocumentInfoCache, MdWorkspaceInfoCache } from '../workspaceCache';
 import { MdLinkProvider } from './documentLinks';
 
 enum CompletionContextKind {
@@ -139,6 +141,11 @@ const sortTexts = Object.freeze({
 	workspaceHeader: '2',
 });
 
+/**
+ * Maximum number of line number completions to return, so that large files do not produce huge completion lists.
+ */
+const maxLineSuggestions = 100;
+
 /**
  * Adds path completions in markdown files.
  */
@@ -150,6 +157,7 @@ export class MdPathCompletionProvider {
 	readonly #linkProvider: MdLinkProvider;
 
 	readonly #workspaceTocCache: MdWorkspaceInfoCache<TableOfContents>;
+	readonly #titleCache: MdDocumentInfoCache<string | undefined>;
 
 	constructor(
 		configuration: LsConfiguration,
@@ -164,6 +172,7 @@ export class MdPathCompletionProvider {
 		this.#linkProvider = linkProvider;
 
 		this.#workspaceTocCache = new MdWorkspaceInfoCache(workspace, (doc) => tocProvider.getForDocument(doc));
+		this.#titleCache = new MdDocumentInfoCache(workspace, async (doc) => parseFrontMatter(doc)?.title);
 	}
 
 	public async provideCompletionItems(document: ITextDocument, position: lsp.Position, context: CompletionContext & PathCompletionOptions, token: CancellationToken): Promise<lsp.CompletionItem[]> {
@@ -218,10 +227,17 @@ export class MdPathCompletionProvider {
 								return;
 							}
 
+							const anchorStartPosition = translatePosition(position, { characterDelta: -(context.anchorInfo.anchorPrefix.length + 1) });
+							const range = lsp.Range.create(anchorStartPosition, position);
 							if (otherDoc) {
-								const anchorStartPosition = translatePosition(position, { characterDelta: -(context.anchorInfo.anchorPrefix.length + 1) });
-								const range = lsp.Range.create(anchorStartPosition, position);
 								yield* this.#provideHeaderSuggestions(otherDoc, position, context, range, token);
+							} else {
+								// Other files, such as code files, only support line fragments
+								const textDoc = await openLinkToTextFile(this.#configuration, this.#workspace, rawUri);
+								if (textDoc && !token.isCancellationRequested) {
+									const replacementRange = lsp.Range.create(range.start, translatePosition(position, { characterDelta: context.linkSuffix.length }));
+									yield* this.#provideLineSuggestions(textDoc, context, range, replacementRange);
+								}
 							}
 						}
 					} else { // Normal path suggestions
@@ -386,7 +402,8 @@ export class MdPathCompletionProvider {
 	}
 
 	async *#provideHeaderSuggestions(document: ITextDocument, position: lsp.Position, context: PathCompletionContext, insertionRange: lsp.Range, token: CancellationToken): AsyncIterable<lsp.CompletionItem> {
-		const toc = await TableOfContents.createForContainingDoc(this.#parser, this.#workspace, document, token);
+		const slugifier = getSlugifierForDocument(this.#configuration, this.#parser.slugifier, getDocUri(document));
+		const toc = await TableOfContents.createForContainingDoc(this.#parser, this.#workspace, document, token, slugifier);
 		if (token.isCancellationRequested) {
 			return;
 		}
@@ -399,11 +416,61 @@ export class MdPathCompletionProvider {
 			};
 			yield completionItem;
 		}
+
+		for (const anchor of toc.anchors) {
+			yield this.#createAnchorCompletion(anchor, insertionRange, replacementRange);
+		}
+
+		yield* this.#provideLineSuggestions(document, context, insertionRange, replacementRange);
+	}
+
+	/**
+	 * Suggestions for line number fragments, such as `#L10`, and line range fragments, such as `#L10-L20`.
+	 *
+	 * These are only provided once the user has started typing `#L`. Only lines that start with the typed line number
+	 * are suggested, up to {@link maxLineSuggestions}.
+	 */
+	*#provideLineSuggestions(document: ITextDocument, context: PathCompletionContext, insertionRange: lsp.Range, replacementRange: lsp.Range): Iterable<lsp.CompletionItem> {
+		const match = context.anchorInfo?.anchorPrefix.match(/^L(\d*)(-L?\d*)?$/i);
+		if (!match) {
+			return;
+		}
+
+		const isRangeEnd = !!match[1] && typeof match[2] === 'string';
+		const rangeStart = isRangeEnd ? +match[1] : 0;
+		if (isRangeEnd && rangeStart > document.lineCount) {
+			return;
+		}
+
+		const typedLine = isRangeEnd ? match[2].replace(/^-L?/i, '') : match[1];
+
+		const sortTextLength = String(document.lineCount).length;
+		let count = 0;
+		for (let line = rangeStart + 1; line <= document.lineCount && count < maxLineSuggestions; ++line) {
+			if (!String(line).startsWith(typedLine)) {
+				continue;
+			}
+
+			++count;
+			const fragment = isRangeEnd ? `L${rangeStart}-L${line}` : `L${line}`;
+			yield {
+				kind: lsp.CompletionItemKind.Reference,
+				label: '#' + fragment,
+				detail: getLine(document, line - 1).trim() || undefined,
+				sortText: String(line).padStart(sortTextLength, '0'),
+				textEdit: {
+					newText: '#' + fragment,
+					insert: insertionRange,
+					replace: replacementRange,
+				},
+			};
+		}
 	}
 
 	#createHeaderCompletion(entry: TocEntry, insertionRange: lsp.Range, replacementRange: lsp.Range, filePath = ''): lsp.CompletionItem {
-		const label = '#' + decodeURIComponent(entry.slug.value);
-		const newText = filePath + '#' + decodeURIComponent(entry.slug.value);
+		const fragment = entry.explicitId?.id ?? decodeURIComponent(entry.slug.value);
+		const label = '#' + fragment;
+		const newText = filePath + '#' + fragment;
 		return {
 			kind: lsp.CompletionItemKind.Reference,
 			label,
@@ -416,6 +483,19 @@ export class MdPathCompletionProvider {
 		};
 	}
 
+	#createAnchorCompletion(anchor: TocAnchor, insertionRange: lsp.Range, replacementRange: lsp.Range, filePath = ''): lsp.CompletionItem {
+		return {
+			kind: lsp.CompletionItemKind.Reference,
+			label: '#' + anchor.id,
+			detail: filePath ? l10n.t(`Link to anchor '{0}' in '{1}'`, anchor.id, filePath) : l10n.t(`Link to anchor '{0}'`, anchor.id),
+			textEdit: {
+				newText: filePath + '#' + anchor.id,
+				insert: insertionRange,
+				replace: replacementRange,
+			},
+		};
+	}
+
 	#ownHeaderEntryDetails(entry: TocEntry): string | undefined {
 		return l10n.t(`Link to '{0}'`, '#'.repeat(entry.level) + ' ' + entry.text);
 	}
@@ -453,6 +533,16 @@ export class MdPathCompletionProvider {
 				}
 				yield completionItem;
 			}
+
+			for (const anchor of toc.anchors) {
+				const completionItem = this.#createAnchorCompletion(anchor, insertionRange, replacementRange, path);
+				completionItem.filterText = '#' + completionItem.label;
+				completionItem.sortText = isHeaderInCurrentDocument ? sortTexts.localHeader : sortTexts.workspaceHeader;
+				if (path) {
+					completionItem.labelDetails = { description: path };
+				}
+				yield completionItem;
+			}
 		}
 	}
 
@@ -480,25 +570,30 @@ export class MdPathCompletionProvider {
 			return;
 		}
 
-		// eslint-disable-next-line prefer-const
-		for (let [name, type] of dirInfo) {
-			const uri = Utils.joinPath(parentDir, name);
-			if (isExcludedPath(this.#configuration, uri)) {
-				continue;
-			}
-
-			if (!type.isDirectory) {
-				name = this.#normalizeFileNameCompletion(name);
-			}
-
-			const isDir = type.isDirectory;
+		// Start reading the titles of all the files up front so that they are read in parallel
+		const limiter = new Limiter<string | undefined>(20);
+		const entries = Array.from(dirInfo, ([name, type]) => ({ name, type, uri: Utils.joinPath(parentDir, name) }))
+			.filter(entry => !isExcludedPath(this.#configuration, entry.uri))
+			.map(entry => ({
+				...entry,
+				title: entry.type.isDirectory ? undefined : limiter.queue(() => this.#getMarkdownFileTitle(entry.uri)),
+			}));
+
+		for (const entry of entries) {
+			const isDir = entry.type.isDirectory;
+			const name = isDir ? entry.name : this.#normalizeFileNameCompletion(entry.name);
 			const newText = this.#getPathInsertText(context, name) + (isDir ? '/' : '');
 			const label = isDir ? name + '/' : name;
+			const title = await entry.title;
+			if (token.isCancellationRequested) {
+				return;
+			}
+
 			yield {
 				label,
 				kind: isDir ? lsp.CompletionItemKind.Folder : lsp.CompletionItemKind.File,
-				detail: l10n.t(`Link to '{0}'`, label),
-				documentation: this.#getPathDocumentation(uri, type),
+				detail: title ?? l10n.t(`Link to '{0}'`, label),
+				documentation: this.#getPathDocumentation(entry.uri, entry.type),
 				textEdit: {
 					newText,
 					insert: insertRange,
@@ -509,6 +604,17 @@ export class MdPathCompletionProvider {
 		}
 	}
 
+	/**
+	 * Get the front matter title of a markdown file.
+	 */
+	async #getMarkdownFileTitle(uri: URI): Promise<string | undefined> {
+		if (!looksLikeMarkdownFilePath(this.#configuration, uri.path)) {
+			return undefined;
+		}
+
+		return this.#titleCache.get(uri);
+	}
+
 	#getPathDocumentation(uri: URI, stat: FileStat): lsp.MarkupContent {
 		let documentation = stat.isDirectory
 			? mdBuilder.inlineCode(uri.path + '/') // TODO: support links to folders too
@@ -4,17 +4,18 @@
  *--------------------------------------------------------------------------------------------*/
 import * as lsp from 'vscode-languageserver-protocol';
 import { URI } from 'vscode-uri';
-import { LsConfiguration } from '../config';
+import { getSlugifierForDocument, LsConfiguration } from '../config';
 import { ILogger, LogLevel } from '../logging';
 import { IMdParser } from '../parser';
-import { MdTableOfContentsProvider, TocEntry } from '../tableOfContents';
-import { HrefKind, MdLink, MdLinkKind } from '../types/documentLink';
+import { ISlug } from '../slugify';
+import { MdTableOfContentsProvider, TocAnchor, TocEntry } from '../tableOfContents';
+import { HrefKind, MdLink, MdLinkKind, normalizeReferenceName } from '../types/documentLink';
 import { translatePosition } from '../types/position';
 import { areRangesEqual, modifyRange, rangeContains } from '../types/range';
 import { getDocUri, ITextDocument } from '../types/textDocument';
 import { Disposable } from '../util/dispose';
 import { isSameResource, looksLikeMarkdownUri, looksLikePathToResource } from '../util/path';
-import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
+import { isDirectoryIndexFile, IWorkspace, statLinkToMarkdownFile } from '../workspace';
 import { MdWorkspaceInfoCache } from '../workspaceCache';
 
 export enum MdReferenceKind {
@@ -63,6 +64,15 @@ export interface MdHeaderReference {
 	 * In `# a b c #` this would be the range of `a b c`
 	 */
 	readonly headerTextLocation: lsp.Location;
+
+	/**
+	 * Is the reference to an explicit id instead of to the header text?
+	 *
+	 * This is the case for headers with an explicit id, such as `# a {#id}`, and for html anchors, such as
+	 * `<a id="id"></a>`. For these, {@link headerText} and {@link headerTextLocation} are the id itself. Links use
+	 * explicit ids as is instead of as a slug.
+	 */
+	readonly isExplicitId?: boolean;
 }
 
 export type MdReference = MdLinkReference | MdHeaderReference;
@@ -114,10 +124,15 @@ export class MdReferencesProvider extends Disposable {
 
 		const header = toc.entries.find(entry => entry.line === position.line);
 		if (header) {
-			return this.#getReferencesToHeader(document, header, token);
-		} else {
-			return this.#getReferencesToLinkAtPosition(document, position, token);
+			return this.#getReferencesToHeader(document, header.slug, headerToReference(header, true), token);
+		}
+
+		const anchor = toc.anchors.find(anchor => rangeContains(anchor.location.range, position));
+		if (anchor) {
+			return this.#getReferencesToHeader(document, anchor.slug, anchorToReference(anchor, true), token);
 		}
+
+		return this.#getReferencesToLinkAtPosition(document, position, token);
 	}
 
 	public async getReferencesToFileInWorkspace(resource: URI, token: lsp.CancellationToken): Promise<MdReference[]> {
@@ -128,30 +143,35 @@ export class MdReferencesProvider extends Disposable {
 			return [];
 		}
 
-		return Array.from(this.#findLinksToFile(resource, allLinksInWorkspace, undefined));
+		const isIndexFile = await isDirectoryIndexFile(this.#configuration, this.#workspace, resource);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		return Array.from(this.#findLinksToFile(resource, isIndexFile, allLinksInWorkspace, undefined));
 	}
 
-	async #getReferencesToHeader(document: ITextDocument, header: TocEntry, token: lsp.CancellationToken): Promise<MdReference[]> {
+	async #getReferencesToHeader(document: ITextDocument, slug: ISlug, headerRef: MdHeaderReference, token: lsp.CancellationToken): Promise<MdReference[]> {
 		const links = await this.#getAllLinksInWorkspace();
 		if (token.isCancellationRequested) {
 			return [];
 		}
 
+		const docUri = getDocUri(document);
+		const isIndexFile = await isDirectoryIndexFile(this.#configuration, this.#workspace, docUri);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const slugifier = getSlugifierForDocument(this.#configuration, this.#parser.slugifier, docUri);
 		const references: MdReference[] = [];
 
-		references.push({
-			kind: MdReferenceKind.Header,
-			isTriggerLocation: true,
-			isDefinition: true,
-			location: header.headerLocation,
-			headerText: header.text,
-			headerTextLocation: header.headerTextLocation
-		});
+		references.push(headerRef);
 
 		for (const link of links) {
 			if (link.href.kind === HrefKind.Internal
-				&& looksLikePathToResource(this.#configuration, link.href.path, getDocUri(document))
-				&& this.#parser.slugifier.fromFragment(link.href.fragment).equals(header.slug)
+				&& looksLikePathToResource(this.#configuration, link.href.path, docUri, isIndexFile)
+				&& slugifier.fromFragment(link.href.fragment).equals(slug)
 			) {
 				references.push({
 					kind: MdReferenceKind.Link,
@@ -195,6 +215,10 @@ export class MdReferencesProvider extends Disposable {
 			return Array.from(this.#getReferencesToLinkReference(docLinks, sourceLink.href.ref, { resource: sourceLink.source.resource, range: sourceLink.source.hrefRange }));
 		}
 
+		if (sourceLink.href.kind === HrefKind.Footnote) {
+			return Array.from(this.#getReferencesToFootnote(docLinks, sourceLink.href.ref, { resource: sourceLink.source.resource, range: sourceLink.source.hrefRange }));
+		}
+
 		// Otherwise find all occurrences of the link in the workspace
 		const allLinksInWorkspace = await this.#getAllLinksInWorkspace();
 		if (token.isCancellationRequested) {
@@ -224,28 +248,30 @@ export class MdReferencesProvider extends Disposable {
 			return [];
 		}
 
+		const isIndexFile = !!resolvedResource && await isDirectoryIndexFile(this.#configuration, this.#workspace, resolvedResource);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
 		const references: MdReference[] = [];
 
 		if (resolvedResource && this.#isMarkdownPath(resolvedResource) && sourceLink.href.fragment && sourceLink.source.hrefFragmentRange && rangeContains(sourceLink.source.hrefFragmentRange, triggerPosition)) {
 			const toc = await this.#tocProvider.get(resolvedResource);
 			const entry = toc?.lookupByFragment(sourceLink.href.fragment);
+			const anchor = entry ? undefined : toc?.lookupAnchorByFragment(sourceLink.href.fragment);
 			if (entry) {
-				references.push({
-					kind: MdReferenceKind.Header,
-					isTriggerLocation: false,
-					isDefinition: true,
-					location: entry.headerLocation,
-					headerText: entry.text,
-					headerTextLocation: entry.headerTextLocation
-				});
+				references.push(headerToReference(entry, false));
+			} else if (anchor) {
+				references.push(anchorToReference(anchor, false));
 			}
 
+			const slugifier = getSlugifierForDocument(this.#configuration, this.#parser.slugifier, resolvedResource);
 			for (const link of allLinksInWorkspace) {
-				if (link.href.kind !== HrefKind.Internal || !looksLikePathToResource(this.#configuration, link.href.path, resolvedResource)) {
+				if (link.href.kind !== HrefKind.Internal || !looksLikePathToResource(this.#configuration, link.href.path, resolvedResource, isIndexFile)) {
 					continue;
 				}
 
-				if (this.#parser.slugifier.fromHeading(link.href.fragment).equals(this.#parser.slugifier.fromHeading(sourceLink.href.fragment))) {
+				if (slugifier.fromHeading(link.href.fragment).equals(slugifier.fromHeading(sourceLink.href.fragment))) {
 					const isTriggerLocation = sourceLink.source.resource.fsPath === link.source.resource.fsPath && areRangesEqual(sourceLink.source.hrefRange, link.source.hrefRange);
 					references.push({
 						kind: MdReferenceKind.Link,
@@ -257,7 +283,7 @@ export class MdReferencesProvider extends Disposable {
 				}
 			}
 		} else { // Triggered on a link without a fragment so we only require matching the file and ignore fragments
-			references.push(...this.#findLinksToFile(resolvedResource ?? sourceLink.href.path, allLinksInWorkspace, sourceLink));
+			references.push(...this.#findLinksToFile(resolvedResource ?? sourceLink.href.path, isIndexFile, allLinksInWorkspace, sourceLink));
 		}
 
 		return references;
@@ -271,9 +297,9 @@ export class MdReferencesProvider extends Disposable {
 		return this.#workspace.hasMarkdownDocument(resolvedHrefPath) || looksLikeMarkdownUri(this.#configuration, resolvedHrefPath);
 	}
 
-	*#findLinksToFile(resource: URI, links: readonly MdLink[], sourceLink: MdLink | undefined): Iterable<MdReference> {
+	*#findLinksToFile(resource: URI, isIndexFile: boolean, links: readonly MdLink[], sourceLink: MdLink | undefined): Iterable<MdReference> {
 		for (const link of links) {
-			if (link.href.kind !== HrefKind.Internal || !looksLikePathToResource(this.#configuration, link.href.path, resource)) {
+			if (link.href.kind !== HrefKind.Internal || !looksLikePathToResource(this.#configuration, link.href.path, resource, isIndexFile)) {
 				continue;
 			}
 
@@ -321,6 +347,23 @@ export class MdReferencesProvider extends Disposable {
 		}
 	}
 
+	*#getReferencesToFootnote(allLinks: Iterable<MdLink>, refToFind: string, from: { resource: URI; range: lsp.Range }): Iterable<MdReference> {
+		const normalizedRef = normalizeReferenceName(refToFind);
+		for (const link of allLinks) {
+			if (link.href.kind !== HrefKind.Footnote || normalizeReferenceName(link.href.ref) !== normalizedRef || link.source.resource.fsPath !== from.resource.fsPath) {
+				continue;
+			}
+
+			yield {
+				kind: MdReferenceKind.Link,
+				isTriggerLocation: areRangesEqual(from.range, link.source.hrefRange),
+				isDefinition: link.kind === MdLinkKind.FootnoteDefinition,
+				link,
+				location: { uri: from.resource.toString(), range: link.source.hrefRange },
+			};
+		}
+	}
+
 	/**
 	 * Get just the range of the file path, dropping the fragment
 	 */
@@ -330,3 +373,27 @@ export class MdReferencesProvider extends Disposable {
 			: link.source.hrefRange;
 	}
 }
+
+function headerToReference(header: TocEntry, isTriggerLocation: boolean): MdHeaderReference {
+	return {
+		kind: MdReferenceKind.Header,
+		isTriggerLocation,
+		isDefinition: true,
+		location: header.headerLocation,
+		headerText: header.explicitId?.id ?? header.text,
+		headerTextLocation: header.explicitId?.location ?? header.headerTextLocation,
+		isExplicitId: !!header.explicitId,
+	};
+}
+
+function anchorToReference(anchor: TocAnchor, isTriggerLocation: boolean): MdHeaderReference {
+	return {
+		kind: MdReferenceKind.Header,
+		isTriggerLocation,
+		isDefinition: true,
+		location: anchor.location,
+		headerText: anchor.id,
+		headerTextLocation: anchor.location,
+		isExplicitId: true,
+	};
+}
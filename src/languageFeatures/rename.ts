@@ -6,21 +6,21 @@ import * as l10n from '@vscode/l10n';
 import * as path from 'path';
 import * as lsp from 'vscode-languageserver-protocol';
 import { URI, Utils } from 'vscode-uri';
-import { LsConfiguration, defaultMarkdownFileExtension } from '../config';
+import { LsConfiguration, defaultMarkdownFileExtension, getSlugifierForDocument } from '../config';
 import { ILogger, LogLevel } from '../logging';
 import { IMdParser } from '../parser';
 import { ISlugifier } from '../slugify';
 import { MdTableOfContentsProvider, TableOfContents, TocEntry } from '../tableOfContents';
-import { HrefKind, InternalHref, MdLink, MdLinkKind, MdLinkSource } from '../types/documentLink';
+import { HrefKind, InternalHref, MdLink, MdLinkKind, MdLinkSource, MdWikiLink } from '../types/documentLink';
 import { InMemoryDocument, tempDocVersion } from '../types/inMemoryDocument';
 import { arePositionsEqual, translatePosition } from '../types/position';
 import { modifyRange, rangeContains } from '../types/range';
 import { ITextDocument, getDocUri } from '../types/textDocument';
 import { WorkspaceEditBuilder } from '../util/editBuilder';
-import { escapeForAngleBracketLink, needsAngleBracketLink, resolveInternalDocumentLink } from '../util/mdLinks';
-import { computeRelativePath } from '../util/path';
+import { escapeForAngleBracketLink, getSiteUrlLinkRenameText, needsAngleBracketLink, resolveInternalDocumentLink } from '../util/mdLinks';
+import { computeRelativePath, looksLikeMarkdownUri } from '../util/path';
 import { tryDecodeUri } from '../util/uri';
-import { IWorkspace, statLinkToMarkdownFile } from '../workspace';
+import { getWorkspaceFolder, IWorkspace, statLinkToMarkdownFile } from '../workspace';
 import { MdHeaderReference, MdLinkReference, MdReference, MdReferenceKind, MdReferencesProvider } from './references';
 
 export interface MdReferencesResponse {
@@ -136,21 +136,21 @@ export class MdRenameProvider {
 		const triggerRef = allRefsInfo.triggerRef;
 
 		if (triggerRef.kind === MdReferenceKind.Link && (
-			(triggerRef.link.kind === MdLinkKind.Definition && rangeContains(triggerRef.link.ref.range, position)) || triggerRef.link.href.kind === HrefKind.Reference
+			(triggerRef.link.kind === MdLinkKind.Definition && rangeContains(triggerRef.link.ref.range, position)) || triggerRef.link.href.kind === HrefKind.Reference || triggerRef.link.href.kind === HrefKind.Footnote
 		)) {
 			return this.#renameReferenceLinks(allRefsInfo, newName);
 		} else if (triggerRef.kind === MdReferenceKind.Link && triggerRef.link.href.kind === HrefKind.External) {
 			return this.#renameExternalLink(allRefsInfo, newName);
-		} else if (triggerRef.kind === MdReferenceKind.Header || (triggerRef.kind === MdReferenceKind.Link && triggerRef.link.source.hrefFragmentRange && rangeContains(triggerRef.link.source.hrefFragmentRange, position) && (triggerRef.link.kind === MdLinkKind.Definition || triggerRef.link.kind === MdLinkKind.Link && triggerRef.link.href.kind === HrefKind.Internal))) {
+		} else if (triggerRef.kind === MdReferenceKind.Header || (triggerRef.kind === MdReferenceKind.Link && triggerRef.link.source.hrefFragmentRange && rangeContains(triggerRef.link.source.hrefFragmentRange, position) && (triggerRef.link.kind === MdLinkKind.Definition || triggerRef.link.kind === MdLinkKind.WikiLink || triggerRef.link.kind === MdLinkKind.Link && triggerRef.link.href.kind === HrefKind.Internal))) {
 			return this.#renameFragment(allRefsInfo, newName, token);
-		} else if (triggerRef.kind === MdReferenceKind.Link && !(triggerRef.link.source.hrefFragmentRange && rangeContains(triggerRef.link.source.hrefFragmentRange, position)) && (triggerRef.link.kind === MdLinkKind.Link || triggerRef.link.kind === MdLinkKind.Definition) && triggerRef.link.href.kind === HrefKind.Internal) {
-			return this.#renameFilePath(triggerRef.link.source.resource, triggerRef.link.href, allRefsInfo, newName, token);
+		} else if (triggerRef.kind === MdReferenceKind.Link && !(triggerRef.link.source.hrefFragmentRange && rangeContains(triggerRef.link.source.hrefFragmentRange, position)) && (triggerRef.link.kind === MdLinkKind.Link || triggerRef.link.kind === MdLinkKind.Definition || triggerRef.link.kind === MdLinkKind.WikiLink) && triggerRef.link.href.kind === HrefKind.Internal) {
+			return this.#renameFilePath(triggerRef.link, triggerRef.link.href, allRefsInfo, newName, token);
 		}
 
 		return undefined;
 	}
 
-	async #renameFilePath(triggerDocument: URI, triggerHref: InternalHref, allRefsInfo: MdReferencesResponse, newName: string, token: lsp.CancellationToken): Promise<lsp.WorkspaceEdit> {
+	async #renameFilePath(triggerLink: MdLink, triggerHref: InternalHref, allRefsInfo: MdReferencesResponse, newName: string, token: lsp.CancellationToken): Promise<lsp.WorkspaceEdit> {
 		const builder = new WorkspaceEditBuilder();
 
 		const targetUri = await statLinkToMarkdownFile(this.#configuration, this.#workspace, triggerHref.path) ?? triggerHref.path;
@@ -158,7 +158,10 @@ export class MdRenameProvider {
 			return builder.getEdit();
 		}
 
-		const rawNewFilePath = resolveInternalDocumentLink(triggerDocument, newName, this.#workspace);
+		// Wiki links only contain the name of the page, so the renamed file stays in the same directory
+		const rawNewFilePath = triggerLink.kind === MdLinkKind.WikiLink
+			? { resource: Utils.joinPath(Utils.dirname(targetUri), newName), linkFragment: '' }
+			: resolveInternalDocumentLink(triggerLink.source.resource, newName, this.#workspace);
 		if (!rawNewFilePath) {
 			return builder.getEdit();
 		}
@@ -182,7 +185,9 @@ export class MdRenameProvider {
 		// Then update all refs to it
 		for (const ref of allRefsInfo.references) {
 			if (ref.kind === MdReferenceKind.Link) {
-				const { range, newText } = this.#getLinkRenameEdit(ref, rawNewFilePath, newName);
+				const { range, newText } = ref.link.kind === MdLinkKind.WikiLink
+					? getWikiLinkRenameEdit(this.#configuration, this.#workspace, ref.link, resolvedNewFilePath)
+					: this.#getLinkRenameEdit(ref, rawNewFilePath, newName);
 				builder.replace(ref.link.source.resource, range, newText);
 			}
 		}
@@ -192,16 +197,22 @@ export class MdRenameProvider {
 
 	#getLinkRenameEdit(ref: MdLinkReference, rawNewFilePath: { resource: URI; linkFragment: string; }, newName: string): lsp.TextEdit {
 		// Try to preserve style of existing links
-		const newLinkText = getLinkRenameText(this.#workspace, ref.link.source, rawNewFilePath.resource, newName.startsWith('./') || newName.startsWith('.\\'));
+		const newLinkText = getLinkRenameText(this.#configuration, this.#workspace, ref.link.source, rawNewFilePath.resource, newName.startsWith('./') || newName.startsWith('.\\'));
 
 		return getLinkRenameEdit(ref.link, newLinkText ?? newName);
 	}
 
 	async #renameFragment(allRefsInfo: MdReferencesResponse, newHeaderText: string, token: lsp.CancellationToken): Promise<lsp.WorkspaceEdit | undefined> {
 		const builder = new WorkspaceEditBuilder();
-		let newSlug = this.#slugifier.fromHeading(newHeaderText);
 
 		const existingHeader = allRefsInfo.references.find(x => x.kind === MdReferenceKind.Header);
+		if (existingHeader?.isExplicitId) {
+			return this.#renameExplicitId(allRefsInfo, newHeaderText);
+		}
+
+		const slugifier = this.#getSlugifierForFragmentRename(existingHeader ?? allRefsInfo.triggerRef);
+		let newSlug = slugifier.fromHeading(newHeaderText);
+
 		if (existingHeader) {
 			// If there's a real header we're renaming, we need to handle cases where there are duplicate header ids.
 			// There are two cases of this to consider:
@@ -232,7 +243,7 @@ export class MdRenameProvider {
 
 				const [oldToc, newToc] = await Promise.all([
 					this.#tableOfContentProvider.getForDocument(doc),
-					TableOfContents.create(this.#parser, editedDoc, token) // Don't use cache for new temp doc
+					TableOfContents.create(this.#parser, editedDoc, token, slugifier) // Don't use cache for new temp doc
 				]);
 				if (token.isCancellationRequested) {
 					return;
@@ -263,7 +274,7 @@ export class MdRenameProvider {
 
 					for (const ref of refs?.references ?? []) {
 						if (ref.kind === MdReferenceKind.Link) {
-							builder.replace(ref.link.source.resource, ref.link.source.hrefFragmentRange ?? ref.location.range, changedHeader.slug.value);
+							builder.replace(ref.link.source.resource, ref.link.source.hrefFragmentRange ?? ref.location.range, ref.link.kind === MdLinkKind.WikiLink ? changedHeader.text : changedHeader.slug.value);
 						}
 					}
 				}
@@ -277,13 +288,42 @@ export class MdRenameProvider {
 					break;
 
 				case MdReferenceKind.Link:
-					builder.replace(ref.link.source.resource, ref.link.source.hrefFragmentRange ?? ref.location.range, !ref.link.source.hrefFragmentRange || ref.link.href.kind === HrefKind.External ? newHeaderText : newSlug.value);
+					// Wiki links reference headers by their text instead of by slug
+					builder.replace(ref.link.source.resource, ref.link.source.hrefFragmentRange ?? ref.location.range, !ref.link.source.hrefFragmentRange || ref.link.href.kind === HrefKind.External || ref.link.kind === MdLinkKind.WikiLink ? newHeaderText : newSlug.value);
 					break;
 			}
 		}
 		return builder.getEdit();
 	}
 
+	/**
+	 * Rename an explicit header id or html anchor. Unlike header text, the new id is used as is in links.
+	 */
+	#renameExplicitId(allRefsInfo: MdReferencesResponse, newId: string): lsp.WorkspaceEdit {
+		const builder = new WorkspaceEditBuilder();
+		for (const ref of allRefsInfo.references) {
+			if (ref.kind === MdReferenceKind.Header) {
+				builder.replace(URI.parse(ref.location.uri), ref.headerTextLocation.range, newId);
+			} else if (ref.link.source.hrefFragmentRange) {
+				builder.replace(ref.link.source.resource, ref.link.source.hrefFragmentRange, newId);
+			}
+		}
+		return builder.getEdit();
+	}
+
+	/**
+	 * Get the slugifier for the document that contains the header being renamed.
+	 */
+	#getSlugifierForFragmentRename(ref: MdReference): ISlugifier {
+		let uri: URI | undefined;
+		if (ref.kind === MdReferenceKind.Header) {
+			uri = URI.parse(ref.location.uri);
+		} else if (ref.link.href.kind === HrefKind.Internal) {
+			uri = ref.link.href.path;
+		}
+		return uri ? getSlugifierForDocument(this.#configuration, this.#slugifier, uri) : this.#slugifier;
+	}
+
 	#renameExternalLink(allRefsInfo: MdReferencesResponse, newName: string): lsp.WorkspaceEdit {
 		const builder = new WorkspaceEditBuilder();
 		for (const ref of allRefsInfo.references) {
@@ -342,7 +382,12 @@ export class MdRenameProvider {
 	}
 }
 
-export function getLinkRenameText(workspace: IWorkspace, source: MdLinkSource, newPath: URI, preferDotSlash = false): string | undefined {
+export function getLinkRenameText(config: LsConfiguration, workspace: IWorkspace, source: MdLinkSource, newPath: URI, preferDotSlash = false): string | undefined {
+	const siteUrlText = getSiteUrlLinkRenameText(config, source.hrefText, newPath);
+	if (typeof siteUrlText === 'string') {
+		return siteUrlText;
+	}
+
 	if (source.hrefText.startsWith('/')) {
 		const root = resolveInternalDocumentLink(source.resource, '/', workspace);
 		if (!root) {
@@ -355,6 +400,28 @@ export function getLinkRenameText(workspace: IWorkspace, source: MdLinkSource, n
 	return computeRelativePath(source.resource, newPath, preferDotSlash);
 }
 
+/**
+ * Get the edit that updates the page name of a wiki link for a file that has moved to {@linkcode newPath}.
+ *
+ * This preserves the fragment and alias of the link, as well as the number of folders in the page name. For example
+ * `[[b/Page]]` keeps its folder so that it does not become ambiguous.
+ */
+export function getWikiLinkRenameEdit(config: LsConfiguration, workspace: IWorkspace, link: MdWikiLink, newPath: URI): lsp.TextEdit {
+	const oldPageName = link.source.hrefPathText.trim();
+	const prefix = oldPageName.match(/^\.?\//)?.[0] ?? '';
+	const segmentCount = oldPageName.slice(prefix.length).split('/').length;
+
+	// Folders outside of the workspace are never part of the page name
+	const root = getWorkspaceFolder(workspace, newPath);
+	const pathInWorkspace = root ? newPath.path.slice(root.path.length) : newPath.path;
+	let newPageName = pathInWorkspace.split('/').filter(part => part.length).slice(-segmentCount).join('/');
+	if (looksLikeMarkdownUri(config, newPath) && !path.posix.extname(oldPageName)) {
+		// Match the existing link in dropping the file extension
+		newPageName = newPageName.slice(0, newPageName.length - Utils.extname(newPath).length);
+	}
+	return { range: getFilePathRange(link), newText: prefix + newPageName };
+}
+
 export function getFilePathRange(link: MdLink): lsp.Range {
 	if (link.source.hrefFragmentRange) {
 		return modifyRange(link.source.hrefRange, undefined, translatePosition(link.source.hrefFragmentRange.start, { characterDelta: -1 }));
@@ -0,0 +1,283 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { isInFrontMatter, MdFrontMatter, parseFrontMatter } from '../frontMatter';
+import { ILogger, LogLevel } from '../logging';
+import { IMdParser, Token } from '../parser';
+import { HrefKind, MdLink, MdLinkKind } from '../types/documentLink';
+import { rangeIntersects } from '../types/range';
+import { getLine, ITextDocument } from '../types/textDocument';
+import { DiagnosticCode, MdDiagnosticsCache } from './diagnostics';
+import { MdLinkProvider } from './documentLinks';
+
+/**
+ * Index of each token type in {@link semanticTokensLegend}.
+ */
+enum TokenType {
+	heading,
+	linkText,
+	linkDestination,
+	referenceName,
+	frontMatter,
+}
+
+/**
+ * Bit of each token modifier in {@link semanticTokensLegend}.
+ */
+enum TokenModifier {
+	none = 0,
+	declaration = 1 << 0,
+	broken = 1 << 1,
+	level1 = 1 << 2,
+}
+
+/**
+ * The legend for the semantic tokens returned by {@link IMdLanguageService.getSemanticTokens}.
+ *
+ * Headers use the `heading` type with a `level1` to `level6` modifier. Links that have been reported as broken by the
+ * most recent diagnostics have the `broken` modifier, while link definitions and footnote definitions have the
+ * `declaration` modifier.
+ */
+export const semanticTokensLegend: lsp.SemanticTokensLegend = Object.freeze({
+	tokenTypes: ['heading', 'linkText', 'linkDestination', 'referenceName', 'frontMatter'],
+	tokenModifiers: ['declaration', 'broken', 'level1', 'level2', 'level3', 'level4', 'level5', 'level6'],
+});
+
+/**
+ * Diagnostics that mean a link does not point to anything.
+ */
+const brokenLinkDiagnosticCodes: ReadonlySet<string> = new Set([
+	DiagnosticCode.link_noSuchReferences,
+	DiagnosticCode.link_noSuchHeaderInOwnFile,
+	DiagnosticCode.link_noSuchFile,
+	DiagnosticCode.link_noSuchHeaderInFile,
+	DiagnosticCode.link_noSuchFootnote,
+	DiagnosticCode.link_deadExternalLink,
+	DiagnosticCode.link_noSuchLineInFile,
+]);
+
+interface MdSemanticToken {
+	readonly range: lsp.Range;
+	readonly type: TokenType;
+	readonly modifiers: number;
+}
+
+export class MdSemanticTokensProvider {
+
+	readonly #parser: IMdParser;
+	readonly #linkProvider: MdLinkProvider;
+	readonly #diagnosticsCache: MdDiagnosticsCache;
+	readonly #logger: ILogger;
+
+	constructor(
+		parser: IMdParser,
+		linkProvider: MdLinkProvider,
+		diagnosticsCache: MdDiagnosticsCache,
+		logger: ILogger,
+	) {
+		this.#parser = parser;
+		this.#linkProvider = linkProvider;
+		this.#diagnosticsCache = diagnosticsCache;
+		this.#logger = logger;
+	}
+
+	public async provideDocumentSemanticTokens(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.SemanticTokens> {
+		this.#logger.log(LogLevel.Debug, 'SemanticTokensProvider.provideDocumentSemanticTokens', { document: document.uri, version: document.version });
+
+		return this.#provideSemanticTokens(document, undefined, token);
+	}
+
+	public async provideDocumentRangeSemanticTokens(document: ITextDocument, range: lsp.Range, token: lsp.CancellationToken): Promise<lsp.SemanticTokens> {
+		this.#logger.log(LogLevel.Debug, 'SemanticTokensProvider.provideDocumentRangeSemanticTokens', { document: document.uri, version: document.version });
+
+		return this.#provideSemanticTokens(document, range, token);
+	}
+
+	async #provideSemanticTokens(document: ITextDocument, range: lsp.Range | undefined, token: lsp.CancellationToken): Promise<lsp.SemanticTokens> {
+		const tokens = await this.#parser.tokenize(document);
+		if (token.isCancellationRequested) {
+			return { data: [] };
+		}
+
+		const { links } = await this.#linkProvider.getLinks(document);
+		if (token.isCancellationRequested) {
+			return { data: [] };
+		}
+
+		const frontMatter = parseFrontMatter(document);
+		const semanticTokens = [
+			...this.#getFrontMatterTokens(frontMatter),
+			...this.#getHeadingTokens(document, tokens, frontMatter),
+			...this.#getLinkTokens(document, links),
+		];
+		return { data: encodeTokens(document, semanticTokens, range) };
+	}
+
+	*#getFrontMatterTokens(frontMatter: MdFrontMatter | undefined): Iterable<MdSemanticToken> {
+		if (frontMatter) {
+			yield { range: frontMatter.range, type: TokenType.frontMatter, modifiers: TokenModifier.none };
+		}
+	}
+
+	*#getHeadingTokens(document: ITextDocument, tokens: readonly Token[], frontMatter: MdFrontMatter | undefined): Iterable<MdSemanticToken> {
+		for (const token of tokens) {
+			if (token.type !== 'heading_open' || !token.map || isInFrontMatter(frontMatter, token.map[0])) {
+				continue;
+			}
+
+			const [startLine, endLine] = token.map;
+			const level = getHeadingLevel(token.markup);
+			for (let line = startLine; line < endLine; ++line) {
+				const text = getLine(document, line);
+				const start = text.length - text.trimStart().length;
+				const end = text.trimEnd().length;
+				if (end > start) {
+					yield {
+						range: lsp.Range.create(line, start, line, end),
+						type: TokenType.heading,
+						modifiers: TokenModifier.level1 << (level - 1),
+					};
+				}
+			}
+		}
+	}
+
+	*#getLinkTokens(document: ITextDocument, links: readonly MdLink[]): Iterable<MdSemanticToken> {
+		const brokenRanges = (this.#diagnosticsCache.get(document) ?? [])
+			.filter(diag => brokenLinkDiagnosticCodes.has(diag.code as string))
+			.map(diag => diag.range);
+
+		const isBroken = (link: MdLink) => brokenRanges.some(range => rangeIntersects(range, link.source.hrefRange));
+
+		// Link text comes first so that any links nested in the text are drawn on top of it
+		for (const link of links) {
+			if (link.kind === MdLinkKind.Link) {
+				const textRange = getLinkTextRange(document, link);
+				if (textRange) {
+					yield { range: textRange, type: TokenType.linkText, modifiers: TokenModifier.none };
+				}
+			}
+		}
+
+		for (const link of links) {
+			const brokenModifier = isBroken(link) ? TokenModifier.broken : TokenModifier.none;
+			switch (link.kind) {
+				case MdLinkKind.Link: {
+					const type = link.href.kind === HrefKind.Reference ? TokenType.referenceName : TokenType.linkDestination;
+					yield { range: link.source.hrefRange, type, modifiers: brokenModifier };
+					break;
+				}
+				case MdLinkKind.Definition: {
+					yield { range: link.ref.range, type: TokenType.referenceName, modifiers: TokenModifier.declaration };
+					yield { range: link.source.hrefRange, type: TokenType.linkDestination, modifiers: TokenModifier.declaration | brokenModifier };
+					break;
+				}
+				case MdLinkKind.AutoLink:
+				case MdLinkKind.WikiLink: {
+					yield { range: link.source.hrefRange, type: TokenType.linkDestination, modifiers: brokenModifier };
+					break;
+				}
+				case MdLinkKind.FootnoteReference: {
+					yield { range: link.source.hrefRange, type: TokenType.referenceName, modifiers: brokenModifier };
+					break;
+				}
+				case MdLinkKind.FootnoteDefinition: {
+					yield { range: link.ref.range, type: TokenType.referenceName, modifiers: TokenModifier.declaration };
+					break;
+				}
+			}
+		}
+	}
+}
+
+function getHeadingLevel(markup: string): number {
+	if (markup === '=') {
+		return 1;
+	} else if (markup === '-') {
+		return 2;
+	} else {
+		return Math.min(markup.length, 6);
+	}
+}
+
+/**
+ * Get the range of the text of a link such as `[text](./path.md)` or `![alt](./image.png)`.
+ *
+ * @returns The range or `undefined` for shortcut reference links such as `[ref]`, which do not have separate text.
+ */
+function getLinkTextRange(document: ITextDocument, link: MdLink): lsp.Range | undefined {
+	const { range, targetRange } = link.source;
+	if (targetRange.start.line === range.start.line && targetRange.start.character === range.start.character) {
+		return undefined;
+	}
+
+	const isImage = document.getText(lsp.Range.create(range.start, lsp.Position.create(range.start.line, range.start.character + 1))) === '!';
+	const start = lsp.Position.create(range.start.line, range.start.character + (isImage ? 2 : 1));
+	const end = lsp.Position.create(targetRange.start.line, Math.max(0, targetRange.start.character - 1));
+	return lsp.Range.create(start, end);
+}
+
+/**
+ * Encode tokens into the relative format used by the LSP.
+ *
+ * Tokens may overlap, in which case later tokens are drawn over earlier ones. Tokens that span multiple lines are split
+ * into one token per line.
+ *
+ * @param range Optional range to restrict the encoded tokens to.
+ */
+function encodeTokens(document: ITextDocument, tokens: readonly MdSemanticToken[], range: lsp.Range | undefined): number[] {
+	// Paint each character of each line with the token that covers it. Empty cells are -1
+	const lines = new Map<number, number[]>();
+	for (const token of tokens) {
+		for (let line = token.range.start.line; line <= token.range.end.line && line < document.lineCount; ++line) {
+			let cells = lines.get(line);
+			if (!cells) {
+				cells = new Array(getLine(document, line).length).fill(-1);
+				lines.set(line, cells);
+			}
+
+			const start = line === token.range.start.line ? token.range.start.character : 0;
+			const end = line === token.range.end.line ? Math.min(token.range.end.character, cells.length) : cells.length;
+			cells.fill((token.type << 16) | token.modifiers, start, end);
+		}
+	}
+
+	const data: number[] = [];
+	let prevLine = 0;
+	let prevChar = 0;
+	for (const line of Array.from(lines.keys()).sort((a, b) => a - b)) {
+		if (range && (line < range.start.line || line > range.end.line)) {
+			continue;
+		}
+
+		const cells = lines.get(line)!;
+		const lineStart = range && line === range.start.line ? range.start.character : 0;
+		const lineEnd = range && line === range.end.line ? Math.min(range.end.character, cells.length) : cells.length;
+
+		let char = lineStart;
+		while (char < lineEnd) {
+			const value = cells[char];
+			let end = char + 1;
+			while (end < lineEnd && cells[end] === value) {
+				++end;
+			}
+
+			if (value !== -1) {
+				data.push(
+					line - prevLine,
+					line === prevLine ? char - prevChar : char,
+					end - char,
+					value >> 16,
+					value & 0xffff);
+
+				prevLine = line;
+				prevChar = char;
+			}
+			char = end;
+		}
+	}
+	return data;
+}
@@ -246,10 +246,21 @@ async function createLinkRange(document: ITextDocument, cursorPos: lsp.Position,
 		return;
 	}
 
-	if (link.kind === MdLinkKind.AutoLink) {
+	if (link.kind === MdLinkKind.AutoLink || link.kind === MdLinkKind.WikiLink || link.kind === MdLinkKind.FootnoteReference) {
 		return makeSelectionRange(link.source.hrefRange, makeSelectionRange(link.source.range, parent));
 	}
 
+	if (link.kind === MdLinkKind.FootnoteDefinition) {
+		const fullFootnoteSelectionRange = makeSelectionRange(link.source.range, parent);
+		if (rangeContains(link.body.range, cursorPos)) {
+			return makeSelectionRange(link.body.range, fullFootnoteSelectionRange);
+		}
+		if (rangeContains(link.source.hrefRange, cursorPos)) {
+			return makeSelectionRange(link.source.hrefRange, fullFootnoteSelectionRange);
+		}
+		return fullFootnoteSelectionRange;
+	}
+
 	if (link.href.kind === HrefKind.Reference && areRangesEqual(link.source.targetRange, link.source.range)) {
 		return makeSelectionRange(link.source.targetRange, parent);
 	}
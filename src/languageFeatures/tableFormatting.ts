@@ -0,0 +1,282 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { ILogger, LogLevel } from '../logging';
+import { IMdParser } from '../parser';
+import { rangeIntersects } from '../types/range';
+import { getLine, ITextDocument } from '../types/textDocument';
+import { getDisplayWidth } from '../util/string';
+
+/**
+ * Alignment of a table column, as set by the delimiter row.
+ */
+export enum TableColumnAlignment {
+	/** `---` */
+	none,
+
+	/** `:--` */
+	left,
+
+	/** `:-:` */
+	center,
+
+	/** `--:` */
+	right,
+}
+
+/**
+ * A GitHub flavored markdown pipe table.
+ *
+ * ```md
+ * | a | b |
+ * |---|--:|
+ * | c | d |
+ * ```
+ */
+export interface MdTable {
+	/**
+	 * Range of all lines of the table, from the start of the header row to the end of the last body row.
+	 */
+	readonly range: lsp.Range;
+
+	/**
+	 * Leading whitespace of the table lines.
+	 */
+	readonly indent: string;
+
+	/**
+	 * Text of the header cells, with surrounding whitespace removed.
+	 */
+	readonly header: readonly string[];
+
+	readonly alignments: readonly TableColumnAlignment[];
+
+	/**
+	 * Text of the cells of each body row, with surrounding whitespace removed.
+	 *
+	 * Rows may have fewer or more cells than the header.
+	 */
+	readonly rows: ReadonlyArray<readonly string[]>;
+}
+
+/**
+ * Lines of tables that start with one of these are inside a container such as a blockquote or list item.
+ */
+const containerPrefixPattern = /^(?:>|[-*+]\s|\d{1,9}[.)]\s)/;
+
+/**
+ * Minimum width of a column, so that the delimiter row can always hold `:-:`.
+ */
+const minColumnWidth = 3;
+
+/**
+ * Finds and aligns the pipe tables in a document.
+ */
+export class MdTableFormattingProvider {
+
+	readonly #parser: IMdParser;
+	readonly #logger: ILogger;
+
+	constructor(
+		parser: IMdParser,
+		logger: ILogger,
+	) {
+		this.#parser = parser;
+		this.#logger = logger;
+	}
+
+	/**
+	 * Get all of the pipe tables in a document.
+	 *
+	 * Tables inside of blockquotes and list items are not returned.
+	 */
+	public async getTables(document: ITextDocument, token: lsp.CancellationToken): Promise<MdTable[]> {
+		const tokens = await this.#parser.tokenize(document);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const tables: MdTable[] = [];
+		for (const token of tokens) {
+			if (token.type === 'table_open' && token.map) {
+				const table = parseTable(document, token.map[0], token.map[1]);
+				if (table) {
+					tables.push(table);
+				}
+			}
+		}
+		return tables;
+	}
+
+	public async provideDocumentFormattingEdits(document: ITextDocument, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		this.#logger.log(LogLevel.Debug, 'TableFormattingProvider.provideDocumentFormattingEdits', { document: document.uri, version: document.version });
+
+		const tables = await this.getTables(document, token);
+		return tables.flatMap(table => this.#getFormatTableEdits(document, table));
+	}
+
+	public async provideRangeFormattingEdits(document: ITextDocument, range: lsp.Range, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		this.#logger.log(LogLevel.Debug, 'TableFormattingProvider.provideRangeFormattingEdits', { document: document.uri, version: document.version });
+
+		const tables = await this.getTables(document, token);
+		return tables
+			.filter(table => rangeIntersects(table.range, range))
+			.flatMap(table => this.#getFormatTableEdits(document, table));
+	}
+
+	#getFormatTableEdits(document: ITextDocument, table: MdTable): lsp.TextEdit[] {
+		const edits: lsp.TextEdit[] = [];
+		const lines = formatTable(table);
+		for (let i = 0; i < lines.length; ++i) {
+			const line = table.range.start.line + i;
+			const text = getLine(document, line);
+			if (text !== lines[i]) {
+				edits.push(lsp.TextEdit.replace(lsp.Range.create(line, 0, line, text.length), lines[i]));
+			}
+		}
+		return edits;
+	}
+}
+
+/**
+ * Parse the table on the lines from `startLine` up to, but not including, `endLine`.
+ *
+ * @returns The table or `undefined` if the table is inside of a container, such as a blockquote or list item.
+ */
+export function parseTable(document: ITextDocument, startLine: number, endLine: number): MdTable | undefined {
+	if (endLine - startLine < 2) {
+		return undefined;
+	}
+
+	const lines: string[] = [];
+	for (let line = startLine; line < endLine; ++line) {
+		lines.push(getLine(document, line));
+	}
+
+	const indent = lines[0].match(/^\s*/)![0];
+	if (containerPrefixPattern.test(lines[0].slice(indent.length)) || lines.some(line => !line.startsWith(indent))) {
+		return undefined;
+	}
+
+	return {
+		range: lsp.Range.create(startLine, 0, endLine - 1, lines[lines.length - 1].length),
+		indent,
+		header: splitTableRow(lines[0]),
+		alignments: splitTableRow(lines[1]).map(parseAlignment),
+		rows: lines.slice(2).map(splitTableRow),
+	};
+}
+
+/**
+ * Split a table row into its cells.
+ *
+ * Escaped pipes, `\|`, do not separate cells.
+ */
+export function splitTableRow(line: string): string[] {
+	let text = line.trim();
+	if (text.startsWith('|')) {
+		text = text.slice(1);
+	}
+
+	const cells: string[] = [];
+	let current = '';
+	for (let i = 0; i < text.length; ++i) {
+		const char = text[i];
+		if (char === '\\' && i + 1 < text.length) {
+			current += char + text[i + 1];
+			++i;
+		} else if (char === '|') {
+			cells.push(current.trim());
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+
+	// A trailing pipe ends the row instead of starting an empty cell
+	if (current.trim() || !cells.length) {
+		cells.push(current.trim());
+	}
+	return cells;
+}
+
+function parseAlignment(cell: string): TableColumnAlignment {
+	const left = cell.startsWith(':');
+	const right = cell.length > 1 && cell.endsWith(':');
+	if (left && right) {
+		return TableColumnAlignment.center;
+	} else if (left) {
+		return TableColumnAlignment.left;
+	} else if (right) {
+		return TableColumnAlignment.right;
+	}
+	return TableColumnAlignment.none;
+}
+
+/**
+ * Get the lines of `table` with the cells of each column padded to the same display width.
+ *
+ * Body rows with fewer cells than the header are filled with empty cells. Extra cells are kept but not aligned.
+ */
+export function formatTable(table: MdTable): string[] {
+	const columnCount = table.header.length;
+
+	const widths: number[] = [];
+	for (let column = 0; column < columnCount; ++column) {
+		widths.push(Math.max(
+			minColumnWidth,
+			getDisplayWidth(table.header[column]),
+			...table.rows.map(row => getDisplayWidth(row[column] ?? ''))));
+	}
+
+	const formatRow = (cells: readonly string[]) => {
+		const padded = cells.map((cell, column) => column < columnCount
+			? padCell(cell, widths[column], table.alignments[column] ?? TableColumnAlignment.none)
+			: cell);
+		return `${table.indent}| ${padded.join(' | ')} |`;
+	};
+
+	const fillRow = (cells: readonly string[]) => {
+		return cells.length >= columnCount ? cells : [...cells, ...new Array(columnCount - cells.length).fill('')];
+	};
+
+	return [
+		formatRow(table.header),
+		`${table.indent}|${widths.map((width, column) => getDelimiterCell(width + 2, table.alignments[column] ?? TableColumnAlignment.none)).join('|')}|`,
+		...table.rows.map(row => formatRow(fillRow(row))),
+	];
+}
+
+function padCell(text: string, width: number, alignment: TableColumnAlignment): string {
+	const padding = width - getDisplayWidth(text);
+	switch (alignment) {
+		case TableColumnAlignment.right:
+			return ' '.repeat(padding) + text;
+
+		case TableColumnAlignment.center: {
+			const before = Math.floor(padding / 2);
+			return ' '.repeat(before) + text + ' '.repeat(padding - before);
+		}
+		default:
+			return text + ' '.repeat(padding);
+	}
+}
+
+function getDelimiterCell(width: number, alignment: TableColumnAlignment): string {
+	switch (alignment) {
+		case TableColumnAlignment.left:
+			return ':' + '-'.repeat(width - 1);
+
+		case TableColumnAlignment.center:
+			return ':' + '-'.repeat(width - 2) + ':';
+
+		case TableColumnAlignment.right:
+			return '-'.repeat(width - 1) + ':';
+
+		default:
+			return '-'.repeat(width);
+	}
+}
@@ -0,0 +1,202 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as lsp from 'vscode-languageserver-protocol';
+import { MdTableOfContentsProvider, TableOfContents } from '../tableOfContents';
+import { getLine, ITextDocument } from '../types/textDocument';
+
+/**
+ * Controls how a table of contents block is generated.
+ */
+export interface TocBlockOptions {
+	/**
+	 * Minimum header level to include. Defaults to 1.
+	 */
+	readonly minLevel?: number;
+
+	/**
+	 * Maximum header level to include. Defaults to 6.
+	 */
+	readonly maxLevel?: number;
+
+	/**
+	 * Generate an ordered list (`1.`) instead of an unordered list (`-`). Defaults to `false`.
+	 */
+	readonly ordered?: boolean;
+
+	/**
+	 * Number of spaces used to indent nested entries.
+	 *
+	 * Defaults to 2 for unordered lists and 3 for ordered lists.
+	 */
+	readonly indentSize?: number;
+}
+
+const tocStartMarker = '<!-- toc -->';
+const tocEndMarker = '<!-- tocstop -->';
+
+const tocStartPattern = /^ {0,3}<!--\s*toc\s*-->\s*$/i;
+const tocEndPattern = /^ {0,3}<!--\s*(?:tocstop|\/toc)\s*-->\s*$/i;
+const fencePattern = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Lines of an existing table of contents block in a document.
+ */
+interface TocBlock {
+	/** Line of the `<!-- toc -->` marker. */
+	readonly startLine: number;
+
+	/** Line of the `<!-- tocstop -->` marker, or `undefined` if the block is not closed. */
+	readonly endLine: number | undefined;
+}
+
+/**
+ * Find the first `<!-- toc -->` block in a document, skipping any markers inside of fenced code blocks.
+ */
+function findTocBlock(doc: ITextDocument): TocBlock | undefined {
+	let fence: string | undefined;
+	let startLine: number | undefined;
+	for (let i = 0; i < doc.lineCount; ++i) {
+		const line = getLine(doc, i);
+
+		const fenceMatch = line.match(fencePattern);
+		if (fenceMatch) {
+			if (!fence) {
+				fence = fenceMatch[1];
+			} else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+				fence = undefined;
+			}
+			continue;
+		}
+
+		if (fence) {
+			continue;
+		}
+
+		if (typeof startLine === 'undefined') {
+			if (tocStartPattern.test(line)) {
+				startLine = i;
+			}
+		} else if (tocEndPattern.test(line)) {
+			return { startLine, endLine: i };
+		}
+	}
+
+	return typeof startLine === 'number' ? { startLine, endLine: undefined } : undefined;
+}
+
+/**
+ * Render the entries of a table of contents as the lines of a markdown list.
+ */
+function renderTocLines(toc: TableOfContents, options: TocBlockOptions): string[] {
+	const minLevel = options.minLevel ?? 1;
+	const maxLevel = options.maxLevel ?? 6;
+	const indentSize = options.indentSize ?? (options.ordered ? 3 : 2);
+
+	const lines: string[] = [];
+
+	// Track the levels of the parent entries so that skipped levels don't create extra nesting
+	const parentLevels: number[] = [];
+	const counters: number[] = [];
+	for (const entry of toc.entries) {
+		if (entry.level < minLevel || entry.level > maxLevel) {
+			continue;
+		}
+
+		while (parentLevels.length && parentLevels[parentLevels.length - 1] >= entry.level) {
+			parentLevels.pop();
+		}
+		const depth = parentLevels.length;
+		parentLevels.push(entry.level);
+
+		counters.length = depth + 1;
+		counters[depth] = (counters[depth] ?? 0) + 1;
+
+		const marker = options.ordered ? `${counters[depth]}.` : '-';
+		const text = entry.text.replace(/[\\[\]]/g, '\\$&');
+		lines.push(`${' '.repeat(depth * indentSize)}${marker} [${text}](#${entry.slug.value})`);
+	}
+
+	return lines;
+}
+
+/**
+ * Get the edit that brings an existing table of contents block up to date.
+ *
+ * @returns The edit or `undefined` if the block is already up to date.
+ */
+function getUpdateTocBlockEdit(doc: ITextDocument, block: TocBlock, toc: TableOfContents, options: TocBlockOptions): lsp.TextEdit | undefined {
+	const lines = renderTocLines(toc, options);
+	if (typeof block.endLine === 'undefined') {
+		return lsp.TextEdit.insert(lsp.Position.create(block.startLine + 1, 0), [...lines, tocEndMarker, ''].join('\n'));
+	}
+
+	const existingLines: string[] = [];
+	for (let i = block.startLine + 1; i < block.endLine; ++i) {
+		existingLines.push(getLine(doc, i).trimEnd());
+	}
+
+	if (existingLines.length === lines.length && existingLines.every((line, i) => line === lines[i])) {
+		return undefined;
+	}
+
+	return lsp.TextEdit.replace(
+		lsp.Range.create(block.startLine + 1, 0, block.endLine, 0),
+		lines.map(line => line + '\n').join(''));
+}
+
+/**
+ * Check if the table of contents block in a document no longer matches the headers of the document.
+ *
+ * @returns The full range of the out of date block, from the start marker to the end marker, along with the edit that
+ * updates it. Returns `undefined` if the document has no table of contents block or if the block is up to date.
+ */
+export function getOutOfDateTocBlock(doc: ITextDocument, toc: TableOfContents, options: TocBlockOptions): { readonly range: lsp.Range; readonly edit: lsp.TextEdit } | undefined {
+	const block = findTocBlock(doc);
+	if (!block) {
+		return undefined;
+	}
+
+	const edit = getUpdateTocBlockEdit(doc, block, toc, options);
+	if (!edit) {
+		return undefined;
+	}
+
+	const endLine = block.endLine ?? block.startLine;
+	return {
+		range: lsp.Range.create(block.startLine, 0, endLine, getLine(doc, endLine).length),
+		edit,
+	};
+}
+
+export class MdTocBlockProvider {
+
+	readonly #tocProvider: MdTableOfContentsProvider;
+
+	constructor(tocProvider: MdTableOfContentsProvider) {
+		this.#tocProvider = tocProvider;
+	}
+
+	/**
+	 * Get the edits to refresh the `<!-- toc -->` block in a document.
+	 *
+	 * If the document does not have a table of contents block yet, a new block is inserted at the start of `position`'s line.
+	 */
+	async getTableOfContentsEdits(doc: ITextDocument, position: lsp.Position, options: TocBlockOptions, token: lsp.CancellationToken): Promise<lsp.TextEdit[]> {
+		const toc = await this.#tocProvider.getForDocument(doc);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+
+		const block = findTocBlock(doc);
+		if (block) {
+			const edit = getUpdateTocBlockEdit(doc, block, toc, options);
+			return edit ? [edit] : [];
+		}
+
+		const lines = renderTocLines(toc, options);
+		return [lsp.TextEdit.insert(lsp.Position.create(position.line, 0), [tocStartMarker, ...lines, tocEndMarker, ''].join('\n'))];
+	}
+}
@@ -5,7 +5,7 @@
 import * as lsp from 'vscode-languageserver-protocol';
 import { URI } from 'vscode-uri';
 import { LsConfiguration } from '../config';
-import { HrefKind, LinkDefinitionSet, MdLinkDefinition } from '../types/documentLink';
+import { HrefKind, LinkDefinitionSet, MdLinkDefinition, MdLinkKind } from '../types/documentLink';
 import { InMemoryDocument, tempDocVersion } from '../types/inMemoryDocument';
 import { isBefore, isBeforeOrEqual } from '../types/position';
 import { rangeContains } from '../types/range';
@@ -100,6 +100,7 @@ export class MdUpdatePastedLinksProvider {
                     return true;
                 }
                 return link.href.kind === HrefKind.Internal
+                    && link.kind !== MdLinkKind.WikiLink // Wiki links are resolved by name so they never need to be rewritten
                     && !link.source.hrefText.startsWith('/') // No need to rewrite absolute paths
                     && link.href.path.scheme === metadata.source.scheme && link.href.path.authority === metadata.source.authority; // Only rewrite links that are in the same workspace
             })
@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as lsp from 'vscode-languageserver-protocol';
+import { parseFrontMatter } from '../frontMatter';
 import { ITextDocument } from '../types/textDocument';
 import { Disposable } from '../util/dispose';
 import { fuzzyContains } from '../util/string';
@@ -43,11 +44,28 @@ export class MdWorkspaceSymbolProvider extends Disposable {
 		if (token.isCancellationRequested) {
 			return [];
 		}
-		return Array.from(this.#toSymbolInformation(document.uri, docSymbols));
+
+		const symbols = Array.from(this.#toSymbolInformation(document.uri, docSymbols));
+
+		// Use the front matter title as the name of the document itself
+		const frontMatter = parseFrontMatter(document);
+		if (frontMatter?.title) {
+			symbols.unshift({
+				name: frontMatter.title,
+				kind: lsp.SymbolKind.File,
+				location: { uri: document.uri, range: frontMatter.range },
+			});
+		}
+		return symbols;
 	}
 
 	*#toSymbolInformation(uri: string, docSymbols: readonly lsp.DocumentSymbol[]): Iterable<lsp.SymbolInformation> {
 		for (const symbol of docSymbols) {
+			if (symbol.kind === lsp.SymbolKind.Module) {
+				// Front matter is added separately using its title
+				continue;
+			}
+
 			yield {
 				name: symbol.name,
 				kind: lsp.SymbolKind.String,
@@ -84,3 +84,126 @@ export const githubSlugifier: ISlugifier = new class implements ISlugifier {
 		};
 	}
 };
+
+class Slug implements ISlug {
+	public constructor(
+		public readonly value: string
+	) { }
+
+	public equals(other: ISlug): boolean {
+		return other instanceof Slug && this.value === other.value;
+	}
+}
+
+/**
+ * Create a slug builder that appends `-1`, `-2`, ... to the slugs of duplicate headings.
+ *
+ * @param skipExisting Should generated suffixes also skip over slugs that are already in use, such as `a-1` from a
+ * heading named `a-1`? Renderers disagree on this.
+ */
+function createSuffixedSlugBuilder(slugifier: ISlugifier, skipExisting: boolean) {
+	const counts = new Map<string, number>();
+	const used = new Set<string>();
+	return {
+		add: (heading: string): ISlug => {
+			const slug = slugifier.fromHeading(heading);
+
+			let value = slug.value;
+			let count = counts.get(slug.value);
+			if (typeof count === 'number' || (skipExisting && used.has(value))) {
+				count ??= 0;
+				do {
+					value = slug.value + '-' + ++count;
+				} while (skipExisting && used.has(value));
+			}
+
+			counts.set(slug.value, count ?? 0);
+			used.add(value);
+			return value === slug.value ? slug : new Slug(value);
+		}
+	};
+}
+
+/**
+ * A {@link ISlugifier slugifier} that matches how GitLab generates header ids.
+ *
+ * Punctuation is removed, spaces become `-`, and runs of `-` are collapsed.
+ */
+export const gitlabSlugifier: ISlugifier = new class implements ISlugifier {
+	fromHeading(heading: string): ISlug {
+		const slugifiedHeading = heading.trim()
+			.toLowerCase()
+			.replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, '')
+			.replace(/ /g, '-')
+			.replace(/-+/g, '-');
+
+		return new Slug(slugifiedHeading);
+	}
+
+	fromFragment(fragmentText: string): ISlug {
+		return new Slug(fragmentText.toLowerCase());
+	}
+
+	createBuilder() {
+		return createSuffixedSlugBuilder(this, false);
+	}
+};
+
+/**
+ * A {@link ISlugifier slugifier} that matches how Azure DevOps wikis generate header ids.
+ *
+ * Spaces become `-` and all other special characters are kept but percent encoded.
+ */
+export const azureDevOpsSlugifier: ISlugifier = new class implements ISlugifier {
+	fromHeading(heading: string): ISlug {
+		return new Slug(encodeURIComponent(heading.trim().toLowerCase().replace(/\s+/g, '-')));
+	}
+
+	fromFragment(fragmentText: string): ISlug {
+		// Fragments may be written either encoded or not
+		let decoded = fragmentText;
+		try {
+			decoded = decodeURIComponent(fragmentText);
+		} catch {
+			// noop
+		}
+		return new Slug(encodeURIComponent(decoded.toLowerCase()));
+	}
+
+	createBuilder() {
+		return createSuffixedSlugBuilder(this, false);
+	}
+};
+
+/**
+ * A {@link ISlugifier slugifier} that matches how Docusaurus generates header ids.
+ *
+ * Docusaurus uses `github-slugger` so this is the same as the {@link githubSlugifier}.
+ */
+export const docusaurusSlugifier: ISlugifier = githubSlugifier;
+
+/**
+ * A {@link ISlugifier slugifier} that matches Pandoc's `auto_identifiers` extension.
+ *
+ * Everything except letters, numbers, `_`, `-`, and `.` is removed, and ids always start with a letter. Headings
+ * without any letters use the id `section`.
+ */
+export const pandocSlugifier: ISlugifier = new class implements ISlugifier {
+	fromHeading(heading: string): ISlug {
+		const slugifiedHeading = heading.trim()
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}_\-.\s]/gu, '')
+			.replace(/\s+/g, '-')
+			.replace(/^[^\p{L}]+/u, '');
+
+		return new Slug(slugifiedHeading || 'section');
+	}
+
+	fromFragment(fragmentText: string): ISlug {
+		return new Slug(fragmentText.toLowerCase());
+	}
+
+	createBuilder() {
+		return createSuffixedSlugBuilder(this, true);
+	}
+};
@@ -5,6 +5,8 @@
 
 import * as lsp from 'vscode-languageserver-protocol';
 import { URI } from 'vscode-uri';
+import { getSlugifierForDocument, LsConfiguration } from './config';
+import { isInFrontMatter, parseFrontMatter } from './frontMatter';
 import { ILogger, LogLevel } from './logging';
 import { IMdParser, Token } from './parser';
 import { ISlug, ISlugifier } from './slugify';
@@ -66,41 +68,84 @@ export interface TocEntry {
 	 * This is the range of `Head`
 	 */
 	readonly headerTextLocation: lsp.Location;
+
+	/**
+	 * The explicit id of the header, if any.
+	 *
+	 * For the doc:
+	 *
+	 * ```md
+	 * # Head {#custom-id}
+	 * ```
+	 *
+	 * This is `custom-id` and its range. Headers with an explicit id use it as their slug.
+	 */
+	readonly explicitId?: { readonly id: string; readonly location: lsp.Location };
+}
+
+/**
+ * An html element that can be linked to using its `id` attribute, or the `name` attribute of an `<a>` element.
+ *
+ * For example: `<a id="anchor"></a>`
+ */
+export interface TocAnchor {
+	readonly slug: ISlug;
+
+	/**
+	 * The value of the `id` or `name` attribute.
+	 */
+	readonly id: string;
+
+	readonly line: number;
+
+	/**
+	 * The range of the attribute value.
+	 */
+	readonly location: lsp.Location;
 }
 
+const explicitHeaderIdPattern = /\s*\{\s*#([^\s}]+)[^}]*\}\s*$/;
+
+const htmlTagPattern = /<([a-z][\w-]*)(\s[^<>]*)>/gi;
+
+const htmlAnchorAttributePattern = /(\s)(id|name)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/gi;
+
 export class TableOfContents {
 
-	public static async create(parser: IMdParser, document: ITextDocument, token: lsp.CancellationToken): Promise<TableOfContents> {
-		const entries = await this.#buildToc(parser, document, token);
-		return new TableOfContents(entries, parser.slugifier);
+	/**
+	 * @param slugifier Slugifier used for the headers of the document. Defaults to the slugifier of the parser.
+	 */
+	public static async create(parser: IMdParser, document: ITextDocument, token: lsp.CancellationToken, slugifier = parser.slugifier): Promise<TableOfContents> {
+		const { entries, anchors } = await this.#buildToc(parser, document, slugifier, token);
+		return new TableOfContents(entries, anchors, slugifier);
 	}
 
-	public static async createForContainingDoc(parser: IMdParser, workspace: IWorkspace, document: ITextDocument, token: lsp.CancellationToken): Promise<TableOfContents> {
+	public static async createForContainingDoc(parser: IMdParser, workspace: IWorkspace, document: ITextDocument, token: lsp.CancellationToken, slugifier = parser.slugifier): Promise<TableOfContents> {
 		const context = workspace.getContainingDocument?.(getDocUri(document));
 		if (context) {
-			const entries = (await Promise.all(Array.from(context.children, async cell => {
+			const cells = await Promise.all(Array.from(context.children, async cell => {
 				const doc = await workspace.openMarkdownDocument(cell.uri);
 				if (!doc || token.isCancellationRequested) {
-					return [];
+					return { entries: [], anchors: [] };
 				}
-				return this.#buildToc(parser, doc, token);
-			}))).flat();
-			return new TableOfContents(entries, parser.slugifier);
+				return this.#buildToc(parser, doc, slugifier, token);
+			}));
+			return new TableOfContents(cells.flatMap(cell => cell.entries), cells.flatMap(cell => cell.anchors), slugifier);
 		}
 
-		return this.create(parser, document, token);
+		return this.create(parser, document, token, slugifier);
 	}
 
-	static async #buildToc(parser: IMdParser, document: ITextDocument, token: lsp.CancellationToken): Promise<TocEntry[]> {
+	static async #buildToc(parser: IMdParser, document: ITextDocument, slugifier: ISlugifier, token: lsp.CancellationToken): Promise<{ entries: TocEntry[]; anchors: TocAnchor[] }> {
 		const docUri = getDocUri(document);
 
 		const toc: TocEntry[] = [];
 		const tokens = await parser.tokenize(document);
 		if (token.isCancellationRequested) {
-			return [];
+			return { entries: [], anchors: [] };
 		}
 
-		const slugBuilder = parser.slugifier.createBuilder();
+		const slugBuilder = slugifier.createBuilder();
 
 		type HeaderInfo = { open: Token; body: Token[] };
 
@@ -125,15 +170,39 @@ export class TableOfContents {
 			}
 		}
 
+		// Parsers without front matter support may treat the front matter block as a setext header
+		const frontMatter = parseFrontMatter(document);
+
 		for (const { open, body } of headers) {
-			if (!open.map) {
+			if (!open.map || isInFrontMatter(frontMatter, open.map[0])) {
 				continue;
 			}
 
 			const lineNumber = open.map[0];
 			const line = getLine(document, lineNumber);
-			const bodyText = TableOfContents.#getHeaderTitleAsPlainText(body);
-			const slug = slugBuilder.add(bodyText);
+			let bodyText = TableOfContents.#getHeaderTitleAsPlainText(body);
+
+			let textEnd = line.length - (line.match(/\s*#*$/)?.[0].length ?? 0);
+
+			// Explicit ids, such as `# Header {#id}`, replace the generated slug
+			let explicitId: TocEntry['explicitId'];
+			const explicitIdMatch = bodyText.match(explicitHeaderIdPattern);
+			const explicitIdLineMatch = explicitIdMatch ? line.slice(0, textEnd).match(explicitHeaderIdPattern) : undefined;
+			if (explicitIdMatch && explicitIdLineMatch?.index !== undefined) {
+				bodyText = bodyText.slice(0, explicitIdMatch.index);
+				textEnd = explicitIdLineMatch.index;
+
+				const idStart = textEnd + explicitIdLineMatch[0].indexOf('#') + 1;
+				explicitId = {
+					id: explicitIdLineMatch[1],
+					location: {
+						uri: docUri.toString(),
+						range: lsp.Range.create(lineNumber, idStart, lineNumber, idStart + explicitIdLineMatch[1].length)
+					},
+				};
+			}
+
+			const slug = explicitId ? slugifier.fromFragment(explicitId.id) : slugBuilder.add(bodyText);
 
 			const headerLocation: lsp.Location = {
 				uri: docUri.toString(),
@@ -142,7 +211,7 @@ export class TableOfContents {
 
 			const headerTextLocation: lsp.Location = {
 				uri: docUri.toString(),
-				range: lsp.Range.create(lineNumber, line.match(/^#+\s*/)?.[0].length ?? 0, lineNumber, line.length - (line.match(/\s*#*$/)?.[0].length ?? 0))
+				range: lsp.Range.create(lineNumber, line.match(/^#+\s*/)?.[0].length ?? 0, lineNumber, textEnd)
 			};
 
 			toc.push({
@@ -152,12 +221,15 @@ export class TableOfContents {
 				line: lineNumber,
 				sectionLocation: headerLocation, // Populated in next steps
 				headerLocation,
-				headerTextLocation
+				headerTextLocation,
+				explicitId,
 			});
 		}
 
+		const anchors = TableOfContents.#getHtmlAnchors(document, tokens, slugifier);
+
 		// Get full range of section
-		return toc.map((entry, startIndex): TocEntry => {
+		const entries = toc.map((entry, startIndex): TocEntry => {
 			let end: number | undefined = undefined;
 			for (let i = startIndex + 1; i < toc.length; ++i) {
 				if (toc[i].level <= entry.level) {
@@ -176,6 +248,77 @@ export class TableOfContents {
 				}
 			};
 		});
+
+		return { entries, anchors };
+	}
+
+	/**
+	 * Find all html elements with an `id`, or `<a>` elements with a `name`.
+	 */
+	static #getHtmlAnchors(document: ITextDocument, tokens: readonly Token[], slugifier: ISlugifier): TocAnchor[] {
+		const docUri = getDocUri(document);
+		const anchors: TocAnchor[] = [];
+
+		const addAnchorsInHtml = (html: string, startLine: number, startCharacter: number) => {
+			for (const tagMatch of html.matchAll(htmlTagPattern)) {
+				const isLinkTag = tagMatch[1].toLowerCase() === 'a';
+				for (const attrMatch of tagMatch[2].matchAll(htmlAnchorAttributePattern)) {
+					if (attrMatch[2].toLowerCase() === 'name' && !isLinkTag) {
+						continue;
+					}
+
+					const id = attrMatch[3] ?? attrMatch[4] ?? attrMatch[5];
+					if (!id) {
+						continue;
+					}
+
+					const valueOffset = tagMatch.index! + 1 + tagMatch[1].length + attrMatch.index! + attrMatch[0].lastIndexOf(id);
+					const prefix = html.slice(0, valueOffset);
+					const lineDelta = prefix.split('\n').length - 1;
+					const character = lineDelta === 0 ? startCharacter + prefix.length : prefix.length - prefix.lastIndexOf('\n') - 1;
+					const line = startLine + lineDelta;
+					anchors.push({
+						slug: slugifier.fromFragment(id),
+						id,
+						line,
+						location: { uri: docUri.toString(), range: lsp.Range.create(line, character, line, character + id.length) },
+					});
+				}
+			}
+		};
+
+		for (const token of tokens) {
+			if (!token.map) {
+				continue;
+			}
+
+			if (token.type === 'html_block') {
+				const lines: string[] = [];
+				for (let i = token.map[0]; i < token.map[1]; ++i) {
+					lines.push(getLine(document, i));
+				}
+				addAnchorsInHtml(lines.join('\n'), token.map[0], 0);
+			} else if (token.type === 'inline' && token.children?.some(child => child.type === 'html_inline')) {
+				// Find the position of each inline html element by searching the lines of the inline block in order
+				let line = token.map[0];
+				let character = 0;
+				for (const child of token.children) {
+					if (child.type !== 'html_inline') {
+						continue;
+					}
+
+					for (; line < token.map[1]; ++line, character = 0) {
+						const index = getLine(document, line).indexOf(child.content, character);
+						if (index >= 0) {
+							addAnchorsInHtml(child.content, line, index);
+							character = index + child.content.length;
+							break;
+						}
+					}
+				}
+			}
+		}
+		return anchors;
 	}
 
 	static #getHeaderLevel(markup: string): number {
@@ -214,6 +357,7 @@ export class TableOfContents {
 
 	private constructor(
 		public readonly entries: readonly TocEntry[],
+		public readonly anchors: readonly TocAnchor[],
 		slugifier: ISlugifier,
 	) {
 		this.#slugifier = slugifier;
@@ -224,6 +368,16 @@ export class TableOfContents {
 		return this.entries.find(entry => entry.slug.equals(slug));
 	}
 
+	/**
+	 * Find the {@link TocAnchor html anchor} that a fragment links to.
+	 *
+	 * Headers take precedence over anchors so this should only be used if {@link lookupByFragment} does not find a header.
+	 */
+	public lookupAnchorByFragment(fragmentText: string): TocAnchor | undefined {
+		const slug = this.#slugifier.fromFragment(fragmentText);
+		return this.anchors.find(anchor => anchor.slug.equals(slug));
+	}
+
 	public lookupByHeading(text: string): TocEntry | undefined {
 		const slug = this.#slugifier.fromHeading(text);
 		return this.entries.find(entry => entry.slug.equals(slug));
@@ -238,21 +392,28 @@ export class MdTableOfContentsProvider extends Disposable {
 	readonly #parser: IMdParser;
 	readonly #workspace: IWorkspace;
 	readonly #logger: ILogger;
+	readonly #configuration?: LsConfiguration;
 
+	/**
+	 * @param configuration Used to pick the slugifier for each document. If not provided, the slugifier of the parser
+	 * is used for all documents.
+	 */
 	constructor(
 		parser: IMdParser,
 		workspace: IWorkspace,
 		logger: ILogger,
+		configuration?: LsConfiguration,
 	) {
 		super();
 
 		this.#parser = parser;
 		this.#workspace = workspace;
 		this.#logger = logger;
+		this.#configuration = configuration;
 
 		this.#cache = this._register(new MdDocumentInfoCache<TableOfContents>(workspace, (doc, token) => {
 			this.#logger.log(LogLevel.Debug, 'TableOfContentsProvider.create', { document: doc.uri, version: doc.version });
-			return TableOfContents.create(parser, doc, token);
+			return TableOfContents.create(parser, doc, token, this.#getSlugifier(doc));
 		}));
 	}
 
@@ -265,6 +426,10 @@ export class MdTableOfContentsProvider extends Disposable {
 	}
 
 	public getForContainingDoc(doc: ITextDocument, token: lsp.CancellationToken): Promise<TableOfContents> {
-		return TableOfContents.createForContainingDoc(this.#parser, this.#workspace, doc, token);
+		return TableOfContents.createForContainingDoc(this.#parser, this.#workspace, doc, token, this.#getSlugifier(doc));
+	}
+
+	#getSlugifier(doc: ITextDocument): ISlugifier {
+		return this.#configuration ? getSlugifierForDocument(this.#configuration, this.#parser.slugifier, getDocUri(doc)) : this.#parser.slugifier;
 	}
 }
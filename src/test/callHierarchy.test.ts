@@ -0,0 +1,145 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../config';
+import { MdCallHierarchyProvider } from '../languageFeatures/callHierarchy';
+import { createWorkspaceLinkCache, MdLinkProvider } from '../languageFeatures/documentLinks';
+import { MdReferencesProvider } from '../languageFeatures/references';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { assertRangeEqual, DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+
+function createCallHierarchyProvider(store: DisposableStore, workspace: InMemoryWorkspace): MdCallHierarchyProvider {
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const linkCache = store.add(createWorkspaceLinkCache(engine, workspace));
+	const referencesProvider = store.add(new MdReferencesProvider(config, engine, workspace, tocProvider, linkCache, nulLogger));
+	return new MdCallHierarchyProvider(config, workspace, tocProvider, linkProvider, referencesProvider, nulLogger);
+}
+
+async function prepare(provider: MdCallHierarchyProvider, doc: InMemoryDocument, pos: lsp.Position): Promise<lsp.CallHierarchyItem> {
+	const items = await provider.prepareCallHierarchy(doc, pos, noopToken);
+	assert.strictEqual(items.length, 1);
+	return items[0];
+}
+
+suite('Call hierarchy', () => {
+
+	test('Should prepare document item when not on a header', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A`,
+			`text`,
+		));
+		const provider = createCallHierarchyProvider(store, store.add(new InMemoryWorkspace([doc])));
+
+		const item = await prepare(provider, doc, lsp.Position.create(1, 0));
+		assert.strictEqual(item.kind, lsp.SymbolKind.File);
+		assert.strictEqual(item.name, 'doc.md');
+		assert.strictEqual(item.uri, doc.uri);
+	}));
+
+	test('Should prepare header item when on a header', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A`,
+			`text`,
+			`## B`,
+			`text`,
+		));
+		const provider = createCallHierarchyProvider(store, store.add(new InMemoryWorkspace([doc])));
+
+		const item = await prepare(provider, doc, lsp.Position.create(2, 1));
+		assert.strictEqual(item.kind, lsp.SymbolKind.String);
+		assert.strictEqual(item.name, '## B');
+		assertRangeEqual(item.range, lsp.Range.create(2, 0, 3, 4));
+		assertRangeEqual(item.selectionRange, lsp.Range.create(2, 3, 2, 4));
+	}));
+
+	test('Should find incoming links to document grouped by containing section', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `# Doc`);
+		const other = new InMemoryDocument(workspacePath('other.md'), joinLines(
+			`[intro](./doc.md)`,
+			`# A`,
+			`[a1](./doc.md) [a2](/doc.md#doc)`,
+			`## B`,
+			`[b](./doc)`,
+		));
+		const provider = createCallHierarchyProvider(store, store.add(new InMemoryWorkspace([doc, other])));
+
+		const item = await prepare(provider, doc, lsp.Position.create(1, 0));
+		const calls = await provider.getIncomingCalls(item, noopToken);
+		assert.deepStrictEqual(calls.map(call => [call.from.name, call.fromRanges.length]), [
+			['other.md', 1],
+			['# A', 2],
+			['## B', 1],
+		]);
+		assertRangeEqual(calls[0].fromRanges[0], lsp.Range.create(0, 0, 0, 17));
+	}));
+
+	test('Should find incoming links to header', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A`,
+			`# B`,
+		));
+		const other = new InMemoryDocument(workspacePath('other.md'), joinLines(
+			`[a](./doc.md#a)`,
+			`[b](./doc.md#b)`,
+			`[ref]`,
+			``,
+			`[ref]: ./doc.md#b`,
+		));
+		const provider = createCallHierarchyProvider(store, store.add(new InMemoryWorkspace([doc, other])));
+
+		const item = await prepare(provider, doc, lsp.Position.create(1, 0));
+		const calls = await provider.getIncomingCalls(item, noopToken);
+		assert.strictEqual(calls.length, 1);
+		assert.strictEqual(calls[0].from.uri, other.uri);
+		assert.deepStrictEqual(calls[0].fromRanges.map(range => range.start.line), [1, 4]);
+	}));
+
+	test('Should find outgoing links to documents and headers', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A`,
+			`[other](./other.md) [other again](./other)`,
+			`[x](./other.md#x) [ref]`,
+			`[img](./img.png) [missing](./missing.md) [external](https://example.com)`,
+			`# B`,
+			`[y](./other.md#y)`,
+			``,
+			`[ref]: ./other.md#x`,
+		));
+		const other = new InMemoryDocument(workspacePath('other.md'), joinLines(
+			`# X`,
+			`# Y`,
+		));
+		const provider = createCallHierarchyProvider(store, store.add(new InMemoryWorkspace([doc, other])));
+
+		{
+			const item = await prepare(provider, doc, lsp.Position.create(0, 0));
+			const calls = await provider.getOutgoingCalls(item, noopToken);
+			assert.deepStrictEqual(calls.map(call => [call.to.name, call.fromRanges.length]), [
+				['other.md', 2],
+				['# X', 2],
+			]);
+		}
+		{
+			const item = await prepare(provider, doc, lsp.Position.create(6, 0));
+			const calls = await provider.getOutgoingCalls(item, noopToken);
+			assert.deepStrictEqual(calls.map(call => [call.to.name, call.fromRanges.length]), [
+				['other.md', 2],
+				['# X', 2],
+				['# Y', 1],
+			]);
+		}
+	}));
+});
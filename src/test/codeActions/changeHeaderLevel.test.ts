@@ -0,0 +1,93 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../../config';
+import { MdChangeHeaderLevelCodeActionProvider } from '../../languageFeatures/codeActions/changeHeaderLevel';
+import { DiagnosticComputer, DiagnosticLevel } from '../../languageFeatures/diagnostics';
+import { MdLinkProvider } from '../../languageFeatures/documentLinks';
+import { MdTableOfContentsProvider } from '../../tableOfContents';
+import { InMemoryDocument } from '../../types/inMemoryDocument';
+import { noopToken } from '../../util/cancellation';
+import { createNewMarkdownEngine } from '../engine';
+import { InMemoryWorkspace } from '../inMemoryWorkspace';
+import { nulLogger } from '../nulLogging';
+import { applyActionEdit, defaultDiagnosticsOptions, DisposableStore, joinLines, withStore, workspacePath } from '../util';
+
+async function getActions(store: DisposableStore, doc: InMemoryDocument, pos: lsp.Position): Promise<lsp.CodeAction[]> {
+	const workspace = store.add(new InMemoryWorkspace([doc]));
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const computer = new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger);
+
+	const { diagnostics } = await computer.compute(doc, {
+		...defaultDiagnosticsOptions,
+		validateHeaderLevelIncrements: DiagnosticLevel.warning,
+		validateMultipleTopLevelHeaders: DiagnosticLevel.warning,
+	}, noopToken);
+
+	const provider = new MdChangeHeaderLevelCodeActionProvider();
+	return Array.from(
+		provider.getActions(doc, lsp.Range.create(pos, pos), lsp.CodeActionContext.create(diagnostics, undefined, undefined))
+	);
+}
+
+
+suite('Change header level code action', () => {
+	test('Should not return code action for valid header', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`# a`,
+			`## b`,
+		));
+		const actions = await getActions(store, doc, { line: 1, character: 3 });
+		assert.strictEqual(actions.length, 0);
+	}));
+
+	test('Should promote header that skips a level', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`# a`,
+			`#### b ####`,
+		));
+		const actions = await getActions(store, doc, { line: 1, character: 6 });
+		assert.strictEqual(actions.length, 1);
+		assert.strictEqual(actions[0].title, 'Promote header to level 2');
+
+		const newContent = applyActionEdit(doc, actions[0]);
+		assert.strictEqual(newContent, joinLines(
+			`# a`,
+			`## b ####`,
+		));
+	}));
+
+	test('Should demote extra top level header', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`# a`,
+			`  # b`,
+		));
+		const actions = await getActions(store, doc, { line: 1, character: 3 });
+		assert.strictEqual(actions.length, 1);
+		assert.strictEqual(actions[0].title, 'Demote header to level 2');
+
+		const newContent = applyActionEdit(doc, actions[0]);
+		assert.strictEqual(newContent, joinLines(
+			`# a`,
+			`  ## b`,
+		));
+	}));
+
+	test('Should not return code action for setext header', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`# a`,
+			``,
+			`b`,
+			`===`,
+		));
+		const actions = await getActions(store, doc, { line: 2, character: 0 });
+		assert.strictEqual(actions.length, 0);
+	}));
+});
@@ -0,0 +1,155 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { MdEditTableCodeActionProvider } from '../../languageFeatures/codeActions/editTable';
+import { MdTableFormattingProvider } from '../../languageFeatures/tableFormatting';
+import { InMemoryDocument } from '../../types/inMemoryDocument';
+import { noopToken } from '../../util/cancellation';
+import { createNewMarkdownEngine } from '../engine';
+import { nulLogger } from '../nulLogging';
+import { applyActionEdit, joinLines, workspacePath } from '../util';
+
+
+async function getActions(doc: InMemoryDocument, pos: lsp.Position): Promise<lsp.CodeAction[]> {
+	const provider = new MdEditTableCodeActionProvider(new MdTableFormattingProvider(createNewMarkdownEngine(), nulLogger));
+	return provider.getActions(doc, lsp.Range.create(pos, pos), lsp.CodeActionContext.create([], undefined, undefined), noopToken);
+}
+
+async function applyAction(doc: InMemoryDocument, pos: lsp.Position, title: string): Promise<string> {
+	const actions = await getActions(doc, pos);
+	const action = actions.find(action => action.title === title);
+	assert.ok(action, `Could not find action '${title}'`);
+	return applyActionEdit(doc, action);
+}
+
+const testTable = joinLines(
+	`| a | b |`,
+	`|---|--:|`,
+	`| 2 | x |`,
+	`| 10 | y |`,
+	`| 1 | z |`,
+);
+
+suite('Edit table code actions', () => {
+	test('Should not return actions outside of tables', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`text`,
+			``,
+			testTable,
+		));
+		assert.deepStrictEqual(await getActions(doc, lsp.Position.create(0, 1)), []);
+	});
+
+	test('Should only return applicable actions', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), testTable);
+
+		const headerActions = await getActions(doc, lsp.Position.create(0, 2));
+		assert.deepStrictEqual(headerActions.map(action => action.title), [
+			'Insert column to the left',
+			'Insert column to the right',
+			'Delete column',
+			'Move column right',
+			'Insert row below',
+			'Sort table by column ascending',
+			'Sort table by column descending',
+		]);
+
+		const lastRowActions = await getActions(doc, lsp.Position.create(4, 6));
+		assert.deepStrictEqual(lastRowActions.map(action => action.title), [
+			'Insert column to the left',
+			'Insert column to the right',
+			'Delete column',
+			'Move column left',
+			'Insert row above',
+			'Insert row below',
+			'Delete row',
+			'Move row up',
+			'Sort table by column ascending',
+			'Sort table by column descending',
+		]);
+	});
+
+	test('Should insert and delete columns', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), testTable);
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(2, 6), 'Insert column to the left'), joinLines(
+			`| a   |     |   b |`,
+			`|-----|-----|----:|`,
+			`| 2   |     |   x |`,
+			`| 10  |     |   y |`,
+			`| 1   |     |   z |`,
+		));
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(2, 2), 'Delete column'), joinLines(
+			`|   b |`,
+			`|----:|`,
+			`|   x |`,
+			`|   y |`,
+			`|   z |`,
+		));
+	});
+
+	test('Should move columns and keep their alignment', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), testTable);
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(0, 2), 'Move column right'), joinLines(
+			`|   b | a   |`,
+			`|----:|-----|`,
+			`|   x | 2   |`,
+			`|   y | 10  |`,
+			`|   z | 1   |`,
+		));
+	});
+
+	test('Should insert, delete, and move rows', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), testTable);
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(0, 2), 'Insert row below'), joinLines(
+			`| a   |   b |`,
+			`|-----|----:|`,
+			`|     |     |`,
+			`| 2   |   x |`,
+			`| 10  |   y |`,
+			`| 1   |   z |`,
+		));
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(3, 2), 'Delete row'), joinLines(
+			`| a   |   b |`,
+			`|-----|----:|`,
+			`| 2   |   x |`,
+			`| 1   |   z |`,
+		));
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(2, 2), 'Move row down'), joinLines(
+			`| a   |   b |`,
+			`|-----|----:|`,
+			`| 10  |   y |`,
+			`| 2   |   x |`,
+			`| 1   |   z |`,
+		));
+	});
+
+	test('Should sort rows by column, comparing numbers by value', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), testTable);
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(2, 2), 'Sort table by column ascending'), joinLines(
+			`| a   |   b |`,
+			`|-----|----:|`,
+			`| 1   |   z |`,
+			`| 2   |   x |`,
+			`| 10  |   y |`,
+		));
+
+		assert.strictEqual(await applyAction(doc, lsp.Position.create(2, 6), 'Sort table by column descending'), joinLines(
+			`| a   |   b |`,
+			`|-----|----:|`,
+			`| 1   |   z |`,
+			`| 10  |   y |`,
+			`| 2   |   x |`,
+		));
+	});
+});
@@ -131,6 +131,26 @@ suite('Extract link definition code action', () => {
 		));
 	}));
 
+	test('Should add after definitions whose title is on the next line', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[text](./img.png)`,
+			``,
+			`[abc]: http://example.com`,
+			`"title"`,
+		));
+		const actions = await getActions(store, doc, { line: 0, character: 3 });
+		assertActiveActionCount(actions, 1);
+
+		const newContent = applyActionEdit(doc, actions[0]);
+		assert.strictEqual(newContent, joinLines(
+			`[text][def]`,
+			``,
+			`[abc]: http://example.com`,
+			`"title"`,
+			`[def]: ./img.png`
+		));
+	}));
+
 	test('Should use new placeholder if existing is already taken', withStore(async (store) => {
 		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
 			`[text](http://example.com?3)`,
@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../../config';
+import { MdFixPathCasingCodeActionProvider } from '../../languageFeatures/codeActions/fixPathCasing';
+import { DiagnosticComputer, DiagnosticLevel } from '../../languageFeatures/diagnostics';
+import { MdLinkProvider } from '../../languageFeatures/documentLinks';
+import { MdTableOfContentsProvider } from '../../tableOfContents';
+import { InMemoryDocument } from '../../types/inMemoryDocument';
+import { noopToken } from '../../util/cancellation';
+import { createNewMarkdownEngine } from '../engine';
+import { InMemoryWorkspace } from '../inMemoryWorkspace';
+import { nulLogger } from '../nulLogging';
+import { applyActionEdit, defaultDiagnosticsOptions, DisposableStore, joinLines, withStore, workspacePath } from '../util';
+
+async function getActions(store: DisposableStore, doc: InMemoryDocument, otherFiles: readonly InMemoryDocument[], pos: lsp.Position): Promise<lsp.CodeAction[]> {
+	const workspace = store.add(new InMemoryWorkspace([doc, ...otherFiles], { caseInsensitive: true }));
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const computer = new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger);
+
+	const { diagnostics } = await computer.compute(doc, {
+		...defaultDiagnosticsOptions,
+		validateFileLinkCasing: DiagnosticLevel.warning,
+	}, noopToken);
+
+	const provider = new MdFixPathCasingCodeActionProvider();
+	return Array.from(
+		provider.getActions(doc, lsp.Range.create(pos, pos), lsp.CodeActionContext.create(diagnostics, undefined, undefined))
+	);
+}
+
+
+suite('Fix path casing code action', () => {
+	test('Should not return code action for link with correct casing', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[a](./Guide.md)`,
+		));
+		const actions = await getActions(store, doc, [new InMemoryDocument(workspacePath('Guide.md'), '')], { line: 0, character: 6 });
+		assert.strictEqual(actions.length, 0);
+	}));
+
+	test('Should fix casing of file and folder names', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[a](./docs/Guide.md#intro)`,
+		));
+		const actions = await getActions(store, doc, [new InMemoryDocument(workspacePath('Docs', 'guide.md'), '')], { line: 0, character: 6 });
+		assert.strictEqual(actions.length, 1);
+		assert.strictEqual(actions[0].title, `Change path casing to './Docs/guide.md'`);
+
+		assert.strictEqual(applyActionEdit(doc, actions[0]), joinLines(
+			`[a](./Docs/guide.md#intro)`,
+		));
+	}));
+
+	test('Should fix casing of links without file extensions', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('sub', 'test.md'), joinLines(
+			`[a](../GUIDE)`,
+			``,
+			`[def]: ../GUIDE`,
+		));
+		const otherFiles = [new InMemoryDocument(workspacePath('guide.md'), '')];
+
+		const actions = await getActions(store, doc, otherFiles, { line: 0, character: 6 });
+		assert.strictEqual(actions.length, 1);
+		assert.strictEqual(applyActionEdit(doc, actions[0]), joinLines(
+			`[a](../guide)`,
+			``,
+			`[def]: ../GUIDE`,
+		));
+	}));
+});
@@ -0,0 +1,165 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../../config';
+import { MdInlineLinkDefinitionCodeActionProvider } from '../../languageFeatures/codeActions/inlineLinkDef';
+import { MdLinkProvider } from '../../languageFeatures/documentLinks';
+import { MdTableOfContentsProvider } from '../../tableOfContents';
+import { InMemoryDocument } from '../../types/inMemoryDocument';
+import { noopToken } from '../../util/cancellation';
+import { createNewMarkdownEngine } from '../engine';
+import { InMemoryWorkspace } from '../inMemoryWorkspace';
+import { nulLogger } from '../nulLogging';
+import { applyActionEdit, DisposableStore, joinLines, withStore, workspacePath } from '../util';
+
+async function getActions(store: DisposableStore, doc: InMemoryDocument, pos: lsp.Position): Promise<lsp.CodeAction[]> {
+	const workspace = store.add(new InMemoryWorkspace([doc]));
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const provider = new MdInlineLinkDefinitionCodeActionProvider(linkProvider);
+	return provider.getActions(doc, lsp.Range.create(pos, pos), lsp.CodeActionContext.create([], undefined, undefined), noopToken);
+}
+
+suite('Inline link definition code action', () => {
+	test('Should return disabled code action when not on reference link', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[text](./img.png)`
+		));
+		const actions = await getActions(store, doc, { line: 0, character: 3 });
+		assert.strictEqual(actions.length, 1);
+		assert.strictEqual(actions[0].disabled?.reason, MdInlineLinkDefinitionCodeActionProvider.notOnReferenceLinkAction.disabled!.reason!);
+	}));
+
+	test('Should return disabled code action when definition does not exist', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[text][ref]`
+		));
+		const actions = await getActions(store, doc, { line: 0, character: 3 });
+		assert.strictEqual(actions.length, 1);
+		assert.strictEqual(actions[0].disabled?.reason, MdInlineLinkDefinitionCodeActionProvider.noDefinitionAction.disabled!.reason!);
+	}));
+
+	test('Should inline reference link and remove unused definition', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`a [text][ref] b`,
+			``,
+			`[ref]: ./img.png`,
+			`[other]: http://example.com`,
+		));
+		const actions = await getActions(store, doc, { line: 0, character: 4 });
+		assert.strictEqual(actions.length, 1);
+
+		const newContent = applyActionEdit(doc, actions[0]);
+		assert.strictEqual(newContent, joinLines(
+			`a [text](./img.png) b`,
+			``,
+			`[other]: http://example.com`,
+		));
+	}));
+
+	test('Should inline shorthand and collapsed reference links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[ref] and [Ref][]`,
+			``,
+			`[ref]: http://example.com`,
+		));
+
+		{
+			const actions = await getActions(store, doc, { line: 0, character: 2 });
+			assert.strictEqual(actions.length, 2);
+			assert.strictEqual(applyActionEdit(doc, actions[0]), joinLines(
+				`[ref](http://example.com) and [Ref][]`,
+				``,
+				`[ref]: http://example.com`,
+			));
+		}
+		{
+			const actions = await getActions(store, doc, { line: 0, character: 12 });
+			assert.strictEqual(actions.length, 2);
+			assert.strictEqual(applyActionEdit(doc, actions[1]), joinLines(
+				`[ref](http://example.com) and [Ref](http://example.com)`,
+			));
+		}
+	}));
+
+	test('Should inline all uses of definition', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[a][ref] [b][ref]`,
+			`![img][REF]`,
+			``,
+			`[ref]: /img.png`,
+		));
+		const actions = await getActions(store, doc, { line: 0, character: 1 });
+		assert.strictEqual(actions.length, 2);
+		assert.strictEqual(actions[1].title, `Inline all uses of link definition 'ref'`);
+
+		assert.strictEqual(applyActionEdit(doc, actions[0]), joinLines(
+			`[a](/img.png) [b][ref]`,
+			`![img][REF]`,
+			``,
+			`[ref]: /img.png`,
+		));
+
+		assert.strictEqual(applyActionEdit(doc, actions[1]), joinLines(
+			`[a](/img.png) [b](/img.png)`,
+			`![img](/img.png)`,
+		));
+	}));
+
+	test('Should preserve definition title', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[text][ref]`,
+			``,
+			`[ref]: http://example.com "Some title"`,
+		));
+		const actions = await getActions(store, doc, { line: 0, character: 3 });
+		assert.strictEqual(applyActionEdit(doc, actions[0]), joinLines(
+			`[text](http://example.com "Some title")`,
+		));
+	}));
+
+	test('Should remove definitions whose title is on the next line', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[text][ref]`,
+			``,
+			`[ref]: http://example.com`,
+			`  "Some title"`,
+			`[other]: http://example.com/other`,
+		));
+		const actions = await getActions(store, doc, { line: 0, character: 3 });
+		assert.strictEqual(applyActionEdit(doc, actions[0]), joinLines(
+			`[text](http://example.com "Some title")`,
+			``,
+			`[other]: http://example.com/other`,
+		));
+	}));
+
+	test('Should use angle brackets when needed', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[a][ref1] [b][ref2]`,
+			``,
+			`[ref1]: <./path with space.md>`,
+			`[ref2]: ./unbalanced(paren.md`,
+		));
+
+		const actions1 = await getActions(store, doc, { line: 0, character: 1 });
+		assert.strictEqual(applyActionEdit(doc, actions1[0]), joinLines(
+			`[a](<./path with space.md>) [b][ref2]`,
+			``,
+			`[ref2]: ./unbalanced(paren.md`,
+		));
+
+		const actions2 = await getActions(store, doc, { line: 0, character: 11 });
+		assert.strictEqual(applyActionEdit(doc, actions2[0]), joinLines(
+			`[a][ref1] [b](<./unbalanced(paren.md>)`,
+			``,
+			`[ref1]: <./path with space.md>`,
+		));
+	}));
+});
@@ -109,6 +109,27 @@ suite('Remove link definition code action', () => {
 		));
 	}));
 
+	test('Should remove title on the line after unused definition', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`text`,
+			``,
+			`[def]: http://example.com`,
+			`"title"`,
+			``,
+			`more text`,
+		));
+		const actions = await getActions(store, doc, { line: 2, character: 3 });
+		assert.strictEqual(actions.length, 1);
+
+		const newContent = applyActionEdit(doc, actions[0]);
+		assert.strictEqual(newContent, joinLines(
+			`text`,
+			``,
+			``,
+			`more text`,
+		));
+	}));
+
 	test('Should return action when on duplicate definition', withStore(async (store) => {
 		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
 			`text`,
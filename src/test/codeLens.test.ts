@@ -0,0 +1,107 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../config';
+import { MdCodeLensProvider } from '../languageFeatures/codeLens';
+import { createWorkspaceLinkCache, MdLinkProvider } from '../languageFeatures/documentLinks';
+import { MdReferencesProvider } from '../languageFeatures/references';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { IWorkspace } from '../workspace';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { assertRangeEqual, DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+
+function createProvider(store: DisposableStore, workspace: IWorkspace): MdCodeLensProvider {
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const linkCache = store.add(createWorkspaceLinkCache(engine, workspace));
+	const referencesProvider = store.add(new MdReferencesProvider(config, engine, workspace, tocProvider, linkCache, nulLogger));
+	return new MdCodeLensProvider(workspace, tocProvider, linkProvider, referencesProvider, nulLogger);
+}
+
+suite('Code lens', () => {
+	test('Should return unresolved code lenses for headers and link definitions', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A b`,
+			`text`,
+			`[ref]: http://example.com`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const lenses = await createProvider(store, workspace).provideCodeLenses(doc, noopToken);
+		assert.strictEqual(lenses.length, 2);
+		assertRangeEqual(lenses[0].range, lsp.Range.create(0, 0, 0, 5));
+		assertRangeEqual(lenses[1].range, lsp.Range.create(2, 0, 2, 25));
+		assert.ok(lenses.every(lens => !lens.command));
+	}));
+
+	test('Should resolve reference counts', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A b`,
+			`## Other`,
+			`[x](#a-b) [w](#other)`,
+			``,
+			`[ref]: http://example.com`,
+			`[unused]: ./x.md`,
+			`[y][ref] [z][ref]`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('other.md'), `[o](./doc.md#a-b)`),
+		]));
+
+		const provider = createProvider(store, workspace);
+		const lenses = await provider.provideCodeLenses(doc, noopToken);
+		const resolved = await Promise.all(lenses.map(lens => provider.resolveCodeLens(lens, noopToken)));
+		assert.deepStrictEqual(resolved.map(lens => lens.command?.title), [
+			'2 references',
+			'1 reference',
+			'2 references',
+			'0 references',
+		]);
+	}));
+
+	test('Should resolve to command that shows the references', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A b`,
+			`[x](#a-b)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('other.md'), `[o](./doc.md#a-b)`),
+		]));
+
+		const provider = createProvider(store, workspace);
+		const [lens] = await provider.provideCodeLenses(doc, noopToken);
+		const { command } = await provider.resolveCodeLens(lens, noopToken);
+		assert.strictEqual(command?.command, 'vscodeMarkdownLanguageservice.showReferences');
+
+		const [uri, position, locations] = command.arguments as [string, lsp.Position, lsp.Location[]];
+		assert.strictEqual(uri, doc.uri);
+		assert.deepStrictEqual(position, lsp.Position.create(0, 0));
+		assert.deepStrictEqual(locations.map(location => location.uri).sort(), [doc.uri, workspacePath('other.md').toString()].sort());
+	}));
+
+	test('Should not resolve code lens when cancelled', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `# A b`);
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const provider = createProvider(store, workspace);
+		const lenses = await provider.provideCodeLenses(doc, noopToken);
+
+		const cts = new lsp.CancellationTokenSource();
+		cts.cancel();
+		const resolved = await provider.resolveCodeLens(lenses[0], cts.token);
+		assert.strictEqual(resolved.command, undefined);
+	}));
+});
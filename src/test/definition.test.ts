@@ -120,6 +120,21 @@ suite('Definitions', () => {
 		);
 	}));
 
+	test('Should find footnote definition from footnote reference', withStore(async (store) => {
+		const docUri = workspacePath('doc.md');
+		const doc = new InMemoryDocument(docUri, joinLines(
+			`text[^1]`, // trigger here
+			``,
+			`[^1]: Some note`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const defs = await getDefinition(store, doc, { line: 0, character: 6 }, workspace);
+		assertDefinitionsEqual(defs!,
+			{ uri: docUri, line: 2, startCharacter: 0, endCharacter: 15 },
+		);
+	}));
+
 	test('Should not find definition links across files', withStore(async (store) => {
 		const docUri = workspacePath('doc.md');
 		const doc = new InMemoryDocument(docUri, joinLines(
@@ -205,4 +220,24 @@ suite('Definitions', () => {
 		const def = await getDefinition(store, doc1, { line: 0, character: 2 }, workspace);
 		assert.strictEqual(def, undefined);
 	}));
+
+	test('Should find definition of explicit header ids and html anchors', withStore(async (store) => {
+		const docUri = workspacePath('doc.md');
+		const doc = new InMemoryDocument(docUri, joinLines(
+			`[a](#install)`,
+			`[b](#legacy-anchor)`,
+			`# Setup {#install}`,
+			`<a id="legacy-anchor"></a>`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		{
+			const defs = await getDefinition(store, doc, { line: 0, character: 6 }, workspace);
+			assertDefinitionsEqual(defs!, { uri: docUri, line: 2 });
+		}
+		{
+			const defs = await getDefinition(store, doc, { line: 1, character: 6 }, workspace);
+			assertDefinitionsEqual(defs!, { uri: docUri, line: 3, startCharacter: 7, endCharacter: 20 });
+		}
+	}));
 });
@@ -5,8 +5,10 @@
 
 import * as assert from 'assert';
 import * as lsp from 'vscode-languageserver-protocol';
-import { getLsConfiguration } from '../config';
-import { DiagnosticComputer, DiagnosticLevel, DiagnosticOptions, DiagnosticsManager } from '../languageFeatures/diagnostics';
+import { URI } from 'vscode-uri';
+import { getLsConfiguration, LsConfiguration } from '../config';
+import { CachedExternalLinkChecker, ExternalLinkCheckResult, IExternalLinkChecker } from '../externalLinks';
+import { DiagnosticCode, DiagnosticComputer, DiagnosticLevel, DiagnosticOptions, DiagnosticsManager, MdDiagnosticsCache, MdFileDiagnostics, MdWorkspaceDiagnosticsComputer, WorkspaceDiagnosticsProgress } from '../languageFeatures/diagnostics';
 import { MdLinkProvider } from '../languageFeatures/documentLinks';
 import { MdTableOfContentsProvider } from '../tableOfContents';
 import { InMemoryDocument } from '../types/inMemoryDocument';
@@ -19,9 +21,9 @@ import { nulLogger } from './nulLogging';
 import { assertRangeEqual, defaultDiagnosticsOptions, DisposableStore, joinLines, withStore, workspacePath, workspaceRoot } from './util';
 
 
-async function getComputedDiagnostics(store: DisposableStore, doc: InMemoryDocument, workspace: IWorkspace, options: Partial<DiagnosticOptions> = {}): Promise<lsp.Diagnostic[]> {
+async function getComputedDiagnostics(store: DisposableStore, doc: InMemoryDocument, workspace: IWorkspace, options: Partial<DiagnosticOptions> = {}, configOverrides: Partial<LsConfiguration> = {}): Promise<lsp.Diagnostic[]> {
 	const engine = createNewMarkdownEngine();
-	const config = getLsConfiguration({});
+	const config = getLsConfiguration(configOverrides);
 	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
 	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
 	const computer = new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger);
@@ -400,6 +402,188 @@ suite('Diagnostic Computer', () => {
 		assertDiagnosticsEqual(diagnostics, []);
 	}));
 
+	test('Should generate diagnostics for line ranges past the end of the linked file', withStore(async (store) => {
+		const doc1 = new InMemoryDocument(workspacePath('doc1.md'), joinLines(
+			`[good](doc2.md#L1)`,
+			`[good](doc2.md#L2-L3)`,
+			`[good](doc2.md#L1,1-L3,2)`,
+			`[bad](doc2.md#L4)`,
+			`[bad](doc2.md#L2-L4)`,
+			`[bad](doc2.md#L1,1-L4,2)`,
+			`[good](#L8)`,
+			`[bad](#L9)`,
+		));
+		const doc2 = new InMemoryDocument(workspacePath('doc2.md'), joinLines(
+			`a`,
+			`b`,
+			`c`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc1, doc2]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc1, workspace, { validateLineRangeFragments: DiagnosticLevel.warning });
+		assertDiagnosticsEqual(orderDiagnosticsByRange(diagnostics), [
+			lsp.Range.create(3, 13, 3, 16),
+			lsp.Range.create(4, 13, 4, 19),
+			lsp.Range.create(5, 13, 5, 23),
+			lsp.Range.create(7, 6, 7, 9),
+		]);
+		assert.ok(diagnostics.every(diag => diag.code === DiagnosticCode.link_noSuchLineInFile));
+	}));
+
+	test('Should generate diagnostics for line ranges past the end of linked files that are not markdown', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[good](file.ts#L2)`,
+			`[bad](file.ts#L10-L20)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			{ uri: workspacePath('file.ts'), contents: joinLines(`a`, `b`) },
+		]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace, { validateLineRangeFragments: DiagnosticLevel.warning });
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(1, 13, 1, 21),
+		]);
+		assert.ok(diagnostics.every(diag => diag.code === DiagnosticCode.link_noSuchLineInFile));
+	}));
+
+	test('Should generate diagnostics for links with mismatched path casing', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[good](./Guide.md)`,
+			`[bad](./guide.md)`,
+			`[bad](/DOCS/Other.md#header)`,
+			`[bad](other/../guide)`,
+			`[missing](./no-such-file.md)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('Guide.md'), ''),
+			new InMemoryDocument(workspacePath('docs', 'Other.md'), '# header'),
+		], { caseInsensitive: true }));
+
+		const diagnostics = orderDiagnosticsByRange(await getComputedDiagnostics(store, doc, workspace, { validateFileLinkCasing: DiagnosticLevel.warning }));
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(1, 6, 1, 16),
+			lsp.Range.create(2, 6, 2, 20),
+			lsp.Range.create(3, 6, 3, 20),
+			lsp.Range.create(4, 10, 4, 27),
+		]);
+		assert.deepStrictEqual(diagnostics.map(diag => diag.code), [
+			DiagnosticCode.link_pathCaseMismatch,
+			DiagnosticCode.link_pathCaseMismatch,
+			DiagnosticCode.link_pathCaseMismatch,
+			DiagnosticCode.link_noSuchFile,
+		]);
+		assert.deepStrictEqual(diagnostics.slice(0, 3).map(diag => diag.data.correctedPathText), [
+			'./Guide.md',
+			'/docs/Other.md',
+			'other/../Guide',
+		]);
+	}));
+
+	test('Should check path casing of links to directories against the directory', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[good](./api/)`,
+			`[bad](./API/)`,
+			`[bad](./Api#auth)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('api', 'README.md'), '# Auth'),
+		], { caseInsensitive: true }));
+
+		const diagnostics = orderDiagnosticsByRange(await getComputedDiagnostics(store, doc, workspace, { validateFileLinkCasing: DiagnosticLevel.warning }));
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(1, 6, 1, 12),
+			lsp.Range.create(2, 6, 2, 11),
+		]);
+		assert.deepStrictEqual(diagnostics.map(diag => diag.data.correctedPathText), [
+			'./api/',
+			'./api',
+		]);
+	}));
+
+	test('Should not validate path casing by default', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[bad](./guide.md)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc, new InMemoryDocument(workspacePath('Guide.md'), '')], { caseInsensitive: true }));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace);
+		assertDiagnosticsEqual(diagnostics, []);
+	}));
+
+	test('Should validate fragments of links to directories against the index file', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[ok](./api/#auth)`,
+			`[ok](./api#auth)`,
+			`[bad](./api/#no-such)`,
+			`[ok](./no-index/#no-such)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('api', 'README.md'), `# Auth`),
+			new InMemoryDocument(workspacePath('no-index', 'other.md'), ``),
+		]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace);
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(2, 12, 2, 20),
+		]);
+	}));
+
+	test('Should validate links to mapped site urls', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[ok](https://docs.example.com/guide/setup#install)`,
+			`[ok](https://docs.example.com/guide/)`,
+			`[no-file](https://docs.example.com/guide/no-such)`,
+			`[no-header](https://docs.example.com/guide/setup.html#no-such)`,
+			`[external](https://example.com/guide/no-such)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('docs', 'guide', 'setup.md'), `## Install`),
+			new InMemoryDocument(workspacePath('docs', 'guide', 'index.md'), ``),
+		]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace, {}, {
+			siteUrlMappings: [{ urlPrefix: 'https://docs.example.com', folder: workspacePath('docs') }],
+		});
+		assertDiagnosticsEqual(orderDiagnosticsByRange(diagnostics), [
+			lsp.Range.create(2, 10, 2, 48),
+			lsp.Range.create(3, 53, 3, 61),
+		]);
+	}));
+
+	test('Should resolve mapped site urls ending in a slash to the directory index file', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[ok](https://docs.example.com/guide/)`,
+			`[ok](https://docs.example.com/guide/#auth)`,
+			`[no-header](https://docs.example.com/guide/#no-such)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('docs', 'guide', 'README.md'), `# Auth`),
+		]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace, {}, {
+			siteUrlMappings: [{ urlPrefix: 'https://docs.example.com', folder: workspacePath('docs') }],
+		});
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(2, 43, 2, 51),
+		]);
+	}));
+
+	test('Should not validate line ranges by default', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc1.md'), joinLines(
+			`[link](#L10-L20)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace);
+		assertDiagnosticsEqual(diagnostics, []);
+	}));
+
 	test('Should generate diagnostics for unused link definitions', withStore(async (store) => {
 		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
 			`[ref]`,
@@ -445,6 +629,38 @@ suite('Diagnostic Computer', () => {
 		]);
 	}));
 
+	test('Should generate diagnostics for undefined and unused footnotes', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`a[^1] b[^no-such-note]`,
+			``,
+			`[^1]: used`,
+			`[^unused]: never`,
+			`    referenced`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const diagnostics = orderDiagnosticsByRange(await getComputedDiagnostics(store, doc, workspace));
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(0, 9, 0, 21),
+			lsp.Range.create(3, 0, 4, 14),
+		]);
+		assert.deepStrictEqual(diagnostics.map(diag => diag.code), [DiagnosticCode.link_noSuchFootnote, DiagnosticCode.link_unusedFootnote]);
+	}));
+
+	test('Footnote diagnostics should be controlled separately from link definition diagnostics', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[^no-such-note]`,
+			`[^unused]: note`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace, {
+			validateFootnoteReferences: DiagnosticLevel.ignore,
+			validateUnusedFootnotes: DiagnosticLevel.ignore,
+		});
+		assertDiagnosticsEqual(diagnostics, []);
+	}));
+
 	test('Should not mark image reference as unused (#131)', withStore(async (store) => {
 		const docUri = workspacePath('doc.md');
 		const doc = new InMemoryDocument(docUri, joinLines(
@@ -542,6 +758,136 @@ suite('Diagnostic Computer', () => {
 		const diagnostics = await getComputedDiagnostics(store, doc1, workspace, {});
 		assertDiagnosticsEqual(diagnostics, []);
 	}));
+
+	test('Should not validate header structure by default', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# a`,
+			`### b`,
+			`# a`,
+			`##`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace);
+		assertDiagnosticsEqual(diagnostics, []);
+	}));
+
+	test('Should report skipped header levels', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# a`,
+			`### b`,
+			`#### c`,
+			`## d`,
+			`#### e`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace, { validateHeaderLevelIncrements: DiagnosticLevel.warning });
+		assertDiagnosticsEqual(orderDiagnosticsByRange(diagnostics), [
+			lsp.Range.create(1, 0, 1, 5),
+			lsp.Range.create(4, 0, 4, 6),
+		]);
+		assert.ok(diagnostics.every(diag => diag.code === DiagnosticCode.header_skippedLevel));
+	}));
+
+	test('Should report multiple top level headers', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# a`,
+			`## b`,
+			`# c`,
+			``,
+			`d`,
+			`===`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc, workspace, { validateMultipleTopLevelHeaders: DiagnosticLevel.warning });
+		assertDiagnosticsEqual(orderDiagnosticsByRange(diagnostics), [
+			lsp.Range.create(2, 0, 2, 3),
+			lsp.Range.create(4, 0, 4, 1),
+		]);
+		assert.ok(diagnostics.every(diag => diag.code === DiagnosticCode.header_multipleTopLevel));
+	}));
+
+	test('Should report duplicate and empty headers', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A b`,
+			`## a B`,
+			`##`,
+			`###`,
+			`## other`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const diagnostics = orderDiagnosticsByRange(await getComputedDiagnostics(store, doc, workspace, {
+			validateDuplicateHeaders: DiagnosticLevel.warning,
+			validateEmptyHeaders: DiagnosticLevel.warning,
+		}));
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(1, 0, 1, 6),
+			lsp.Range.create(2, 0, 2, 2),
+			lsp.Range.create(3, 0, 3, 3),
+		]);
+		assert.strictEqual(diagnostics[0].code, DiagnosticCode.header_duplicate);
+		assertRangeEqual(diagnostics[0].relatedInformation![0].location.range, lsp.Range.create(0, 0, 0, 5));
+		assert.strictEqual(diagnostics[1].code, DiagnosticCode.header_empty);
+		assert.strictEqual(diagnostics[2].code, DiagnosticCode.header_empty);
+	}));
+
+	test('Should not generate diagnostics for links to explicit header ids or html anchors', withStore(async (store) => {
+		const doc1 = new InMemoryDocument(workspacePath('doc1.md'), joinLines(
+			`## Setup {#install}`,
+			`<a id="legacy-anchor"></a>`,
+			`<h2 id="x">X</h2>`,
+			``,
+			`[good](#install)`,
+			`[good](#legacy-anchor)`,
+			`[good](#x)`,
+			`[good](/doc2.md#other-anchor)`,
+			`[bad](#setup)`,
+			`[bad](/doc2.md#no-such-anchor)`,
+		));
+		const doc2 = new InMemoryDocument(workspacePath('doc2.md'), joinLines(
+			`text <a name="other-anchor"></a>`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc1, doc2]));
+
+		const diagnostics = await getComputedDiagnostics(store, doc1, workspace, { validateMarkdownFileLinkFragments: DiagnosticLevel.warning });
+		assertDiagnosticsEqual(orderDiagnosticsByRange(diagnostics), [
+			lsp.Range.create(8, 6, 8, 12),
+			lsp.Range.create(9, 14, 9, 29),
+		]);
+	}));
+
+	test('Should drop cached diagnostics of deleted and changed documents', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `[link](/nosuch.md)`);
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const engine = createNewMarkdownEngine();
+		const config = getLsConfiguration({});
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+		const diagnosticsCache = store.add(new MdDiagnosticsCache(workspace));
+		const computer = new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger, undefined, diagnosticsCache);
+
+		await computer.compute(doc, defaultDiagnosticsOptions, noopToken);
+		assert.strictEqual(diagnosticsCache.get(doc)?.length, 1);
+
+		// Entries for the current version are kept
+		workspace.updateDocument(doc);
+		assert.strictEqual(diagnosticsCache.get(doc)?.length, 1);
+
+		workspace.deleteDocument(doc.$uri);
+		assert.strictEqual(diagnosticsCache.get(doc), undefined);
+
+		const newDoc = new InMemoryDocument(workspacePath('doc.md'), `[link](/nosuch.md)`, 2);
+		workspace.createDocument(newDoc);
+		await computer.compute(newDoc, defaultDiagnosticsOptions, noopToken);
+		assert.strictEqual(diagnosticsCache.get(newDoc)?.length, 1);
+
+		workspace.updateDocument(new InMemoryDocument(workspacePath('doc.md'), `text`, 3));
+		assert.strictEqual(diagnosticsCache.get(newDoc), undefined);
+	}));
 });
 
 
@@ -592,6 +938,27 @@ suite('Diagnostic Manager', () => {
 		assert.strictEqual(workspace.statCallList.length, 1);
 	}));
 
+	test('Should keep resolving links to directories to their index file on later computes', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[ok](./api/#auth)`,
+			`[bad](./api/#no-such)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('api', 'index.md'), `# Auth`),
+		]));
+
+		const manager = createManager(store, workspace);
+		const options = getDiagnosticsOptions({});
+
+		for (let i = 0; i < 3; ++i) {
+			const diagnostics = await manager.computeDiagnostics(doc, options, noopToken);
+			assertDiagnosticsEqual(diagnostics, [
+				lsp.Range.create(1, 12, 1, 20),
+			]);
+		}
+	}));
+
 	test(`File delete should revalidate diagnostics`, withStore(async (store) => {
 		const otherUri = workspacePath('other.png');
 		const doc1 = new InMemoryDocument(workspacePath('doc.md'), joinLines(
@@ -681,3 +1048,254 @@ suite('Diagnostic Manager', () => {
 		assert.strictEqual(workspace.statCallList.length, 0);
 	}));
 });
+
+suite('Workspace diagnostics', () => {
+
+	function createComputer(store: DisposableStore, workspace: IWorkspace, configOverrides: Partial<LsConfiguration> = {}) {
+		const engine = createNewMarkdownEngine();
+		const config = getLsConfiguration(configOverrides);
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+		return new MdWorkspaceDiagnosticsComputer(config, workspace, linkProvider, tocProvider, nulLogger);
+	}
+
+	async function collect(results: AsyncIterable<MdFileDiagnostics>): Promise<MdFileDiagnostics[]> {
+		const out: MdFileDiagnostics[] = [];
+		for await (const result of results) {
+			out.push(result);
+		}
+		return out;
+	}
+
+	test('Should compute diagnostics for every file and report progress', withStore(async (store) => {
+		const doc1 = new InMemoryDocument(workspacePath('doc1.md'), joinLines(
+			`![i](/no-such.png)`,
+			`[ok](./doc2.md)`,
+		));
+		const doc2 = new InMemoryDocument(workspacePath('doc2.md'), joinLines(
+			`[bad](#no-such-header)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc1, doc2]));
+
+		const progress: WorkspaceDiagnosticsProgress[] = [];
+		const results = await collect(createComputer(store, workspace).compute(getDiagnosticsOptions({}), noopToken, p => progress.push(p)));
+
+		assert.deepStrictEqual(results.map(result => result.uri.toString()), [doc1.uri, doc2.uri]);
+		assertDiagnosticsEqual(results[0].diagnostics, [lsp.Range.create(0, 5, 0, 17)]);
+		assertDiagnosticsEqual(results[1].diagnostics, [lsp.Range.create(0, 6, 0, 21)]);
+		assert.deepStrictEqual(progress, [
+			{ completed: 0, total: 2 },
+			{ completed: 1, total: 2 },
+			{ completed: 2, total: 2 },
+		]);
+	}));
+
+	test('Should only stat each linked to file once', withStore(async (store) => {
+		const doc1 = new InMemoryDocument(workspacePath('doc1.md'), `![i](/no-such.png)`);
+		const doc2 = new InMemoryDocument(workspacePath('doc2.md'), `![i](/no-such.png)`);
+		const workspace = store.add(new InMemoryWorkspace([doc1, doc2]));
+
+		const results = await collect(createComputer(store, workspace).compute(getDiagnosticsOptions({}), noopToken));
+		assert.strictEqual(results.length, 2);
+		assert.strictEqual(workspace.statCallList.length, 1);
+	}));
+
+	test('Should skip excluded files', withStore(async (store) => {
+		const doc1 = new InMemoryDocument(workspacePath('doc1.md'), `[bad](#no-such-header)`);
+		const doc2 = new InMemoryDocument(workspacePath('sub', 'doc2.md'), `[bad](#no-such-header)`);
+		const workspace = store.add(new InMemoryWorkspace([doc1, doc2]));
+
+		const results = await collect(createComputer(store, workspace, { excludePaths: ['**/sub/**'] }).compute(getDiagnosticsOptions({}), noopToken));
+		assert.deepStrictEqual(results.map(result => result.uri.toString()), [doc1.uri]);
+	}));
+
+	test('Should stop when cancelled', withStore(async (store) => {
+		const doc1 = new InMemoryDocument(workspacePath('doc1.md'), `[bad](#no-such-header)`);
+		const doc2 = new InMemoryDocument(workspacePath('doc2.md'), `[bad](#no-such-header)`);
+		const workspace = store.add(new InMemoryWorkspace([doc1, doc2]));
+
+		const cts = new lsp.CancellationTokenSource();
+		const results: MdFileDiagnostics[] = [];
+		for await (const result of createComputer(store, workspace).compute(getDiagnosticsOptions({}), cts.token)) {
+			results.push(result);
+			cts.cancel();
+		}
+		assert.strictEqual(results.length, 1);
+	}));
+});
+
+suite('External link diagnostics', () => {
+
+	class TestExternalLinkChecker implements IExternalLinkChecker {
+		public readonly checked: string[] = [];
+
+		readonly #results: ReadonlyMap<string, ExternalLinkCheckResult>;
+
+		constructor(results: ReadonlyMap<string, ExternalLinkCheckResult>) {
+			this.#results = results;
+		}
+
+		public async checkLink(uri: URI): Promise<ExternalLinkCheckResult> {
+			this.checked.push(uri.toString(true));
+			const result = this.#results.get(uri.toString(true));
+			if (!result) {
+				throw new Error('Unexpected link');
+			}
+			return result;
+		}
+	}
+
+	async function getExternalLinkDiagnostics(store: DisposableStore, doc: InMemoryDocument, checker: IExternalLinkChecker, options: Partial<DiagnosticOptions> = {}): Promise<lsp.Diagnostic[]> {
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+		const engine = createNewMarkdownEngine();
+		const config = getLsConfiguration({});
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+		const computer = new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger, checker);
+		const { diagnostics } = await computer.compute(doc, getDiagnosticsOptions({ validateExternalLinks: DiagnosticLevel.warning, ...options }), noopToken);
+		return orderDiagnosticsByRange(diagnostics) as lsp.Diagnostic[];
+	}
+
+	test('Should not check external links by default', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `[a](https://example.com/dead)`);
+		const checker = new TestExternalLinkChecker(new Map([['https://example.com/dead', { kind: 'dead' }]]));
+
+		const diagnostics = await getExternalLinkDiagnostics(store, doc, checker, { validateExternalLinks: undefined });
+		assert.deepStrictEqual(diagnostics, []);
+		assert.deepStrictEqual(checker.checked, []);
+	}));
+
+	test('Should report dead and redirected links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](https://example.com/ok)`,
+			`[b](https://example.com/dead)`,
+			`<https://example.com/moved>`,
+			`[ref]: https://example.com/dead`,
+		));
+		const checker = new TestExternalLinkChecker(new Map<string, ExternalLinkCheckResult>([
+			['https://example.com/ok', { kind: 'ok' }],
+			['https://example.com/dead', { kind: 'dead', statusCode: 404 }],
+			['https://example.com/moved', { kind: 'redirect', target: URI.parse('https://example.com/new') }],
+		]));
+
+		const diagnostics = await getExternalLinkDiagnostics(store, doc, checker, { validateUnusedLinkDefinitions: DiagnosticLevel.ignore });
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(1, 4, 1, 28),
+			lsp.Range.create(2, 1, 2, 26),
+			lsp.Range.create(3, 7, 3, 31),
+		]);
+		assert.strictEqual(diagnostics[0].code, DiagnosticCode.link_deadExternalLink);
+		assert.strictEqual(diagnostics[0].severity, lsp.DiagnosticSeverity.Warning);
+		assert.strictEqual(diagnostics[1].code, DiagnosticCode.link_redirectedExternalLink);
+		assert.strictEqual((diagnostics[1].data as { target: string }).target, 'https://example.com/new');
+	}));
+
+	test('Should only check http and https links that are not ignored', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](mailto:someone@example.com)`,
+			`[b](ftp://example.com/file)`,
+			`[c](https://example.com/ignored/page)`,
+			`[d](http://example.com/dead)`,
+		));
+		const checker = new TestExternalLinkChecker(new Map([['http://example.com/dead', { kind: 'dead' }]]));
+
+		const diagnostics = await getExternalLinkDiagnostics(store, doc, checker, { ignoreLinks: ['https://example.com/ignored/**'] });
+		assertDiagnosticsEqual(diagnostics, [
+			lsp.Range.create(3, 4, 3, 27),
+		]);
+		assert.deepStrictEqual(checker.checked, ['http://example.com/dead']);
+	}));
+
+	test('Should not report links when the checker fails', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `[a](https://example.com/unknown)`);
+		const checker = new TestExternalLinkChecker(new Map());
+
+		const diagnostics = await getExternalLinkDiagnostics(store, doc, checker);
+		assert.deepStrictEqual(diagnostics, []);
+	}));
+
+	test('Cached checker should only check each link once', async () => {
+		const checker = new TestExternalLinkChecker(new Map([['https://example.com/', { kind: 'ok' }]]));
+		const cachedChecker = new CachedExternalLinkChecker(checker);
+
+		const uri = URI.parse('https://example.com/');
+		await Promise.all([
+			cachedChecker.checkLink(uri, noopToken),
+			cachedChecker.checkLink(uri, noopToken),
+		]);
+		await cachedChecker.checkLink(uri, noopToken);
+		assert.deepStrictEqual(checker.checked, ['https://example.com/']);
+	});
+
+	test('Cached checker should retry links that failed', async () => {
+		const checker = new TestExternalLinkChecker(new Map());
+		const cachedChecker = new CachedExternalLinkChecker(checker);
+
+		const uri = URI.parse('https://example.com/');
+		await assert.rejects(cachedChecker.checkLink(uri, noopToken));
+		await assert.rejects(cachedChecker.checkLink(uri, noopToken));
+		assert.strictEqual(checker.checked.length, 2);
+	});
+
+	test('Cached checker should only cancel shared checks once every caller is cancelled', async () => {
+		const tokens: lsp.CancellationToken[] = [];
+		let complete: (result: ExternalLinkCheckResult) => void = () => { };
+		const cachedChecker = new CachedExternalLinkChecker({
+			checkLink: (_uri, token) => {
+				tokens.push(token);
+				return new Promise(resolve => { complete = resolve; });
+			}
+		});
+
+		const uri = URI.parse('https://example.com/');
+		const cts1 = new lsp.CancellationTokenSource();
+		const cts2 = new lsp.CancellationTokenSource();
+		const result1 = cachedChecker.checkLink(uri, cts1.token);
+		const result2 = cachedChecker.checkLink(uri, cts2.token);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		assert.strictEqual(tokens.length, 1);
+
+		cts1.cancel();
+		await assert.rejects(result1);
+		assert.strictEqual(tokens[0].isCancellationRequested, false);
+
+		complete({ kind: 'ok' });
+		assert.deepStrictEqual(await result2, { kind: 'ok' });
+
+		// Cancelling every caller cancels the check and does not cache it
+		const cts3 = new lsp.CancellationTokenSource();
+		const otherUri = URI.parse('https://example.com/other');
+		const result3 = cachedChecker.checkLink(otherUri, cts3.token);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		cts3.cancel();
+		await assert.rejects(result3);
+		assert.strictEqual(tokens[1].isCancellationRequested, true);
+
+		complete({ kind: 'ok' });
+		await new Promise(resolve => setTimeout(resolve, 0));
+		const result4 = cachedChecker.checkLink(otherUri, noopToken);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		complete({ kind: 'ok' });
+		await result4;
+		assert.strictEqual(tokens.length, 3);
+	});
+
+	test('Cached checker should drop the oldest results when full', async () => {
+		const checker = new TestExternalLinkChecker(new Map<string, ExternalLinkCheckResult>([
+			['https://example.com/a', { kind: 'ok' }],
+			['https://example.com/b', { kind: 'ok' }],
+			['https://example.com/c', { kind: 'ok' }],
+		]));
+		const cachedChecker = new CachedExternalLinkChecker(checker, 4, 5 * 60 * 1000, 2);
+
+		for (const path of ['a', 'b', 'c', 'c', 'a']) {
+			await cachedChecker.checkLink(URI.parse(`https://example.com/${path}`), noopToken);
+		}
+		assert.deepStrictEqual(checker.checked, [
+			'https://example.com/a',
+			'https://example.com/b',
+			'https://example.com/c',
+			'https://example.com/a',
+		]);
+	});
+});
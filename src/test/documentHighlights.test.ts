@@ -240,6 +240,40 @@ suite('Document highlights', () => {
 		}
 	}));
 
+	test('Should highlight footnotes', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`a[^1] b[^2]`, // trigger
+			`c[^1]`,
+			``,
+			`[^1]: note`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const highlights = await getDocumentHighlights(store, doc, { line: 0, character: 3 }, workspace);
+		assertHighlightsEqual(highlights,
+			{ range: lsp.Range.create(0, 3, 0, 4) },
+			{ range: lsp.Range.create(1, 3, 1, 4) },
+			{ range: lsp.Range.create(3, 2, 3, 3) },
+		);
+	}));
+
+	test('Should highlight footnotes that only differ in casing', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`a[^Note]`, // trigger
+			`b[^note]`,
+			``,
+			`[^NOTE]: note`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const highlights = await getDocumentHighlights(store, doc, { line: 0, character: 3 }, workspace);
+		assertHighlightsEqual(highlights,
+			{ range: lsp.Range.create(0, 3, 0, 7) },
+			{ range: lsp.Range.create(1, 3, 1, 7) },
+			{ range: lsp.Range.create(3, 2, 3, 6) },
+		);
+	}));
+
 	test('Should highlight external links', withStore(async (store) => {
 		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
 			`text [link](http://example.com/a)`, // trigger 1
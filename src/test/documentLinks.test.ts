@@ -9,7 +9,7 @@ import { URI } from 'vscode-uri';
 import { getLsConfiguration } from '../config';
 import { MdLinkComputer, MdLinkProvider } from '../languageFeatures/documentLinks';
 import { MdTableOfContentsProvider } from '../tableOfContents';
-import { InternalHref, MdLink } from '../types/documentLink';
+import { HrefKind, InternalHref, MdLink, MdLinkKind } from '../types/documentLink';
 import { InMemoryDocument } from '../types/inMemoryDocument';
 import { noopToken } from '../util/cancellation';
 import { ContainingDocumentContext, IWorkspace } from '../workspace';
@@ -209,7 +209,7 @@ suite('Link computer', () => {
 
 	test('Should not consider link references starting with ^ character valid (#107471)', async () => {
 		const links = await getLinksForText('[^reference]: https://example.com');
-		assertLinksEqual(links, []);
+		assertLinksEqual(links.filter(link => link.kind !== MdLinkKind.FootnoteDefinition), []);
 	});
 
 	test('Should find definitions links with spaces in angle brackets (#136073)', async () => {
@@ -438,6 +438,87 @@ suite('Link computer', () => {
 		]);
 	});
 
+	suite('Extended autolinks', () => {
+		function getExtendedAutoLinksForText(fileContents: string): Promise<MdLink[]> {
+			const doc = new InMemoryDocument(workspacePath('test.md'), fileContents);
+			const workspace = new InMemoryWorkspace([doc]);
+			const engine = createNewMarkdownEngine();
+			const computer = new MdLinkComputer(engine, workspace, undefined, getLsConfiguration({ enableExtendedAutoLinks: true }));
+			return computer.getAllLinks(doc, noopToken);
+		}
+
+		test('Should not find extended autolinks by default', async () => {
+			const links = await getLinksForText('https://example.com www.example.com user@example.com');
+			assertLinksEqual(links, []);
+		});
+
+		test('Should find urls, www links, and emails', async () => {
+			const links = await getExtendedAutoLinksForText(joinLines(
+				`a https://example.com/path?x=1 b`,
+				`www.example.com and (user@example.com)`,
+				`*http://example.com/a_b*`,
+			));
+			assertLinksEqual(links, [
+				lsp.Range.create(0, 2, 0, 30),
+				lsp.Range.create(1, 0, 1, 15),
+				lsp.Range.create(1, 21, 1, 37),
+				lsp.Range.create(2, 1, 2, 23),
+			]);
+
+			assert.deepStrictEqual(links.map(link => link.kind), [MdLinkKind.AutoLink, MdLinkKind.AutoLink, MdLinkKind.AutoLink, MdLinkKind.AutoLink]);
+			assert.deepStrictEqual(links.map(link => link.href.kind === HrefKind.External && link.href.uri.toString(true)), [
+				'https://example.com/path?x=1',
+				'http://www.example.com/',
+				'mailto:user@example.com',
+				'http://example.com/a_b',
+			]);
+		});
+
+		test('Should not include trailing punctuation', async () => {
+			const links = await getExtendedAutoLinksForText(joinLines(
+				`See https://example.com/a.`,
+				`(https://example.com/b_(c))`,
+				`https://example.com/&amp;`,
+				`www.example.com/hi!?`,
+			));
+			assertLinksEqual(links, [
+				lsp.Range.create(0, 4, 0, 25),
+				lsp.Range.create(1, 1, 1, 26),
+				lsp.Range.create(2, 0, 2, 20),
+				lsp.Range.create(3, 0, 3, 18),
+			]);
+		});
+
+		test('Should keep ports in extended autolinks', async () => {
+			const links = await getExtendedAutoLinksForText(joinLines(
+				`https://example.com:8080/x and www.example.com:80`,
+			));
+			assertLinksEqual(links, [
+				lsp.Range.create(0, 0, 0, 26),
+				lsp.Range.create(0, 31, 0, 49),
+			]);
+			assert.deepStrictEqual(links.map(link => link.href.kind === HrefKind.External && link.href.uri.toString(true)), [
+				'https://example.com:8080/x',
+				'http://www.example.com:80/',
+			]);
+		});
+
+		test('Should not find extended autolinks in code, other links, or inside words', async () => {
+			const links = await getExtendedAutoLinksForText(joinLines(
+				'`https://example.com`',
+				`[https://example.com](https://example.com/a)`,
+				`<https://example.com/b>`,
+				`xhttps://example.com www.example_a.com`,
+				``,
+				`    https://example.com`,
+			));
+			assertLinksEqual(links, [
+				lsp.Range.create(1, 22, 1, 43),
+				lsp.Range.create(2, 1, 2, 22),
+			]);
+		});
+	});
+
 	test('Should not detect links inside html comment blocks', async () => {
 		const links = await getLinksForText(joinLines(
 			`<!-- <http://example.com> -->`,
@@ -843,6 +924,58 @@ suite('Link computer', () => {
 			lsp.Range.create(10, 0, 10, 6),
 		]);
 	});
+
+	test('Should find footnote references and definitions', async () => {
+		const links = await getLinksForText(joinLines(
+			`a[^1] b[^note][^2]`,
+			``,
+			`[^1]: First`,
+			`[^note]: Some note`,
+			`    continued`,
+		));
+
+		assertLinksEqual(links, [
+			{ range: lsp.Range.create(0, 3, 0, 4), sourceText: '1' },
+			{ range: lsp.Range.create(0, 9, 0, 13), sourceText: 'note' },
+			{ range: lsp.Range.create(0, 16, 0, 17), sourceText: '2' },
+			{ range: lsp.Range.create(2, 2, 2, 3), sourceText: '1' },
+			{ range: lsp.Range.create(3, 2, 3, 6), sourceText: 'note' },
+		]);
+		assert.deepStrictEqual(links.map(link => link.kind), [
+			MdLinkKind.FootnoteReference,
+			MdLinkKind.FootnoteReference,
+			MdLinkKind.FootnoteReference,
+			MdLinkKind.FootnoteDefinition,
+			MdLinkKind.FootnoteDefinition,
+		]);
+
+		const noteDef = links[4];
+		assert.strictEqual(noteDef.kind, MdLinkKind.FootnoteDefinition);
+		assert.strictEqual(noteDef.body.text, 'Some note\ncontinued');
+		assertRangeEqual(noteDef.source.range, lsp.Range.create(3, 0, 4, 13));
+	});
+
+	test('Should not find footnotes in code', async () => {
+		const links = await getLinksForText(joinLines(
+			'`[^1]`',
+			'```',
+			'[^1]: note',
+			'```',
+		));
+		assertLinksEqual(links, []);
+	});
+
+	test('Should not find links in front matter', async () => {
+		const links = await getLinksForText(joinLines(
+			'---',
+			'link: "[a](./b.md)"',
+			'---',
+			'[a](./c.md)',
+		));
+		assertLinksEqual(links, [
+			lsp.Range.create(3, 4, 3, 10),
+		]);
+	});
 });
 
 
@@ -922,6 +1055,118 @@ suite('Link provider', () => {
 		assert.strictEqual(links[0].target, testFile.with({ fragment: 'L3,8' }).toString(true));
 	});
 
+	test('Should link footnote references to their definition', async () => {
+		const links = await getLinksForFile(joinLines(
+			`a[^1] b[^undefined]`,
+			``,
+			`[^1]: note`,
+		));
+
+		assertLinksEqual(links, [
+			lsp.Range.create(0, 3, 0, 4),
+		]);
+		assert.strictEqual(links[0].target, testFile.with({ fragment: 'L3,1' }).toString(true));
+	});
+
+	test('Should resolve line range fragments to a selection', async () => {
+		const doc = new InMemoryDocument(testFile, joinLines(
+			`[a](./other.md#L2-L3)`,
+			`[b](./other.md#L2,3-L3,4)`,
+			`[c](./other.md#L2)`,
+		));
+		const otherFile = workspacePath('other.md');
+		const workspace = new InMemoryWorkspace([doc, new InMemoryDocument(otherFile, joinLines('a', 'b', 'c'))]);
+
+		const engine = createNewMarkdownEngine();
+		const tocProvider = new MdTableOfContentsProvider(engine, workspace, nulLogger);
+		const provider = new MdLinkProvider(getLsConfiguration({}), engine, workspace, tocProvider, nulLogger);
+		const links = await provider.provideDocumentLinks(doc, noopToken);
+
+		const targets = await Promise.all(links.map(async link => (await provider.resolveDocumentLink(link, noopToken))?.target));
+		assert.deepStrictEqual(targets, [
+			otherFile.with({ fragment: 'L2,1-L4,1' }).toString(true),
+			otherFile.with({ fragment: 'L2,3-L3,4' }).toString(true),
+			otherFile.with({ fragment: 'L2,1' }).toString(true),
+		]);
+	});
+
+	test('Should resolve links to directories to their index file', async () => {
+		const doc = new InMemoryDocument(testFile, joinLines(
+			`[a](./api/)`,
+			`[b](./api#auth)`,
+			`[c](./other/)`,
+		));
+		const workspace = new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('api', 'index.md'), `# Index`),
+			new InMemoryDocument(workspacePath('api', 'README.md'), joinLines(`# Readme`, `## Auth`)),
+			new InMemoryDocument(workspacePath('other', 'doc.md'), ``),
+		]);
+
+		const engine = createNewMarkdownEngine();
+		const tocProvider = new MdTableOfContentsProvider(engine, workspace, nulLogger);
+		const provider = new MdLinkProvider(getLsConfiguration({ directoryIndexFileNames: ['README.md', 'index.md'] }), engine, workspace, tocProvider, nulLogger);
+		const links = await provider.provideDocumentLinks(doc, noopToken);
+
+		const targets = await Promise.all(links.map(async link => (await provider.resolveDocumentLink(link, noopToken))?.target));
+		assert.deepStrictEqual(targets.slice(0, 2), [
+			workspacePath('api', 'README.md').toString(true),
+			workspacePath('api', 'README.md').with({ fragment: 'L2,1' }).toString(true),
+		]);
+		assert.ok(targets[2]?.startsWith('command:revealInExplorer?'));
+	});
+
+	test('Should resolve links to mapped site urls to workspace files', async () => {
+		const doc = new InMemoryDocument(testFile, joinLines(
+			`[a](https://docs.example.com/guide/setup#install)`,
+			`[b](https://docs.example.com/guide/setup.html)`,
+			`[c](https://docs.example.com/)`,
+			`[d](https://docs.example.com.evil/guide/setup)`,
+			`[e](https://example.com/guide/setup)`,
+			`<https://docs.example.com/guide/>`,
+		));
+		const setupFile = workspacePath('docs', 'guide', 'setup.md');
+		const workspace = new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(setupFile, joinLines('# Setup', '## Install')),
+			new InMemoryDocument(workspacePath('docs', 'index.md'), ''),
+			new InMemoryDocument(workspacePath('docs', 'guide', 'index.md'), ''),
+		]);
+
+		const engine = createNewMarkdownEngine();
+		const tocProvider = new MdTableOfContentsProvider(engine, workspace, nulLogger);
+		const config = getLsConfiguration({
+			siteUrlMappings: [{ urlPrefix: 'https://docs.example.com/', folder: workspacePath('docs') }],
+		});
+		const provider = new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger);
+
+		const links = (await provider.getLinks(doc)).links;
+		assert.deepStrictEqual(links.map(link => link.href.kind), [
+			HrefKind.Internal,
+			HrefKind.Internal,
+			HrefKind.Internal,
+			HrefKind.External,
+			HrefKind.External,
+			HrefKind.Internal,
+		]);
+
+		const resolve = async (linkText: string) => {
+			const target = await provider.resolveLinkTarget(linkText, testFile, noopToken);
+			return target && { ...target, uri: target.uri.toString() };
+		};
+
+		assert.deepStrictEqual(await resolve('https://docs.example.com/guide/setup#install'), {
+			kind: 'file',
+			uri: setupFile.toString(),
+			position: lsp.Position.create(1, 0),
+			fragment: 'install',
+		});
+		assert.deepStrictEqual(await resolve('https://docs.example.com/guide/setup.html'), { kind: 'file', uri: setupFile.toString() });
+		assert.deepStrictEqual(await resolve('https://docs.example.com'), { kind: 'file', uri: workspacePath('docs', 'index.md').toString() });
+		assert.deepStrictEqual(await resolve('https://docs.example.com/guide/'), { kind: 'file', uri: workspacePath('docs', 'guide', 'index.md').toString() });
+		assert.strictEqual(await resolve('https://example.com/guide/setup'), undefined);
+	});
+
 	test('Should not encode link', async () => {
 		const exampleUrl = 'http://example/%A5%C8';
 		const links = await getLinksForFile(joinLines(
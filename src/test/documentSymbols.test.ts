@@ -242,4 +242,18 @@ suite('Document symbols', () => {
 			{ name: '## a b c' },
 		]);
 	}));
+
+	test('Should include front matter symbol and not treat front matter as header', withStore(async (store) => {
+		const symbols = await getSymbolsForFile(store, joinLines(
+			'---',
+			'title: My title',
+			'---',
+			'# a',
+		));
+		assertDocumentSymbolsEqual(symbols, [
+			{ name: 'Front matter', range: lsp.Range.create(0, 0, 2, 3) },
+			{ name: '# a' },
+		]);
+		assert.strictEqual(symbols[0].detail, 'My title');
+	}));
 });
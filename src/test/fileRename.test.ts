@@ -26,7 +26,7 @@ function getFileRenameEdits(store: DisposableStore, edits: ReadonlyArray<{ oldUr
 	const config = getLsConfiguration(configOverrides);
 	const engine = createNewMarkdownEngine();
 	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
-	const linkCache = store.add(createWorkspaceLinkCache(engine, workspace));
+	const linkCache = store.add(createWorkspaceLinkCache(engine, workspace, undefined, config));
 	const referencesProvider = store.add(new MdReferencesProvider(config, engine, workspace, tocProvider, linkCache, nulLogger));
 	const renameProvider = new MdFileRenameProvider(config, workspace, linkCache, referencesProvider);
 	return renameProvider.getRenameFilesInWorkspaceEdit(edits, noopToken);
@@ -772,4 +772,58 @@ suite('File Rename', () => {
 			]
 		});
 	}));
+
+	test('Should update links to mapped site urls', withStore(async (store) => {
+		const uri = workspacePath('doc.md');
+		const doc = new InMemoryDocument(uri, joinLines(
+			`[a](https://docs.example.com/guide/setup#install)`,
+			`[b](https://docs.example.com/guide/setup.html)`,
+			`[c](https://docs.example.com/guide/)`,
+			`[d](https://example.com/guide/setup)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('docs', 'guide', 'setup.md'), ''),
+		]));
+
+		const response = await getFileRenameEdits(store, [
+			{ oldUri: workspacePath('docs', 'guide', 'setup.md'), newUri: workspacePath('docs', 'start', 'install.md') },
+			{ oldUri: workspacePath('docs', 'guide', 'index.md'), newUri: workspacePath('docs', 'intro', 'index.md') },
+		], workspace, {
+			siteUrlMappings: [{ urlPrefix: 'https://docs.example.com/', folder: workspacePath('docs') }],
+		});
+		assertEditsEqual(response!.edit, {
+			uri, edits: [
+				lsp.TextEdit.replace(lsp.Range.create(0, 4, 0, 48), 'https://docs.example.com/start/install#install'),
+				lsp.TextEdit.replace(lsp.Range.create(1, 4, 1, 45), 'https://docs.example.com/start/install.html'),
+				lsp.TextEdit.replace(lsp.Range.create(2, 4, 2, 35), 'https://docs.example.com/intro/'),
+			]
+		});
+	}));
+
+	test('Should keep trailing slash of mapped site urls when renaming directory index files', withStore(async (store) => {
+		const uri = workspacePath('doc.md');
+		const doc = new InMemoryDocument(uri, joinLines(
+			`[a](https://docs.example.com/guide/)`,
+			`[b](https://docs.example.com/api/)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('docs', 'intro', 'README.md'), ''),
+			new InMemoryDocument(workspacePath('docs', 'reference.md'), ''),
+		]));
+
+		const response = await getFileRenameEdits(store, [
+			{ oldUri: workspacePath('docs', 'guide', 'README.md'), newUri: workspacePath('docs', 'intro', 'README.md') },
+			{ oldUri: workspacePath('docs', 'api', 'README.md'), newUri: workspacePath('docs', 'reference.md') },
+		], workspace, {
+			siteUrlMappings: [{ urlPrefix: 'https://docs.example.com/', folder: workspacePath('docs') }],
+		});
+		assertEditsEqual(response!.edit, {
+			uri, edits: [
+				lsp.TextEdit.replace(lsp.Range.create(0, 4, 0, 35), 'https://docs.example.com/intro/'),
+				lsp.TextEdit.replace(lsp.Range.create(1, 4, 1, 33), 'https://docs.example.com/reference'),
+			]
+		});
+	}));
 });
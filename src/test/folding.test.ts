@@ -270,4 +270,20 @@ suite('Folding', () => {
 			{ startLine: 7, endLine: 8 },
 		]);
 	}));
+
+	test('Should fold front matter', withStore(async (store) => {
+		const folds = await getFoldsForDocument(store, joinLines(
+			`---`,
+			`title: a`,
+			`tags:`,
+			`  - b`,
+			`  - c`,
+			`---`,
+			`text`,
+		));
+
+		assertFoldsEqual(folds, [
+			{ startLine: 0, endLine: 5, kind: lsp.FoldingRangeKind.Region },
+		]);
+	}));
 });
@@ -0,0 +1,296 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { BulletListMarker, CodeFenceStyle, DocumentFormattingOptions, EmphasisMarker, HeadingStyle, MdDocumentFormattingProvider, OrderedListNumbering } from '../languageFeatures/formatting';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { createNewMarkdownEngine } from './engine';
+import { nulLogger } from './nulLogging';
+import { joinLines, workspacePath } from './util';
+
+
+async function getFormattedText(text: string, options: DocumentFormattingOptions): Promise<string> {
+	const doc = new InMemoryDocument(workspacePath('doc.md'), text);
+	const provider = new MdDocumentFormattingProvider(createNewMarkdownEngine(), nulLogger);
+	const edits = await provider.getFormattingEdits(doc, options, noopToken);
+	return doc.previewEdits(edits);
+}
+
+suite('Document formatting', () => {
+	test('Should not return edits when no options are set', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`Header`,
+			`===`,
+			`* a   `,
+			`+ b`,
+			``,
+			``,
+			`_em_ __strong__`,
+		));
+		const provider = new MdDocumentFormattingProvider(createNewMarkdownEngine(), nulLogger);
+		assert.deepStrictEqual(await provider.getFormattingEdits(doc, {}, noopToken), []);
+	});
+
+	test('Should convert setext headers to atx', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`Title`,
+			`=====`,
+			``,
+			`Sub *title*`,
+			`---`,
+		), { headingStyle: HeadingStyle.atx }), joinLines(
+			`# Title`,
+			``,
+			`## Sub *title*`,
+		));
+	});
+
+	test('Should convert atx headers to setext for levels 1 and 2 only', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`# Title #`,
+			``,
+			`## Sub`,
+			``,
+			`### Third`,
+		), { headingStyle: HeadingStyle.setext }), joinLines(
+			`Title`,
+			`=====`,
+			``,
+			`Sub`,
+			`---`,
+			``,
+			`### Third`,
+		));
+	});
+
+	test('Should keep atx headers whose text would start another block', async () => {
+		const text = joinLines(
+			`# - item`,
+			``,
+			`## 1. foo`,
+			``,
+			`# > quote`,
+			``,
+			'## ```',
+		);
+		assert.strictEqual(await getFormattedText(text, { headingStyle: HeadingStyle.setext }), text);
+	});
+
+	test('Should add and remove closing hashes of atx headers', async () => {
+		const text = joinLines(
+			`# One`,
+			``,
+			`## Two ##`,
+		);
+
+		assert.strictEqual(await getFormattedText(text, { atxClosingHashes: true }), joinLines(
+			`# One #`,
+			``,
+			`## Two ##`,
+		));
+
+		assert.strictEqual(await getFormattedText(text, { atxClosingHashes: false }), joinLines(
+			`# One`,
+			``,
+			`## Two`,
+		));
+	});
+
+	test('Should normalize bullet list markers, including nested lists', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`* a`,
+			`* b`,
+			`    + c`,
+			``,
+			`text`,
+			``,
+			`+ d`,
+		), { bulletListMarker: BulletListMarker.dash }), joinLines(
+			`- a`,
+			`- b`,
+			`    - c`,
+			``,
+			`text`,
+			``,
+			`- d`,
+		));
+	});
+
+	test('Should not merge lists that are only separated by their bullet markers', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`- a`,
+			`- b`,
+			``,
+			`* c`,
+			`* d`,
+		), { bulletListMarker: BulletListMarker.dash }), joinLines(
+			`- a`,
+			`- b`,
+			``,
+			`* c`,
+			`* d`,
+		));
+
+		assert.strictEqual(await getFormattedText(joinLines(
+			`* a`,
+			``,
+			`+ b`,
+			``,
+			`- c`,
+		), { bulletListMarker: BulletListMarker.dash }), joinLines(
+			`- a`,
+			``,
+			`+ b`,
+			``,
+			`- c`,
+		));
+	});
+
+	test('Should renumber ordered lists', async () => {
+		const text = joinLines(
+			`3. a`,
+			`3. b`,
+			`7. c`,
+		);
+
+		assert.strictEqual(await getFormattedText(text, { orderedListNumbering: OrderedListNumbering.sequential }), joinLines(
+			`3. a`,
+			`4. b`,
+			`5. c`,
+		));
+
+		assert.strictEqual(await getFormattedText(text, { orderedListNumbering: OrderedListNumbering.allSame }), joinLines(
+			`3. a`,
+			`3. b`,
+			`3. c`,
+		));
+	});
+
+	test('Should normalize emphasis and strong markers', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`_a_ and __b__ and *c*`,
+			``,
+			`***both*** and \`_code_\``,
+		), { emphasisMarker: EmphasisMarker.asterisk, strongMarker: EmphasisMarker.asterisk }), joinLines(
+			`*a* and **b** and *c*`,
+			``,
+			`***both*** and \`_code_\``,
+		));
+	});
+
+	test('Should not switch to underscores inside of words', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`*a* and x*y*z`,
+		), { emphasisMarker: EmphasisMarker.underscore }), joinLines(
+			`_a_ and x*y*z`,
+		));
+	});
+
+	test('Should normalize code fences', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`~~~js`,
+			`code`,
+			`~~~`,
+			``,
+			`~~~~`,
+			'```',
+			`~~~~`,
+		), { codeFenceStyle: CodeFenceStyle.backtick }), joinLines(
+			'```js',
+			`code`,
+			'```',
+			``,
+			'````',
+			'```',
+			'````',
+		));
+	});
+
+	test('Should add blank lines around blocks and collapse multiple blank lines', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`# Header`,
+			`text`,
+			``,
+			``,
+			``,
+			`- item`,
+			'```',
+			`code`,
+			``,
+			``,
+			`code`,
+			'```',
+		), { blankLinesAroundBlocks: true }), joinLines(
+			`# Header`,
+			``,
+			`text`,
+			``,
+			`- item`,
+			``,
+			'```',
+			`code`,
+			``,
+			``,
+			`code`,
+			'```',
+		));
+	});
+
+	test('Should collapse trailing blank lines at the end of the document', async () => {
+		assert.strictEqual(await getFormattedText(`text\n\n\n`, { blankLinesAroundBlocks: true }), `text\n`);
+		assert.strictEqual(await getFormattedText(`text\n\n\n\n`, { blankLinesAroundBlocks: true }), `text\n`);
+		assert.strictEqual(await getFormattedText(`# Header  \n\n\n`, { blankLinesAroundBlocks: true, trimTrailingWhitespace: true }), `# Header\n`);
+	});
+
+	test('Should trim trailing whitespace but keep hard line breaks', async () => {
+		assert.strictEqual(await getFormattedText(joinLines(
+			`# Header  `,
+			``,
+			`line one  `,
+			`line two `,
+			`last line  `,
+			`\t`,
+			'```',
+			`code  `,
+			'```',
+		), { trimTrailingWhitespace: true }), joinLines(
+			`# Header`,
+			``,
+			`line one  `,
+			`line two`,
+			`last line`,
+			``,
+			'```',
+			`code  `,
+			'```',
+		));
+	});
+
+	test('Should never change code blocks, html, or front matter', async () => {
+		const text = joinLines(
+			`---`,
+			`title: *a*  `,
+			`---`,
+			``,
+			`<div>`,
+			`* a  `,
+			`__b__`,
+			`</div>`,
+			``,
+			`    * indented code  `,
+			`    __b__`,
+		);
+
+		assert.strictEqual(await getFormattedText(text, {
+			headingStyle: HeadingStyle.atx,
+			bulletListMarker: BulletListMarker.dash,
+			emphasisMarker: EmphasisMarker.asterisk,
+			strongMarker: EmphasisMarker.asterisk,
+			blankLinesAroundBlocks: true,
+			trimTrailingWhitespace: true,
+		}), text);
+	});
+});
@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { parseFrontMatter } from '../frontMatter';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { assertRangeEqual, joinLines, workspacePath } from './util';
+
+
+function parse(contents: string) {
+	return parseFrontMatter(new InMemoryDocument(workspacePath('test.md'), contents));
+}
+
+suite('Front matter', () => {
+
+	test('Should not find front matter in document without it', () => {
+		assert.strictEqual(parse(joinLines('# a', '---', 'b: c', '---')), undefined);
+		assert.strictEqual(parse(joinLines('text')), undefined);
+	});
+
+	test('Should not find front matter that is not closed', () => {
+		assert.strictEqual(parse(joinLines('---', 'title: a', '# b')), undefined);
+	});
+
+	test('Should parse front matter block', () => {
+		const frontMatter = parse(joinLines(
+			'---',
+			'title: My title # comment',
+			'tags:',
+			'  - a',
+			'layout: "post"',
+			'---',
+			'text',
+		))!;
+
+		assertRangeEqual(frontMatter.range, lsp.Range.create(0, 0, 5, 3));
+		assertRangeEqual(frontMatter.contentRange, lsp.Range.create(1, 0, 5, 0));
+		assert.strictEqual(frontMatter.title, 'My title');
+		assert.deepStrictEqual(Array.from(frontMatter.properties), [
+			['title', 'My title'],
+			['layout', 'post'],
+		]);
+	});
+
+	test('Should support ... as closing delimiter', () => {
+		const frontMatter = parse(joinLines(
+			'---',
+			`title: 'it''s'`,
+			'...',
+		))!;
+
+		assertRangeEqual(frontMatter.range, lsp.Range.create(0, 0, 2, 3));
+		assert.strictEqual(frontMatter.title, `it's`);
+	});
+});
@@ -24,7 +24,7 @@ function getHover(store: DisposableStore, doc: InMemoryDocument, pos: lsp.Positi
 	const engine = createNewMarkdownEngine();
 	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
 	const linkProvider = store.add(new MdLinkProvider(getLsConfiguration({}), engine, workspace, tocProvider, nulLogger));
-	const provider = new MdHoverProvider(linkProvider);
+	const provider = new MdHoverProvider(getLsConfiguration({}), workspace, linkProvider, tocProvider);
 	return provider.provideHover(doc, pos, noopToken);
 }
 
@@ -117,4 +117,108 @@ suite('Hover', () => {
 
 		assertRangeEqual(lsp.Range.create(0, 10, 0, 17), hover.range!);
 	}));
+
+	test('Should show footnote content on hover', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`text[^1] text[^missing]`,
+			``,
+			`[^1]: Some *note*`,
+			`    More text`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const hover = await getHover(store, doc, { line: 0, character: 6 }, workspace);
+		assert.ok(hover);
+		assert.deepStrictEqual(hover.contents, { kind: 'markdown', value: 'Some *note*\nMore text' });
+		assertRangeEqual(lsp.Range.create(0, 6, 0, 7), hover.range!);
+
+		assert.ok(!await getHover(store, doc, { line: 0, character: 16 }, workspace));
+	}));
+
+	test('Should show header section for links to headers', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](./other.md#install) [b](./other#no-such) [c](#local)`,
+			``,
+			`# Local`,
+			`local text`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('other.md'), joinLines(
+				`# Setup`,
+				`## Install`,
+				`Run the installer.`,
+				``,
+				`More text.`,
+				``,
+				`## Next`,
+			)),
+		]));
+
+		const hover = await getHover(store, doc, { line: 0, character: 6 }, workspace);
+		assert.ok(hover);
+		assert.deepStrictEqual(hover.contents, { kind: 'markdown', value: joinLines('## Install', 'Run the installer.', '', 'More text.') });
+		assertRangeEqual(lsp.Range.create(0, 4, 0, 22), hover.range!);
+
+		assert.ok(!await getHover(store, doc, { line: 0, character: 30 }, workspace));
+
+		const localHover = await getHover(store, doc, { line: 0, character: 51 }, workspace);
+		assert.deepStrictEqual(localHover?.contents, { kind: 'markdown', value: joinLines('# Local', 'local text') });
+	}));
+
+	test('Should show definition for reference links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[text][ref] [img][pic] [x][missing]`,
+			``,
+			`[ref]: ./a.md "Some title"`,
+			`[pic]: ./cat.png`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const hover = await getHover(store, doc, { line: 0, character: 8 }, workspace);
+		assert.ok(hover);
+		assert.deepStrictEqual(hover.contents, { kind: 'markdown', value: joinLines('`./a.md`', '', 'Some title') });
+		assertRangeEqual(lsp.Range.create(0, 7, 0, 10), hover.range!);
+
+		const imgHover = await getHover(store, doc, { line: 0, character: 19 }, workspace);
+		assert.ok(imgHover);
+		const src = await findMdImageSrc(imgHover);
+		assert.strictEqual(src?.toString(), workspacePath('cat.png').toString());
+
+		assert.ok(!await getHover(store, doc, { line: 0, character: 30 }, workspace));
+	}));
+
+	test('Should escape titles of definitions for reference links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[text][ref]`,
+			``,
+			`[ref]: ./a.md "Say \\"*hi*\\" <b>"`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const hover = await getHover(store, doc, { line: 0, character: 8 }, workspace);
+		assert.ok(hover);
+		assert.deepStrictEqual(hover.contents, { kind: 'markdown', value: joinLines('`./a.md`', '', 'Say "\\*hi\\*" \\<b>') });
+	}));
+
+	test('Should show number of uses when hovering link definition', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a][ref] [b][REF] [ref]`,
+			``,
+			`[ref]: http://example.com`,
+			`[single]: http://example.com`,
+			`[unused]: http://example.com`,
+			``,
+			`[c][single]`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const hover = await getHover(store, doc, { line: 2, character: 2 }, workspace);
+		assert.ok(hover);
+		assert.deepStrictEqual(hover.contents, { kind: 'markdown', value: 'Link definition is used 3 times' });
+		assertRangeEqual(lsp.Range.create(2, 0, 2, 25), hover.range!);
+
+		assert.deepStrictEqual((await getHover(store, doc, { line: 3, character: 2 }, workspace))?.contents, { kind: 'markdown', value: 'Link definition is used 1 time' });
+		assert.deepStrictEqual((await getHover(store, doc, { line: 4, character: 2 }, workspace))?.contents, { kind: 'markdown', value: 'Link definition is used 0 times' });
+	}));
 });
@@ -16,8 +16,12 @@ import { workspaceRoot } from './util';
 
 export class InMemoryWorkspace extends Disposable implements IWorkspaceWithWatching {
 
-	readonly #documents = new ResourceMap<ITextDocument>(uri => uri.fsPath);
-	readonly #additionalFiles = new ResourceMap<void>();
+	readonly #documents: ResourceMap<ITextDocument>;
+	/**
+	 * Files that are not markdown documents, along with their contents if they can be read.
+	 */
+	readonly #additionalFiles: ResourceMap<string | undefined>;
+	readonly #caseInsensitive: boolean;
 
 	readonly #watchers = new Set<{
 		readonly resource: URI;
@@ -35,20 +39,30 @@ export class InMemoryWorkspace extends Disposable implements IWorkspaceWithWatch
 	public readonly statCallList: URI[] = [];
 
 	constructor(
-		documents: ReadonlyArray<InMemoryDocument | URI>,
+		documents: ReadonlyArray<InMemoryDocument | URI | { readonly uri: URI; readonly contents: string }>,
 		options?: {
-			readonly roots: readonly URI[]
+			readonly roots?: readonly URI[];
+
+			/**
+			 * Should file paths be matched case insensitively, like on macOS and Windows?
+			 */
+			readonly caseInsensitive?: boolean;
 		}
 	) {
 		super();
 
 		this.#workspaceRoots = options?.roots ?? [workspaceRoot];
+		this.#caseInsensitive = !!options?.caseInsensitive;
+		this.#documents = new ResourceMap<ITextDocument>(uri => this.#toComparablePath(uri.fsPath));
+		this.#additionalFiles = new ResourceMap<string | undefined>(uri => this.#toComparablePath(uri.toString()));
 
 		for (const doc of documents) {
 			if (doc instanceof InMemoryDocument) {
 				this.#documents.set(getDocUri(doc), doc);
+			} else if (URI.isUri(doc)) {
+				this.#additionalFiles.set(doc, undefined);
 			} else {
-				this.#additionalFiles.set(doc);
+				this.#additionalFiles.set(doc.uri, doc.contents);
 			}
 		}
 	}
@@ -63,9 +77,9 @@ export class InMemoryWorkspace extends Disposable implements IWorkspaceWithWatch
 			return { isDirectory: false };
 		}
 
-		const pathPrefix = resource.fsPath + (resource.fsPath.endsWith('/') || resource.fsPath.endsWith('\\') ? '' : path.sep);
+		const pathPrefix = this.#toComparablePath(resource.fsPath + (resource.fsPath.endsWith('/') || resource.fsPath.endsWith('\\') ? '' : path.sep));
 		const allPaths = this.#getAllKnownFilePaths();
-		if (allPaths.some(path => path.startsWith(pathPrefix))) {
+		if (allPaths.some(path => this.#toComparablePath(path).startsWith(pathPrefix))) {
 			return { isDirectory: true };
 		}
 
@@ -88,12 +102,17 @@ export class InMemoryWorkspace extends Disposable implements IWorkspaceWithWatch
 		return this.#documents.has(resolvedHrefPath);
 	}
 
+	public async readFile(resource: URI): Promise<Uint8Array | undefined> {
+		const contents = this.#documents.get(resource)?.getText() ?? this.#additionalFiles.get(resource);
+		return contents === undefined ? undefined : new TextEncoder().encode(contents);
+	}
+
 	public async readDirectory(resource: URI): Promise<[string, FileStat][]> {
 		const files = new Map<string, FileStat>();
 		const pathPrefix = resource.fsPath + (resource.fsPath.endsWith('/') || resource.fsPath.endsWith('\\') ? '' : path.sep);
 		const allPaths = this.#getAllKnownFilePaths();
 		for (const path of allPaths) {
-			if (path.startsWith(pathPrefix)) {
+			if (this.#toComparablePath(path).startsWith(this.#toComparablePath(pathPrefix))) {
 				const parts = path.slice(pathPrefix.length).split(/\/|\\/g);
 				files.set(parts[0], parts.length > 1 ? { isDirectory: true } : { isDirectory: false });
 			}
@@ -110,6 +129,10 @@ export class InMemoryWorkspace extends Disposable implements IWorkspaceWithWatch
 	readonly #onDidDeleteMarkdownDocumentEmitter = this._register(new Emitter<URI>());
 	public onDidDeleteMarkdownDocument = this.#onDidDeleteMarkdownDocumentEmitter.event;
 
+	#toComparablePath(path: string): string {
+		return this.#caseInsensitive ? path.toLowerCase() : path;
+	}
+
 	#getAllKnownFilePaths(): string[] {
 		return [
 			...Array.from(this.#documents.values(), doc => getDocUri(doc).fsPath),
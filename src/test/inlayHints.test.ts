@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../config';
+import { MdLinkProvider } from '../languageFeatures/documentLinks';
+import { InlayHintOptions, MdInlayHintProvider } from '../languageFeatures/inlayHints';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+
+async function getInlayHints(store: DisposableStore, doc: InMemoryDocument, options: InlayHintOptions = {}, otherFiles: readonly InMemoryDocument[] = [], range = lsp.Range.create(0, 0, doc.lineCount, 0)): Promise<lsp.InlayHint[]> {
+	const workspace = store.add(new InMemoryWorkspace([doc, ...otherFiles]));
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const provider = new MdInlayHintProvider(config, workspace, linkProvider, tocProvider, nulLogger);
+	return provider.provideInlayHints(doc, range, options, noopToken);
+}
+
+function simplifyHints(hints: readonly lsp.InlayHint[]) {
+	return hints.map(hint => ({ line: hint.position.line, character: hint.position.character, label: hint.label }));
+}
+
+suite('Inlay hints', () => {
+	test('Should show header text after fragment links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A b`,
+			`[x](#a-b) [y](#missing) [z](./other.md#other-header) [w](./other.md)`,
+		));
+		const otherFiles = [
+			new InMemoryDocument(workspacePath('other.md'), `## Other *header*`),
+		];
+
+		const hints = await getInlayHints(store, doc, {}, otherFiles);
+		assert.deepStrictEqual(simplifyHints(hints), [
+			{ line: 1, character: 9, label: 'A b' },
+			{ line: 1, character: 52, label: 'Other header' },
+		]);
+		assert.ok(hints.every(hint => hint.paddingLeft));
+	}));
+
+	test('Should show destination after reference links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[x][ref] [y][missing] [Ref]`,
+			``,
+			`[ref]: http://example.com "title"`,
+		));
+
+		const hints = await getInlayHints(store, doc);
+		assert.deepStrictEqual(simplifyHints(hints), [
+			{ line: 0, character: 8, label: 'http://example.com' },
+			{ line: 0, character: 27, label: 'http://example.com' },
+		]);
+	}));
+
+	test('Should allow disabling each kind of hint', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A b`,
+			`[x](#a-b) [y][ref]`,
+			``,
+			`[ref]: ./doc.md`,
+		));
+
+		assert.deepStrictEqual(simplifyHints(await getInlayHints(store, doc, { fragmentLinks: false })), [
+			{ line: 1, character: 18, label: './doc.md' },
+		]);
+		assert.deepStrictEqual(simplifyHints(await getInlayHints(store, doc, { referenceLinks: false })), [
+			{ line: 1, character: 9, label: 'A b' },
+		]);
+		assert.deepStrictEqual(await getInlayHints(store, doc, { fragmentLinks: false, referenceLinks: false }), []);
+	}));
+
+	test('Should only return hints for links in the requested range', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A b`,
+			`[x](#a-b)`,
+			`[y](#a-b)`,
+		));
+
+		const hints = await getInlayHints(store, doc, {}, [], lsp.Range.create(2, 0, 2, 9));
+		assert.deepStrictEqual(simplifyHints(hints), [
+			{ line: 2, character: 9, label: 'A b' },
+		]);
+	}));
+});
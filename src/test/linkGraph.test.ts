@@ -0,0 +1,137 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { URI } from 'vscode-uri';
+import { getLsConfiguration } from '../config';
+import { createWorkspaceLinkCache } from '../languageFeatures/documentLinks';
+import { IMdLinkGraph, MdLinkGraphProvider } from '../languageFeatures/linkGraph';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { assertRangeEqual, DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+
+function createLinkGraphProvider(store: DisposableStore, workspace: InMemoryWorkspace): MdLinkGraphProvider {
+	const engine = createNewMarkdownEngine();
+	const linkCache = store.add(createWorkspaceLinkCache(engine, workspace));
+	return store.add(new MdLinkGraphProvider(getLsConfiguration({}), workspace, linkCache, nulLogger));
+}
+
+function getLinkGraph(store: DisposableStore, workspace: InMemoryWorkspace): Promise<IMdLinkGraph> {
+	return createLinkGraphProvider(store, workspace).getLinkGraph(noopToken);
+}
+
+function assertUrisEqual(actual: readonly URI[], expected: readonly URI[]) {
+	assert.deepStrictEqual(actual.map(uri => uri.toString()).sort(), expected.map(uri => uri.toString()).sort());
+}
+
+suite('Link graph', () => {
+
+	test('Should build graph of links between files', withStore(async (store) => {
+		const a = new InMemoryDocument(workspacePath('a.md'), joinLines(
+			`[b](./b.md#header)`,
+			`[self](#self)`,
+			`![img](./img.png)`,
+			`[external](https://example.com)`,
+		));
+		const b = new InMemoryDocument(workspacePath('b.md'), `[a](/a)`);
+		const graph = await getLinkGraph(store, store.add(new InMemoryWorkspace([a, b])));
+
+		assertUrisEqual(graph.nodes.map(node => node.uri), [a.$uri, b.$uri, workspacePath('img.png')]);
+		assert.strictEqual(graph.nodes.find(node => node.uri.toString() === workspacePath('img.png').toString())?.isMarkdownDocument, false);
+		assert.strictEqual(graph.edges.length, 3);
+
+		const outgoing = graph.getOutgoingLinks(a.$uri);
+		assertUrisEqual(outgoing.map(edge => edge.target), [b.$uri, workspacePath('img.png')]);
+		assert.strictEqual(outgoing[0].fragment, 'header');
+		assertRangeEqual(outgoing[0].hrefRange, lsp.Range.create(0, 4, 0, 17));
+
+		// Link without file extension should resolve to the markdown document
+		const backlinks = graph.getIncomingLinks(a.$uri);
+		assertUrisEqual(backlinks.map(edge => edge.source), [b.$uri]);
+	}));
+
+	test('Should find orphaned documents', withStore(async (store) => {
+		const graph = await getLinkGraph(store, store.add(new InMemoryWorkspace([
+			new InMemoryDocument(workspacePath('index.md'), `[a](./a.md)`),
+			new InMemoryDocument(workspacePath('a.md'), `[self](./a.md)`),
+			new InMemoryDocument(workspacePath('orphan.md'), `[a](./a.md)`),
+		])));
+
+		assertUrisEqual(graph.getOrphans(), [workspacePath('index.md'), workspacePath('orphan.md')]);
+	}));
+
+	test('Should resolve links to directories to their index file', withStore(async (store) => {
+		const readme = new InMemoryDocument(workspacePath('api', 'README.md'), `[up](../)`);
+		const index = new InMemoryDocument(workspacePath('index.md'), joinLines(
+			`[api](./api/)`,
+			`[api](./api)`,
+			`[docs](./docs/)`,
+		));
+		const graph = await getLinkGraph(store, store.add(new InMemoryWorkspace([
+			index,
+			readme,
+			new InMemoryDocument(workspacePath('docs', 'other.md'), `[api](../api/#auth)`),
+		])));
+
+		assertUrisEqual(graph.getIncomingLinks(readme.$uri).map(edge => edge.source), [index.$uri, index.$uri, workspacePath('docs', 'other.md')]);
+		assertUrisEqual(graph.getIncomingLinks(index.$uri).map(edge => edge.source), [readme.$uri]);
+		assertUrisEqual(graph.getOrphans(), [workspacePath('docs', 'other.md')]);
+
+		// Directories without an index file are still nodes
+		assert.strictEqual(graph.nodes.filter(node => !node.isMarkdownDocument).length, 1);
+	}));
+
+	test('Should find strongly connected clusters', withStore(async (store) => {
+		const graph = await getLinkGraph(store, store.add(new InMemoryWorkspace([
+			new InMemoryDocument(workspacePath('a.md'), `[b](./b.md)`),
+			new InMemoryDocument(workspacePath('b.md'), `[c](./c.md)`),
+			new InMemoryDocument(workspacePath('c.md'), joinLines(`[a](./a.md)`, `[d](./d.md)`)),
+			new InMemoryDocument(workspacePath('d.md'), `[e](./e.md)`),
+			new InMemoryDocument(workspacePath('e.md'), `[d](./d.md)`),
+			new InMemoryDocument(workspacePath('f.md'), `[a](./a.md)`),
+		])));
+
+		const clusters = graph.getStronglyConnectedClusters();
+		assert.strictEqual(clusters.length, 2);
+		assertUrisEqual(clusters.find(c => c.length === 3)!, [workspacePath('a.md'), workspacePath('b.md'), workspacePath('c.md')]);
+		assertUrisEqual(clusters.find(c => c.length === 2)!, [workspacePath('d.md'), workspacePath('e.md')]);
+	}));
+
+	test('Should update graph when documents change', withStore(async (store) => {
+		const a = new InMemoryDocument(workspacePath('a.md'), `[b](./b.md)`);
+		const b = new InMemoryDocument(workspacePath('b.md'), ``);
+		const workspace = store.add(new InMemoryWorkspace([a, b]));
+		const provider = createLinkGraphProvider(store, workspace);
+
+		{
+			const graph = await provider.getLinkGraph(noopToken);
+			assertUrisEqual(graph.getOrphans(), [a.$uri]);
+		}
+
+		workspace.updateDocument(a.replaceContents(''));
+		{
+			const graph = await provider.getLinkGraph(noopToken);
+			assertUrisEqual(graph.getOrphans(), [a.$uri, b.$uri]);
+		}
+
+		const c = new InMemoryDocument(workspacePath('c.md'), joinLines(`[a](./a.md)`, `[b](./b.md)`));
+		workspace.createDocument(c);
+		{
+			const graph = await provider.getLinkGraph(noopToken);
+			assertUrisEqual(graph.getOrphans(), [c.$uri]);
+		}
+
+		workspace.deleteDocument(c.$uri);
+		{
+			const graph = await provider.getLinkGraph(noopToken);
+			assertUrisEqual(graph.getOrphans(), [a.$uri, b.$uri]);
+		}
+	}));
+});
@@ -0,0 +1,166 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration, PreferredMdPathExtensionStyle } from '../config';
+import { MdLinkProvider } from '../languageFeatures/documentLinks';
+import { LinkStyleKind, LinkStyleOptions, MdLinkStyleProvider, RelativePathPrefixStyle } from '../languageFeatures/linkStyle';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { IWorkspace } from '../workspace';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+
+function createProvider(store: DisposableStore, workspace: IWorkspace): MdLinkStyleProvider {
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	return new MdLinkStyleProvider(config, workspace, linkProvider, nulLogger);
+}
+
+async function getNormalizedText(store: DisposableStore, doc: InMemoryDocument, options: LinkStyleOptions, otherFiles: readonly InMemoryDocument[] = []): Promise<string> {
+	const workspace = store.add(new InMemoryWorkspace([doc, ...otherFiles]));
+	const edits = await createProvider(store, workspace).getNormalizeLinkStyleEdits(doc, options, noopToken);
+	return doc.previewEdits(edits);
+}
+
+suite('Link style normalization', () => {
+	test('Should not return edits when links already follow style', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](./a.md) [b](#header) [c](http://example.com)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+		const edits = await createProvider(store, workspace).getNormalizeLinkStyleEdits(doc, { relativePathPrefix: RelativePathPrefixStyle.dotSlash }, noopToken);
+		assert.deepStrictEqual(edits, []);
+	}));
+
+	test('Should add and remove ./ prefix on relative paths', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](a.md) [b](./sub/b.md#x) [c](../c.md) [d](/d.md) [e](#e)`,
+			``,
+			`[def]: def.md`,
+		));
+
+		assert.strictEqual(await getNormalizedText(store, doc, { relativePathPrefix: RelativePathPrefixStyle.dotSlash }), joinLines(
+			`[a](./a.md) [b](./sub/b.md#x) [c](../c.md) [d](/d.md) [e](#e)`,
+			``,
+			`[def]: ./def.md`,
+		));
+
+		assert.strictEqual(await getNormalizedText(store, doc, { relativePathPrefix: RelativePathPrefixStyle.none }), joinLines(
+			`[a](a.md) [b](sub/b.md#x) [c](../c.md) [d](/d.md) [e](#e)`,
+			``,
+			`[def]: def.md`,
+		));
+	}));
+
+	test('Should add or remove markdown file extensions', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](./a.md#x) [b](./b) [img](./img.png) [missing](./missing)`,
+		));
+		const otherFiles = [
+			new InMemoryDocument(workspacePath('a.md'), ''),
+			new InMemoryDocument(workspacePath('b.md'), ''),
+		];
+
+		assert.strictEqual(await getNormalizedText(store, doc, { markdownFileExtensions: PreferredMdPathExtensionStyle.removeExtension }, otherFiles), joinLines(
+			`[a](./a#x) [b](./b) [img](./img.png) [missing](./missing)`,
+		));
+
+		assert.strictEqual(await getNormalizedText(store, doc, { markdownFileExtensions: PreferredMdPathExtensionStyle.includeExtension }, otherFiles), joinLines(
+			`[a](./a.md#x) [b](./b.md) [img](./img.png) [missing](./missing)`,
+		));
+	}));
+
+	test('Should only use angle brackets when required', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](<./a.md>) [b](<b c.md>)`,
+		));
+
+		assert.strictEqual(await getNormalizedText(store, doc, { relativePathPrefix: RelativePathPrefixStyle.dotSlash }), joinLines(
+			`[a](./a.md) [b](<./b c.md>)`,
+		));
+	}));
+
+	test('Should convert inline links to reference links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[Some Link](./a.md) and ![img](b.png "title")`,
+			`[again](a.md) [other][existing]`,
+			``,
+			`[existing]: http://example.com`,
+		));
+
+		assert.strictEqual(await getNormalizedText(store, doc, { linkKind: LinkStyleKind.reference, relativePathPrefix: RelativePathPrefixStyle.dotSlash }), joinLines(
+			`[Some Link][some-link] and ![img][img]`,
+			`[again][some-link] [other][existing]`,
+			``,
+			`[existing]: http://example.com`,
+			`[some-link]: ./a.md`,
+			`[img]: ./b.png "title"`,
+		));
+	}));
+
+	test('Should not change html links or autolinks', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`<a href="a.md">a</a> <img src="img.png">`,
+			`<http://example.com> http://example.org`,
+		));
+
+		for (const linkKind of [LinkStyleKind.reference, LinkStyleKind.inline]) {
+			const workspace = store.add(new InMemoryWorkspace([doc]));
+			const edits = await createProvider(store, workspace).getNormalizeLinkStyleEdits(doc, { linkKind, relativePathPrefix: RelativePathPrefixStyle.dotSlash }, noopToken);
+			assert.deepStrictEqual(edits, []);
+		}
+	}));
+
+	test('Should reuse existing definitions when converting to reference links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a](http://example.com) [b](<http://example.com>)`,
+			``,
+			`[example]: http://example.com`,
+		));
+
+		assert.strictEqual(await getNormalizedText(store, doc, { linkKind: LinkStyleKind.reference }), joinLines(
+			`[a][example] [b][example]`,
+			``,
+			`[example]: http://example.com`,
+		));
+	}));
+
+	test('Should convert reference links to inline links', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[a][ref] [ref] [b][Other] [c](./c.md)`,
+			``,
+			`[ref]: a.md "Title"`,
+			`[unused]: ./unused.md`,
+			`[other]: <./path with space.md>`,
+		));
+
+		assert.strictEqual(await getNormalizedText(store, doc, { linkKind: LinkStyleKind.inline, relativePathPrefix: RelativePathPrefixStyle.none }), joinLines(
+			`[a](a.md "Title") [ref](a.md "Title") [b](<path with space.md>) [c](c.md)`,
+			``,
+			`[unused]: unused.md`,
+		));
+	}));
+
+	test('Should return edits for all files in workspace', withStore(async (store) => {
+		const doc1 = new InMemoryDocument(workspacePath('doc1.md'), `[a](a.md)`);
+		const doc2 = new InMemoryDocument(workspacePath('sub', 'doc2.md'), `[b](./b.md)`);
+		const doc3 = new InMemoryDocument(workspacePath('doc3.md'), `[c](./c.md)`);
+		const workspace = store.add(new InMemoryWorkspace([doc1, doc2, doc3]));
+
+		const edit = await createProvider(store, workspace).getNormalizeLinkStyleWorkspaceEdit({ relativePathPrefix: RelativePathPrefixStyle.dotSlash }, noopToken);
+		const changes = edit.documentChanges as lsp.TextDocumentEdit[];
+		assert.deepStrictEqual(changes.map(change => change.textDocument.uri), [doc1.uri]);
+		assert.strictEqual(doc1.previewEdits(changes[0].edits), `[a](./a.md)`);
+	}));
+});
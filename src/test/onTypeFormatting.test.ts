@@ -0,0 +1,186 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { MdOnTypeFormattingProvider } from '../languageFeatures/onTypeFormatting';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { createNewMarkdownEngine } from './engine';
+import { nulLogger } from './nulLogging';
+import { joinLines, workspacePath } from './util';
+
+
+async function getEdits(doc: InMemoryDocument, pos: lsp.Position, ch = '\n'): Promise<lsp.TextEdit[]> {
+	const provider = new MdOnTypeFormattingProvider(createNewMarkdownEngine(), nulLogger);
+	return provider.provideOnTypeFormattingEdits(doc, pos, ch, noopToken);
+}
+
+/**
+ * Get the text after typing enter at the end of `line`.
+ */
+async function pressEnter(text: string, line: number): Promise<string> {
+	const lines = text.split('\n');
+	lines.splice(line + 1, 0, '');
+	const doc = new InMemoryDocument(workspacePath('doc.md'), lines.join('\n'));
+	return doc.previewEdits(await getEdits(doc, lsp.Position.create(line + 1, 0)));
+}
+
+suite('On type formatting', () => {
+	test('Should continue bullet lists', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`- a`,
+		), 0), joinLines(
+			`- a`,
+			`- `,
+		));
+
+		assert.strictEqual(await pressEnter(joinLines(
+			`*   a`,
+		), 0), joinLines(
+			`*   a`,
+			`*   `,
+		));
+	});
+
+	test('Should continue task list items as unchecked', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`- [x] done`,
+		), 0), joinLines(
+			`- [x] done`,
+			`- [ ] `,
+		));
+	});
+
+	test('Should continue nested lists and blockquotes', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`- a`,
+			`    - b`,
+		), 1), joinLines(
+			`- a`,
+			`    - b`,
+			`    - `,
+		));
+
+		assert.strictEqual(await pressEnter(joinLines(
+			`> quote`,
+		), 0), joinLines(
+			`> quote`,
+			`> `,
+		));
+
+		assert.strictEqual(await pressEnter(joinLines(
+			`> - a`,
+		), 0), joinLines(
+			`> - a`,
+			`> - `,
+		));
+	});
+
+	test('Should replace indentation added by the editor', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`  - a`,
+			`  `,
+		));
+		assert.strictEqual(doc.previewEdits(await getEdits(doc, lsp.Position.create(1, 2))), joinLines(
+			`  - a`,
+			`  - `,
+		));
+	});
+
+	test('Should remove empty list markers', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`- a`,
+			`- `,
+		), 1), joinLines(
+			`- a`,
+			``,
+		));
+
+		assert.strictEqual(await pressEnter(joinLines(
+			`> - a`,
+			`> - [ ] `,
+		), 1), joinLines(
+			`> - a`,
+			`> `,
+		));
+	});
+
+	test('Should continue and renumber ordered lists', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`1. a`,
+			`2. b`,
+			`3. c`,
+		), 0), joinLines(
+			`1. a`,
+			`2. `,
+			`3. b`,
+			`4. c`,
+		));
+
+		assert.strictEqual(await pressEnter(joinLines(
+			`9) a`,
+		), 0), joinLines(
+			`9) a`,
+			`10) `,
+		));
+	});
+
+	test('Should keep numbering of lists where all items have the same number', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`1. a`,
+			`1. b`,
+			`1. c`,
+		), 1), joinLines(
+			`1. a`,
+			`1. b`,
+			`1. `,
+			`1. c`,
+		));
+	});
+
+	test('Should only renumber items of the same list', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`1. a`,
+			`    1. b`,
+			`    2. c`,
+			`2. d`,
+		), 1), joinLines(
+			`1. a`,
+			`    1. b`,
+			`    2. `,
+			`    3. c`,
+			`2. d`,
+		));
+	});
+
+	test('Should not return edits outside of lists or in code blocks', async () => {
+		assert.strictEqual(await pressEnter(joinLines(
+			`text`,
+		), 0), joinLines(
+			`text`,
+			``,
+		));
+
+		assert.strictEqual(await pressEnter(joinLines(
+			'```',
+			`- a`,
+			'```',
+		), 1), joinLines(
+			'```',
+			`- a`,
+			``,
+			'```',
+		));
+	});
+
+	test('Should only handle new lines', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`- a`,
+			``,
+		));
+		assert.deepStrictEqual(await getEdits(doc, lsp.Position.create(1, 0), ';'), []);
+	});
+});
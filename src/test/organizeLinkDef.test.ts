@@ -55,6 +55,41 @@ suite('Organize link definitions', () => {
 		));
 	}));
 
+	test('Should keep titles with their definitions when sorting', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`[b]: http://b.com`,
+			`"title b"`,
+			`[a]: http://a.com`,
+			`"title a"`,
+			`[c]: http://c.com 'title c'`,
+		));
+		const edits = await getOrganizeEdits(store, doc);
+		const newContent = doc.previewEdits(edits);
+		assert.deepStrictEqual(newContent, joinLines(
+			`[a]: http://a.com "title a"`,
+			`[b]: http://b.com "title b"`,
+			`[c]: http://c.com 'title c'`,
+		));
+	}));
+
+	test('Should move definitions whose title is on the next line to bottom of file', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
+			`x`,
+			`[a]: http://example.com`,
+			`  (title)`,
+			`y`,
+		));
+		const edits = await getOrganizeEdits(store, doc);
+		const newContent = doc.previewEdits(edits);
+		assert.deepStrictEqual(newContent, joinLines(
+			`x`,
+			``,
+			`y`,
+			``,
+			`[a]: http://example.com (title)`,
+		));
+	}));
+
 	test('Should move link definition to bottom of file', withStore(async (store) => {
 		const doc = new InMemoryDocument(workspacePath('test.md'), joinLines(
 			`x`,
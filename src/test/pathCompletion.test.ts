@@ -910,4 +910,115 @@ suite('Path completions', () => {
 			]);
 		}));
 	});
+
+	test('Should use front matter title as completion detail', withStore(async (store) => {
+		const workspace = store.add(new InMemoryWorkspace([
+			new InMemoryDocument(workspacePath('a.md'), joinLines(
+				'---',
+				`title: 'Page ''a'''`,
+				'---',
+			)),
+			new InMemoryDocument(workspacePath('b.md'), ''),
+		]));
+
+		const completions = await getCompletionsAtCursorForFileContents(store, workspacePath('new.md'), `[](./${CURSOR}`, workspace);
+		assertCompletionsEqual(completions, [
+			{ label: 'a.md' },
+			{ label: 'b.md' },
+		]);
+		assert.strictEqual(completions[0].detail, `Page 'a'`);
+		assert.strictEqual(completions[1].detail, `Link to 'b.md'`);
+	}));
+
+	test('Should update front matter title detail when the document changes', withStore(async (store) => {
+		const a = new InMemoryDocument(workspacePath('a.md'), joinLines('---', `title: Old`, '---'));
+		const doc = new InMemoryDocument(workspacePath('new.md'), `[](./${CURSOR}`);
+		const workspace = store.add(new InMemoryWorkspace([a, doc]));
+
+		const engine = createNewMarkdownEngine();
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const linkProvider = store.add(new MdLinkProvider(getLsConfiguration({}), engine, workspace, tocProvider, nulLogger));
+		const provider = new MdPathCompletionProvider(getLsConfiguration({}), workspace, engine, linkProvider, tocProvider);
+		const getDetail = async () => {
+			const completions = await provider.provideCompletionItems(doc, getCursorPositions(doc.getText(), doc)[0], { triggerKind: lsp.CompletionTriggerKind.Invoked }, noopToken);
+			return completions.find(item => item.label === 'a.md')?.detail;
+		};
+
+		assert.strictEqual(await getDetail(), 'Old');
+
+		workspace.updateDocument(a.replaceContents(joinLines('---', `title: New`, '---')));
+		assert.strictEqual(await getDetail(), 'New');
+	}));
+
+	test('Should return completions for explicit header ids and html anchors', withStore(async (store) => {
+		const completions = await getCompletionsAtCursorForFileContents(store, workspacePath('new.md'), joinLines(
+			`[](#${CURSOR}`,
+			``,
+			`# Setup {#Install}`,
+			`<a id="legacy-anchor"></a>`,
+		));
+
+		assertCompletionsEqual(completions, [
+			{ label: '#Install' },
+			{ label: '#legacy-anchor' },
+		]);
+	}));
+
+	test('Should return line number completions after #L', withStore(async (store) => {
+		const completions = await getCompletionsAtCursorForFileContents(store, workspacePath('new.md'), joinLines(
+			`[](#L${CURSOR}`,
+			`a`,
+			`b`,
+		));
+
+		assertCompletionsEqual(completions, [
+			{ label: '#L1' },
+			{ label: '#L2' },
+			{ label: '#L3' },
+		]);
+		assert.strictEqual(completions[1].detail, 'a');
+	}));
+
+	test('Should return line range completions for other file', withStore(async (store) => {
+		const workspace = store.add(new InMemoryWorkspace([
+			new InMemoryDocument(workspacePath('b.md'), joinLines(
+				`a`,
+				`b`,
+				`c`,
+				`d`,
+			)),
+		]));
+		const completions = await getCompletionsAtCursorForFileContents(store, workspacePath('new.md'), joinLines(
+			`[](/b.md#L2-${CURSOR}`,
+		), workspace);
+
+		assertCompletionsEqual(completions, [
+			{ label: '#L2-L3', insertStart: lsp.Position.create(0, 8) },
+			{ label: '#L2-L4', insertStart: lsp.Position.create(0, 8) },
+		]);
+	}));
+
+	test('Should return line number completions for files that are not markdown', withStore(async (store) => {
+		const workspace = store.add(new InMemoryWorkspace([
+			{ uri: workspacePath('file.ts'), contents: joinLines(`a`, `b`) },
+		]));
+		const completions = await getCompletionsAtCursorForFileContents(store, workspacePath('new.md'), joinLines(
+			`[](./file.ts#L${CURSOR}`,
+		), workspace);
+
+		assertCompletionsEqual(completions, [
+			{ label: '#L1', insertStart: lsp.Position.create(0, 12) },
+			{ label: '#L2', insertStart: lsp.Position.create(0, 12) },
+		]);
+	}));
+
+	test('Should only return line number completions that match the typed number', withStore(async (store) => {
+		const completions = await getCompletionsAtCursorForFileContents(store, workspacePath('new.md'), joinLines(
+			`[](#L1${CURSOR}`,
+			...Array.from({ length: 500 }, () => `x`),
+		));
+
+		assert.strictEqual(completions.length, 100);
+		assert.ok(completions.every(completion => completion.label.startsWith('#L1')));
+	}));
 });
@@ -223,6 +223,44 @@ suite('References', () => {
 		);
 	}));
 
+	test('Should find references to footnote', withStore(async (store) => {
+		const uri = workspacePath('doc.md');
+		const doc = new InMemoryDocument(uri, joinLines(
+			`a[^1]`,
+			`b[^2]`,
+			`c[^1]`,
+			``,
+			`[^1]: note`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const refs = await getReferences(store, doc, { line: 4, character: 2 }, workspace);
+		assertReferencesEqual(refs!,
+			{ uri, line: 0 },
+			{ uri, line: 2 },
+			{ uri, line: 4 }, // Footnote definition
+		);
+	}));
+
+	test('Should find references to footnote that only differ in casing', withStore(async (store) => {
+		const uri = workspacePath('doc.md');
+		const doc = new InMemoryDocument(uri, joinLines(
+			`a[^Note]`,
+			`b[^other]`,
+			`c[^note]`,
+			``,
+			`[^NOTE]: note`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const refs = await getReferences(store, doc, { line: 4, character: 2 }, workspace);
+		assertReferencesEqual(refs!,
+			{ uri, line: 0 },
+			{ uri, line: 2 },
+			{ uri, line: 4 }, // Footnote definition
+		);
+	}));
+
 	test('Should find references from link across files', withStore(async (store) => {
 		const docUri = workspacePath('doc.md');
 		const other1Uri = workspacePath('sub', 'other.md');
@@ -759,4 +797,30 @@ suite('References', () => {
 			);
 		}));
 	});
+
+	test('Should find references to html anchors', withStore(async (store) => {
+		const uri = workspacePath('doc.md');
+		const otherUri = workspacePath('other.md');
+		const doc = new InMemoryDocument(uri, joinLines(
+			`<a id="legacy-anchor"></a>`,
+			`[a](#legacy-anchor)`,
+			`[b](#other)`,
+		));
+		const other = new InMemoryDocument(otherUri, joinLines(
+			`[c](./doc.md#legacy-anchor)`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc, other]));
+
+		const expected = [
+			{ uri, line: 0, startCharacter: 7, endCharacter: 20 },
+			{ uri, line: 1 },
+			{ uri: otherUri, line: 0 },
+		];
+
+		// Trigger on anchor
+		assertReferencesEqual(await getReferences(store, doc, { line: 0, character: 10 }, workspace), ...expected);
+
+		// Trigger on link
+		assertReferencesEqual(await getReferences(store, doc, { line: 1, character: 8 }, workspace), ...expected);
+	}));
 });
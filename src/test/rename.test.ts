@@ -216,6 +216,60 @@ suite('Rename', () => {
 			});
 		}));
 
+		test('Rename on header in index file should pick up links to its directory', withStore(async (store) => {
+			const uri = workspacePath('api', 'README.md');
+			const otherUri = workspacePath('other.md');
+			const doc = new InMemoryDocument(uri, joinLines(
+				`# Auth`, // rename here
+			));
+
+			const edit = await getRenameEdits(store, doc, { line: 0, character: 2 }, 'Login', new InMemoryWorkspace([
+				doc,
+				new InMemoryDocument(otherUri, joinLines(
+					`[text](./api/#auth)`,
+					`[text](./api#auth)`,
+					`[text](./api/README.md#auth)`,
+				))
+			]));
+			assertEditsEqual(edit!, {
+				uri: uri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(0, 2, 0, 6), 'Login'),
+				]
+			}, {
+				uri: otherUri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(0, 14, 0, 18), 'login'),
+					lsp.TextEdit.replace(lsp.Range.create(1, 13, 1, 17), 'login'),
+					lsp.TextEdit.replace(lsp.Range.create(2, 23, 2, 27), 'login'),
+				]
+			});
+		}));
+
+		test('Rename on header in index file should not pick up links to its directory if another index file takes precedence', withStore(async (store) => {
+			const uri = workspacePath('api', 'README.md');
+			const otherUri = workspacePath('other.md');
+			const doc = new InMemoryDocument(uri, joinLines(
+				`# Auth`, // rename here
+			));
+
+			const edit = await getRenameEdits(store, doc, { line: 0, character: 2 }, 'Login', new InMemoryWorkspace([
+				doc,
+				new InMemoryDocument(workspacePath('api', 'index.md'), `# Auth`),
+				new InMemoryDocument(otherUri, joinLines(
+					`[text](./api/#auth)`,
+					`[text](./api/README.md#auth)`,
+				))
+			]));
+			assertEditsEqual(edit!, {
+				uri: uri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(0, 2, 0, 6), 'Login'),
+				]
+			}, {
+				uri: otherUri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(1, 23, 1, 27), 'login'),
+				]
+			});
+		}));
+
 		test('Rename on link should pick up links across files', withStore(async (store) => {
 			const uri = workspacePath('doc.md');
 			const otherUri = workspacePath('other.md');
@@ -401,6 +455,26 @@ suite('Rename', () => {
 			});
 		}));
 
+		test('Rename on footnote should rename references and definition', withStore(async (store) => {
+			const uri = workspacePath('doc.md');
+			const doc = new InMemoryDocument(uri, joinLines(
+				`a[^note] b[^note]`, // rename here
+				`[^other]`,
+				``,
+				`[^note]: Some note`,
+			));
+
+			const workspace = store.add(new InMemoryWorkspace([doc]));
+			const edit = await getRenameEdits(store, doc, { line: 0, character: 4 }, 'new-note', workspace);
+			assertEditsEqual(edit!, {
+				uri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(0, 3, 0, 7), 'new-note'),
+					lsp.TextEdit.replace(lsp.Range.create(0, 12, 0, 16), 'new-note'),
+					lsp.TextEdit.replace(lsp.Range.create(3, 2, 3, 6), 'new-note'),
+				]
+			});
+		}));
+
 		test('Rename on definition entry should rename header and references', withStore(async (store) => {
 			const uri = workspacePath('doc.md');
 			const doc = new InMemoryDocument(uri, joinLines(
@@ -908,4 +982,57 @@ suite('Rename', () => {
 			});
 		}));
 	});
+
+	suite('Explicit id rename', () => {
+
+		test('Rename on header with explicit id should rename id', withStore(async (store) => {
+			const uri = workspacePath('doc.md');
+			const doc = new InMemoryDocument(uri, joinLines(
+				`# Setup {#install}`,
+				`[a](#install)`,
+			));
+			const workspace = store.add(new InMemoryWorkspace([doc]));
+
+			const info = await prepareRename(store, doc, { line: 0, character: 0 }, workspace);
+			assertRangeEqual(info!.range, lsp.Range.create(0, 10, 0, 17));
+			assert.strictEqual(info!.placeholder, 'install');
+
+			const edit = await getRenameEdits(store, doc, { line: 0, character: 0 }, 'Getting-Started', workspace);
+			assertEditsEqual(edit!, {
+				uri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(0, 10, 0, 17), 'Getting-Started'),
+					lsp.TextEdit.replace(lsp.Range.create(1, 5, 1, 12), 'Getting-Started'),
+				]
+			});
+		}));
+
+		test('Rename on link to html anchor should rename anchor', withStore(async (store) => {
+			const uri = workspacePath('doc.md');
+			const otherUri = workspacePath('other.md');
+			const doc = new InMemoryDocument(uri, joinLines(
+				`<a name="old"></a>`,
+				`[a](#old)`,
+			));
+			const other = new InMemoryDocument(otherUri, joinLines(
+				`[b](./doc.md#old)`,
+			));
+			const workspace = store.add(new InMemoryWorkspace([doc, other]));
+
+			const info = await prepareRename(store, doc, { line: 1, character: 6 }, workspace);
+			assertRangeEqual(info!.range, lsp.Range.create(1, 5, 1, 8));
+			assert.strictEqual(info!.placeholder, 'old');
+
+			const edit = await getRenameEdits(store, doc, { line: 1, character: 6 }, 'new', workspace);
+			assertEditsEqual(edit!, {
+				uri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(0, 9, 0, 12), 'new'),
+					lsp.TextEdit.replace(lsp.Range.create(1, 5, 1, 8), 'new'),
+				]
+			}, {
+				uri: otherUri, edits: [
+					lsp.TextEdit.replace(lsp.Range.create(0, 13, 0, 16), 'new'),
+				]
+			});
+		}));
+	});
 }); 
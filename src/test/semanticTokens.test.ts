@@ -0,0 +1,171 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../config';
+import { DiagnosticComputer, DiagnosticLevel, DiagnosticOptions, MdDiagnosticsCache } from '../languageFeatures/diagnostics';
+import { MdLinkProvider } from '../languageFeatures/documentLinks';
+import { MdSemanticTokensProvider, semanticTokensLegend } from '../languageFeatures/semanticTokens';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { IWorkspace } from '../workspace';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+
+interface DecodedToken {
+	readonly line: number;
+	readonly start: number;
+	readonly length: number;
+	readonly type: string;
+	readonly modifiers: readonly string[];
+}
+
+function decodeTokens(tokens: lsp.SemanticTokens): DecodedToken[] {
+	const result: DecodedToken[] = [];
+	let line = 0;
+	let start = 0;
+	for (let i = 0; i < tokens.data.length; i += 5) {
+		const [deltaLine, deltaStart, length, type, modifiers] = tokens.data.slice(i, i + 5);
+		start = deltaLine === 0 ? start + deltaStart : deltaStart;
+		line += deltaLine;
+		result.push({
+			line,
+			start,
+			length,
+			type: semanticTokensLegend.tokenTypes[type],
+			modifiers: semanticTokensLegend.tokenModifiers.filter((_, bit) => modifiers & (1 << bit)),
+		});
+	}
+	return result;
+}
+
+function createProviders(store: DisposableStore, workspace: IWorkspace) {
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const diagnosticsCache = store.add(new MdDiagnosticsCache(workspace));
+	return {
+		diagnosticsComputer: new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger, undefined, diagnosticsCache),
+		semanticTokensProvider: new MdSemanticTokensProvider(engine, linkProvider, diagnosticsCache, nulLogger),
+	};
+}
+
+const diagnosticOptions: DiagnosticOptions = {
+	validateFileLinks: DiagnosticLevel.warning,
+	validateReferences: DiagnosticLevel.warning,
+	validateFragmentLinks: DiagnosticLevel.warning,
+	validateMarkdownFileLinkFragments: DiagnosticLevel.warning,
+	validateUnusedLinkDefinitions: DiagnosticLevel.ignore,
+	validateDuplicateLinkDefinitions: DiagnosticLevel.ignore,
+	ignoreLinks: [],
+};
+
+suite('Semantic tokens', () => {
+	test('Should classify headers by level and front matter', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`---`,
+			`title: x`,
+			`---`,
+			`# One`,
+			`text`,
+			`### Three`,
+			`Two`,
+			`---`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const tokens = await createProviders(store, workspace).semanticTokensProvider.provideDocumentSemanticTokens(doc, noopToken);
+		assert.deepStrictEqual(decodeTokens(tokens), [
+			{ line: 0, start: 0, length: 3, type: 'frontMatter', modifiers: [] },
+			{ line: 1, start: 0, length: 8, type: 'frontMatter', modifiers: [] },
+			{ line: 2, start: 0, length: 3, type: 'frontMatter', modifiers: [] },
+			{ line: 3, start: 0, length: 5, type: 'heading', modifiers: ['level1'] },
+			{ line: 5, start: 0, length: 9, type: 'heading', modifiers: ['level3'] },
+			{ line: 6, start: 0, length: 3, type: 'heading', modifiers: ['level2'] },
+			{ line: 7, start: 0, length: 3, type: 'heading', modifiers: ['level2'] },
+		]);
+	}));
+
+	test('Should classify link text, destinations, reference names, and definitions', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[ab](x.md) ![i](i.png) [cd][ref] <http://a.com>`,
+			``,
+			`[ref]: http://e.com`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const tokens = await createProviders(store, workspace).semanticTokensProvider.provideDocumentSemanticTokens(doc, noopToken);
+		assert.deepStrictEqual(decodeTokens(tokens), [
+			{ line: 0, start: 1, length: 2, type: 'linkText', modifiers: [] },
+			{ line: 0, start: 5, length: 4, type: 'linkDestination', modifiers: [] },
+			{ line: 0, start: 13, length: 1, type: 'linkText', modifiers: [] },
+			{ line: 0, start: 16, length: 5, type: 'linkDestination', modifiers: [] },
+			{ line: 0, start: 24, length: 2, type: 'linkText', modifiers: [] },
+			{ line: 0, start: 28, length: 3, type: 'referenceName', modifiers: [] },
+			{ line: 0, start: 34, length: 12, type: 'linkDestination', modifiers: [] },
+			{ line: 2, start: 1, length: 3, type: 'referenceName', modifiers: ['declaration'] },
+			{ line: 2, start: 7, length: 12, type: 'linkDestination', modifiers: ['declaration'] },
+		]);
+	}));
+
+	test('Should draw links on top of headers', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `## A [b](#c)`);
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const tokens = await createProviders(store, workspace).semanticTokensProvider.provideDocumentSemanticTokens(doc, noopToken);
+		assert.deepStrictEqual(decodeTokens(tokens), [
+			{ line: 0, start: 0, length: 6, type: 'heading', modifiers: ['level2'] },
+			{ line: 0, start: 6, length: 1, type: 'linkText', modifiers: [] },
+			{ line: 0, start: 7, length: 2, type: 'heading', modifiers: ['level2'] },
+			{ line: 0, start: 9, length: 2, type: 'linkDestination', modifiers: [] },
+			{ line: 0, start: 11, length: 1, type: 'heading', modifiers: ['level2'] },
+		]);
+	}));
+
+	test('Should mark broken links using the cached diagnostics for the current document version', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A`,
+			`[x](#a) [y](#missing) [z][nope]`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+		const { diagnosticsComputer, semanticTokensProvider } = createProviders(store, workspace);
+
+		const getBrokenTokens = async () => {
+			const tokens = await semanticTokensProvider.provideDocumentSemanticTokens(doc, noopToken);
+			return decodeTokens(tokens).filter(token => token.modifiers.includes('broken')).map(token => token.start);
+		};
+
+		// No diagnostics computed yet
+		assert.deepStrictEqual(await getBrokenTokens(), []);
+
+		await diagnosticsComputer.compute(doc, diagnosticOptions, noopToken);
+		assert.deepStrictEqual(await getBrokenTokens(), [12, 26]);
+
+		// Cached diagnostics are for an older version
+		doc.applyEdits([lsp.TextEdit.insert(lsp.Position.create(1, 31), '\n')]);
+		assert.deepStrictEqual(await getBrokenTokens(), []);
+	}));
+
+	test('Should only return tokens in the requested range', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# A`,
+			`[ab](x.md)`,
+			`## B`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const tokens = await createProviders(store, workspace).semanticTokensProvider.provideDocumentRangeSemanticTokens(doc, lsp.Range.create(1, 3, 2, 2), noopToken);
+		assert.deepStrictEqual(decodeTokens(tokens), [
+			{ line: 1, start: 5, length: 4, type: 'linkDestination', modifiers: [] },
+			{ line: 2, start: 0, length: 2, type: 'heading', modifiers: ['level2'] },
+		]);
+	}));
+});
@@ -0,0 +1,82 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getLsConfiguration } from '../config';
+import { azureDevOpsSlugifier, docusaurusSlugifier, githubSlugifier, gitlabSlugifier, ISlugifier, pandocSlugifier } from '../slugify';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { joinLines, withStore, workspacePath } from './util';
+
+
+function getSlugs(slugifier: ISlugifier, ...headings: string[]): string[] {
+	const builder = slugifier.createBuilder();
+	return headings.map(heading => builder.add(heading).value);
+}
+
+suite('Slugifiers', () => {
+	test('GitLab slugifier should remove punctuation and collapse dashes', () => {
+		assert.deepStrictEqual(getSlugs(gitlabSlugifier, 'Hello World!', 'a -- b', 'Snake_case', 'Ünïcödé 123'), ['hello-world', 'a-b', 'snake_case', 'ünïcödé-123']);
+	});
+
+	test('GitLab slugifier should number duplicate headings', () => {
+		assert.deepStrictEqual(getSlugs(gitlabSlugifier, 'A', 'A', 'A'), ['a', 'a-1', 'a-2']);
+	});
+
+	test('Azure DevOps slugifier should encode special characters', () => {
+		assert.deepStrictEqual(getSlugs(azureDevOpsSlugifier, 'Hello World', 'C# & F#'), ['hello-world', 'c%23-%26-f%23']);
+	});
+
+	test('Azure DevOps slugifier should match encoded and decoded fragments', () => {
+		const slug = azureDevOpsSlugifier.fromHeading('C# & F#');
+		assert.ok(azureDevOpsSlugifier.fromFragment('c%23-%26-f%23').equals(slug));
+		assert.ok(azureDevOpsSlugifier.fromFragment('C#-&-F#').equals(slug));
+	});
+
+	test('Docusaurus slugifier should match GitHub', () => {
+		assert.deepStrictEqual(
+			getSlugs(docusaurusSlugifier, 'Hello World!', 'Hello World!'),
+			getSlugs(githubSlugifier, 'Hello World!', 'Hello World!'));
+	});
+
+	test('Pandoc slugifier should follow auto_identifiers rules', () => {
+		assert.deepStrictEqual(
+			getSlugs(pandocSlugifier, 'Heading identifiers in HTML', 'Dogs?--in *my* house?', '[HTML], [S5], or [RTF]?', '3. Applications', '33'),
+			['heading-identifiers-in-html', 'dogs--in-my-house', 'html-s5-or-rtf', 'applications', 'section']);
+	});
+
+	test('Pandoc slugifier should skip over existing ids for duplicate headings', () => {
+		assert.deepStrictEqual(getSlugs(pandocSlugifier, 'a', 'a-1', 'a', '1', '2'), ['a', 'a-1', 'a-2', 'section', 'section-1']);
+	});
+
+	test('Should select slugifier per workspace folder', withStore(async (store) => {
+		const contents = joinLines(
+			`# C# Notes`,
+			`# C# Notes`,
+		);
+		const gitlabDoc = new InMemoryDocument(workspacePath('gitlab', 'doc.md'), contents);
+		const azureDoc = new InMemoryDocument(workspacePath('azure', 'doc.md'), contents);
+		const otherDoc = new InMemoryDocument(workspacePath('doc.md'), contents);
+		const workspace = store.add(new InMemoryWorkspace([gitlabDoc, azureDoc, otherDoc]));
+
+		const config = getLsConfiguration({
+			workspaceFolderSlugifiers: [
+				{ folder: workspacePath('gitlab'), slugifier: gitlabSlugifier },
+				{ folder: workspacePath('azure'), slugifier: azureDevOpsSlugifier },
+			]
+		});
+		const provider = store.add(new MdTableOfContentsProvider(createNewMarkdownEngine(), workspace, nulLogger, config));
+
+		assert.deepStrictEqual((await provider.getForDocument(gitlabDoc)).entries.map(entry => entry.slug.value), ['c-notes', 'c-notes-1']);
+		assert.deepStrictEqual((await provider.getForDocument(azureDoc)).entries.map(entry => entry.slug.value), ['c%23-notes', 'c%23-notes-1']);
+		assert.deepStrictEqual((await provider.getForDocument(otherDoc)).entries.map(entry => entry.slug.value), ['c-notes', 'c-notes-1']);
+
+		assert.ok((await provider.getForDocument(azureDoc)).lookupByFragment('c#-notes'));
+		assert.strictEqual((await provider.getForDocument(otherDoc)).lookupByFragment('c#-notes'), undefined);
+	}));
+});
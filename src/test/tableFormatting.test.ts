@@ -0,0 +1,175 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { MdTableFormattingProvider, splitTableRow } from '../languageFeatures/tableFormatting';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { getDisplayWidth } from '../util/string';
+import { createNewMarkdownEngine } from './engine';
+import { nulLogger } from './nulLogging';
+import { joinLines, workspacePath } from './util';
+
+
+function createProvider(): MdTableFormattingProvider {
+	return new MdTableFormattingProvider(createNewMarkdownEngine(), nulLogger);
+}
+
+async function getFormattedText(doc: InMemoryDocument, range?: lsp.Range): Promise<string> {
+	const provider = createProvider();
+	const edits = range
+		? await provider.provideRangeFormattingEdits(doc, range, noopToken)
+		: await provider.provideDocumentFormattingEdits(doc, noopToken);
+	return doc.previewEdits(edits);
+}
+
+suite('Table formatting', () => {
+	test('Should align columns', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`a|bb`,
+			`-|-`,
+			`ccc|d`,
+		));
+
+		assert.strictEqual(await getFormattedText(doc), joinLines(
+			`| a   | bb  |`,
+			`|-----|-----|`,
+			`| ccc | d   |`,
+		));
+	});
+
+	test('Should not return edits for tables that are already formatted', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`| a   | bb  |`,
+			`|-----|-----|`,
+			`| ccc | d   |`,
+		));
+
+		const edits = await createProvider().provideDocumentFormattingEdits(doc, noopToken);
+		assert.deepStrictEqual(edits, []);
+	});
+
+	test('Should respect column alignment', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`| left | center | right | none |`,
+			`|:-|:-:|-:|-|`,
+			`| a | b | c | d |`,
+		));
+
+		assert.strictEqual(await getFormattedText(doc), joinLines(
+			`| left | center | right | none |`,
+			`|:-----|:------:|------:|------|`,
+			`| a    |   b    |     c | d    |`,
+		));
+	});
+
+	test('Should not split cells on escaped pipes', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`| a | b |`,
+			`|---|---|`,
+			`| x \\| y | z |`,
+		));
+
+		assert.strictEqual(await getFormattedText(doc), joinLines(
+			`| a      | b   |`,
+			`|--------|-----|`,
+			`| x \\| y | z   |`,
+		));
+	});
+
+	test('Should use display width of CJK characters and emoji', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`| a | b |`,
+			`|---|---|`,
+			`| 日本語 | 🎉 |`,
+		));
+
+		assert.strictEqual(await getFormattedText(doc), joinLines(
+			`| a      | b   |`,
+			`|--------|-----|`,
+			`| 日本語 | 🎉  |`,
+		));
+	});
+
+	test('Should fill in missing cells and keep extra cells', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`| a | b |`,
+			`|---|---|`,
+			`| c |`,
+			`| d | e | f |`,
+		));
+
+		assert.strictEqual(await getFormattedText(doc), joinLines(
+			`| a   | b   |`,
+			`|-----|-----|`,
+			`| c   |     |`,
+			`| d   | e   | f |`,
+		));
+	});
+
+	test('Should keep indentation and skip tables in blockquotes and code blocks', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`  a|b`,
+			`  -|-`,
+			``,
+			`> a|b`,
+			`> -|-`,
+			``,
+			'```',
+			`a|b`,
+			`-|-`,
+			'```',
+		));
+
+		assert.strictEqual(await getFormattedText(doc), joinLines(
+			`  | a   | b   |`,
+			`  |-----|-----|`,
+			``,
+			`> a|b`,
+			`> -|-`,
+			``,
+			'```',
+			`a|b`,
+			`-|-`,
+			'```',
+		));
+	});
+
+	test('Should only format tables in range', async () => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`a|b`,
+			`-|-`,
+			``,
+			`c|d`,
+			`-|-`,
+		));
+
+		assert.strictEqual(await getFormattedText(doc, lsp.Range.create(3, 0, 3, 0)), joinLines(
+			`a|b`,
+			`-|-`,
+			``,
+			`| c   | d   |`,
+			`|-----|-----|`,
+		));
+	});
+
+	test('Should split table rows', () => {
+		assert.deepStrictEqual(splitTableRow('| a | b |'), ['a', 'b']);
+		assert.deepStrictEqual(splitTableRow('a | b'), ['a', 'b']);
+		assert.deepStrictEqual(splitTableRow('| a | |'), ['a', '']);
+		assert.deepStrictEqual(splitTableRow('| `a \\| b` | c\\\\|'), ['`a \\| b`', 'c\\\\']);
+	});
+
+	test('Should compute display width', () => {
+		assert.strictEqual(getDisplayWidth('abc'), 3);
+		assert.strictEqual(getDisplayWidth('日本'), 4);
+		assert.strictEqual(getDisplayWidth('한국'), 4);
+		assert.strictEqual(getDisplayWidth('🎉'), 2);
+		assert.strictEqual(getDisplayWidth('\u{1F468}\u200D\u{1F469}\u200D\u{1F467}'), 2);
+		assert.strictEqual(getDisplayWidth('e\u0301'), 1);
+		assert.strictEqual(getDisplayWidth('©'), 1);
+	});
+});
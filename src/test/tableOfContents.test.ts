@@ -4,13 +4,14 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
 import { URI } from 'vscode-uri';
 import { TableOfContents } from '../tableOfContents';
 import { InMemoryDocument } from '../types/inMemoryDocument';
 import { ITextDocument } from '../types/textDocument';
 import { noopToken } from '../util/cancellation';
 import { createNewMarkdownEngine } from './engine';
-import { joinLines } from './util';
+import { assertRangeEqual, joinLines } from './util';
 
 
 const testFileName = URI.file('test.md');
@@ -171,4 +172,53 @@ suite('Table of contents', () => {
 		assert.strictEqual(provider.entries.length, 1);
 		assert.strictEqual(provider.entries[0].slug.value, 'a-b-c');
 	});
+
+	test('Should use explicit header ids as slugs', async () => {
+		const doc = new InMemoryDocument(testFileName, joinLines(
+			`# Setup {#install}`,
+			`## Other {#custom-id .class} ##`,
+			`# Setup`,
+		));
+		const toc = await createToc(doc);
+
+		assert.deepStrictEqual(toc.entries.map(entry => [entry.slug.value, entry.text]), [
+			['install', 'Setup'],
+			['custom-id', 'Other'],
+			['setup', 'Setup'],
+		]);
+		assertRangeEqual(toc.entries[0].headerTextLocation.range, lsp.Range.create(0, 2, 0, 7));
+		assertRangeEqual(toc.entries[0].explicitId!.location.range, lsp.Range.create(0, 10, 0, 17));
+		assertRangeEqual(toc.entries[1].explicitId!.location.range, lsp.Range.create(1, 11, 1, 20));
+		assert.strictEqual(toc.entries[2].explicitId, undefined);
+
+		assert.strictEqual(toc.lookupByFragment('install'), toc.entries[0]);
+		assert.strictEqual(toc.lookupByFragment('setup'), toc.entries[2]);
+	});
+
+	test('Should find html anchors', async () => {
+		const doc = new InMemoryDocument(testFileName, joinLines(
+			`<a id="legacy-anchor"></a>`,
+			`<h2 id='html-header'>Title</h2>`,
+			``,
+			`text <a name=named>link</a> <span id="inline"></span>`,
+			``,
+			`<div name="not-an-anchor"></div>`,
+			``,
+			'```html',
+			`<a id="in-code"></a>`,
+			'```',
+			'`<a id="in-code-span"></a>`',
+		));
+		const toc = await createToc(doc);
+
+		assert.deepStrictEqual(toc.anchors.map(anchor => anchor.id), ['legacy-anchor', 'html-header', 'named', 'inline']);
+		assertRangeEqual(toc.anchors[0].location.range, lsp.Range.create(0, 7, 0, 20));
+		assertRangeEqual(toc.anchors[1].location.range, lsp.Range.create(1, 8, 1, 19));
+		assertRangeEqual(toc.anchors[2].location.range, lsp.Range.create(3, 13, 3, 18));
+		assertRangeEqual(toc.anchors[3].location.range, lsp.Range.create(3, 38, 3, 44));
+
+		assert.strictEqual(toc.lookupByFragment('legacy-anchor'), undefined);
+		assert.strictEqual(toc.lookupAnchorByFragment('legacy-anchor'), toc.anchors[0]);
+		assert.strictEqual(toc.lookupAnchorByFragment('not-an-anchor'), undefined);
+	});
 });
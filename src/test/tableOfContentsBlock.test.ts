@@ -0,0 +1,179 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../config';
+import { DiagnosticCode, DiagnosticComputer, DiagnosticLevel } from '../languageFeatures/diagnostics';
+import { MdLinkProvider } from '../languageFeatures/documentLinks';
+import { MdTocBlockProvider, TocBlockOptions } from '../languageFeatures/tableOfContentsBlock';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { assertRangeEqual, defaultDiagnosticsOptions, DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+
+async function getTocEdit(store: DisposableStore, doc: InMemoryDocument, options: TocBlockOptions = {}, pos = lsp.Position.create(0, 0)): Promise<string> {
+	const workspace = store.add(new InMemoryWorkspace([doc]));
+	const engine = createNewMarkdownEngine();
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const provider = new MdTocBlockProvider(tocProvider);
+	const edits = await provider.getTableOfContentsEdits(doc, pos, options, noopToken);
+	return doc.previewEdits(edits);
+}
+
+async function getTocDiagnostics(store: DisposableStore, doc: InMemoryDocument, options: TocBlockOptions = {}): Promise<lsp.Diagnostic[]> {
+	const workspace = store.add(new InMemoryWorkspace([doc]));
+	const engine = createNewMarkdownEngine();
+	const config = getLsConfiguration({});
+	const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+	const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger));
+	const computer = new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger);
+	const { diagnostics } = await computer.compute(doc, { ...defaultDiagnosticsOptions, validateTableOfContents: DiagnosticLevel.warning, tocBlockOptions: options }, noopToken);
+	return diagnostics;
+}
+
+suite('Table of contents block', () => {
+
+	test('Should insert new table of contents at position', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# Title`,
+			``,
+			`## A`,
+			`### A.1`,
+			`## B [x]`,
+		));
+
+		assert.strictEqual(await getTocEdit(store, doc, {}, lsp.Position.create(1, 3)), joinLines(
+			`# Title`,
+			`<!-- toc -->`,
+			`- [Title](#title)`,
+			`  - [A](#a)`,
+			`    - [A.1](#a1)`,
+			`  - [B \\[x\\]](#b-x)`,
+			`<!-- tocstop -->`,
+			``,
+			`## A`,
+			`### A.1`,
+			`## B [x]`,
+		));
+	}));
+
+	test('Should refresh existing table of contents', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`# Title`,
+			`<!-- toc -->`,
+			`- [Old](#old)`,
+			`<!-- tocstop -->`,
+			`## A`,
+		));
+
+		assert.strictEqual(await getTocEdit(store, doc, { minLevel: 2 }), joinLines(
+			`# Title`,
+			`<!-- toc -->`,
+			`- [A](#a)`,
+			`<!-- tocstop -->`,
+			`## A`,
+		));
+	}));
+
+	test('Should close table of contents block that has no end marker', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`<!-- toc -->`,
+			`# A`,
+		));
+
+		assert.strictEqual(await getTocEdit(store, doc), joinLines(
+			`<!-- toc -->`,
+			`- [A](#a)`,
+			`<!-- tocstop -->`,
+			`# A`,
+		));
+	}));
+
+	test('Should support ordered lists, max level, and indentation', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`<!-- toc -->`,
+			`<!-- /toc -->`,
+			`# A`,
+			`## A.1`,
+			`### A.1.1`,
+			`## A.2`,
+			`# B`,
+			`### B.1`,
+		));
+
+		assert.strictEqual(await getTocEdit(store, doc, { ordered: true, maxLevel: 3, indentSize: 4 }), joinLines(
+			`<!-- toc -->`,
+			`1. [A](#a)`,
+			`    1. [A.1](#a1)`,
+			`        1. [A.1.1](#a11)`,
+			`    2. [A.2](#a2)`,
+			`2. [B](#b)`,
+			`    1. [B.1](#b1)`,
+			`<!-- /toc -->`,
+			`# A`,
+			`## A.1`,
+			`### A.1.1`,
+			`## A.2`,
+			`# B`,
+			`### B.1`,
+		));
+	}));
+
+	test('Should ignore markers in fenced code blocks', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			'```md',
+			`<!-- toc -->`,
+			'```',
+			`# A`,
+		));
+
+		assert.strictEqual(await getTocEdit(store, doc, {}, lsp.Position.create(3, 0)), joinLines(
+			'```md',
+			`<!-- toc -->`,
+			'```',
+			`<!-- toc -->`,
+			`- [A](#a)`,
+			`<!-- tocstop -->`,
+			`# A`,
+		));
+	}));
+
+	test('Should not report diagnostic for up to date table of contents', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`<!-- toc -->`,
+			`- [A](#a)`,
+			`  - [B](#b)`,
+			`<!-- tocstop -->`,
+			`# A`,
+			`## B`,
+		));
+
+		assert.deepStrictEqual(await getTocDiagnostics(store, doc), []);
+		assert.strictEqual(await getTocEdit(store, doc), doc.getText());
+	}));
+
+	test('Should report diagnostic for out of date table of contents', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`<!-- toc -->`,
+			`- [A](#a)`,
+			`<!-- tocstop -->`,
+			`# A`,
+			`## B`,
+		));
+
+		const diagnostics = await getTocDiagnostics(store, doc);
+		assert.strictEqual(diagnostics.length, 1);
+		assert.strictEqual(diagnostics[0].code, DiagnosticCode.toc_outOfDate);
+		assertRangeEqual(diagnostics[0].range, lsp.Range.create(0, 0, 2, 16));
+
+		// Should use the configured options
+		assert.deepStrictEqual(await getTocDiagnostics(store, doc, { maxLevel: 1 }), []);
+	}));
+});
@@ -0,0 +1,233 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver-protocol';
+import { getLsConfiguration } from '../config';
+import { DiagnosticComputer } from '../languageFeatures/diagnostics';
+import { createWorkspaceLinkCache, MdLinkComputer, MdLinkProvider } from '../languageFeatures/documentLinks';
+import { MdFileRenameProvider } from '../languageFeatures/fileRename';
+import { MdReferencesProvider } from '../languageFeatures/references';
+import { azureDevOpsSlugifier } from '../slugify';
+import { MdTableOfContentsProvider } from '../tableOfContents';
+import { InternalHref, MdLink, MdLinkKind } from '../types/documentLink';
+import { InMemoryDocument } from '../types/inMemoryDocument';
+import { noopToken } from '../util/cancellation';
+import { MdWorkspaceWikiLinkResolver } from '../wikiLinks';
+import { IWorkspace } from '../workspace';
+import { createNewMarkdownEngine } from './engine';
+import { InMemoryWorkspace } from './inMemoryWorkspace';
+import { nulLogger } from './nulLogging';
+import { assertRangeEqual, defaultDiagnosticsOptions, DisposableStore, joinLines, withStore, workspacePath } from './util';
+
+const config = getLsConfiguration({ enableWikiLinks: true });
+
+function getLinks(store: DisposableStore, doc: InMemoryDocument, workspace: IWorkspace, enableWikiLinks = true): Promise<MdLink[]> {
+	const engine = createNewMarkdownEngine();
+	const resolver = enableWikiLinks ? store.add(new MdWorkspaceWikiLinkResolver(config, workspace)) : undefined;
+	const computer = new MdLinkComputer(engine, workspace, resolver);
+	return computer.getAllLinks(doc, noopToken);
+}
+
+suite('Wiki links', () => {
+
+	test('Should not detect wiki links unless enabled', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `[[other]]`);
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const links = await getLinks(store, doc, workspace, false);
+		assert.ok(links.every(link => link.kind !== MdLinkKind.WikiLink));
+	}));
+
+	test('Should detect wiki links and resolve them by file name', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`a [[other]] b`,
+			`[[Other|alias]]`,
+			`![[other.md]]`,
+		));
+		const other = new InMemoryDocument(workspacePath('sub', 'dir', 'other.md'), '');
+		const workspace = store.add(new InMemoryWorkspace([doc, other]));
+
+		const links = await getLinks(store, doc, workspace);
+		assert.strictEqual(links.length, 3);
+		for (const link of links) {
+			assert.strictEqual(link.kind, MdLinkKind.WikiLink);
+			assert.strictEqual((link.href as InternalHref).path.toString(), other.uri);
+		}
+
+		assertRangeEqual(links[0].source.hrefRange, lsp.Range.create(0, 4, 0, 9));
+		assertRangeEqual(links[1].source.hrefRange, lsp.Range.create(1, 2, 1, 7));
+		assert.strictEqual(links[1].source.hrefText, 'Other');
+		assertRangeEqual(links[2].source.range, lsp.Range.create(2, 0, 2, 13));
+	}));
+
+	test('Should prefer wiki link targets in the same directory', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('sub', 'doc.md'), `[[other]]`);
+		const workspace = store.add(new InMemoryWorkspace([
+			doc,
+			new InMemoryDocument(workspacePath('other.md'), ''),
+			new InMemoryDocument(workspacePath('sub', 'other.md'), ''),
+		]));
+
+		const links = await getLinks(store, doc, workspace);
+		assert.strictEqual((links[0].href as InternalHref).path.toString(), workspacePath('sub', 'other.md').toString());
+	}));
+
+	test('Should slugify wiki link fragments', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[[other#Some Header|alias]]`,
+			`[[#Local Header]]`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc, new InMemoryDocument(workspacePath('other.md'), '')]));
+
+		const links = await getLinks(store, doc, workspace);
+		assert.strictEqual(links.length, 2);
+
+		assert.strictEqual((links[0].href as InternalHref).fragment, 'some-header');
+		assertRangeEqual(links[0].source.hrefFragmentRange!, lsp.Range.create(0, 8, 0, 19));
+
+		assert.strictEqual((links[1].href as InternalHref).path.toString(), doc.uri);
+		assert.strictEqual((links[1].href as InternalHref).fragment, 'local-header');
+	}));
+
+	test('Should slugify wiki link fragments using the slugifier of the linked to document', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[[azure/other#C# Notes]]`,
+			`[[#C# Notes]]`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc, new InMemoryDocument(workspacePath('azure', 'other.md'), '')]));
+
+		const config = getLsConfiguration({
+			enableWikiLinks: true,
+			workspaceFolderSlugifiers: [
+				{ folder: workspacePath('azure'), slugifier: azureDevOpsSlugifier },
+			],
+		});
+		const resolver = store.add(new MdWorkspaceWikiLinkResolver(config, workspace));
+		const computer = new MdLinkComputer(createNewMarkdownEngine(), workspace, resolver, config);
+		const links = await computer.getAllLinks(doc, noopToken);
+
+		assert.strictEqual((links[0].href as InternalHref).fragment, 'c%23-notes');
+		assert.strictEqual((links[1].href as InternalHref).fragment, 'c-notes');
+	}));
+
+	test('Should resolve wiki links to files that are not markdown relative to the document', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('sub', 'doc.md'), joinLines(
+			`![[image.png]]`,
+			`![[img/image.png]]`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc, workspacePath('sub', 'image.png'), workspacePath('other', 'image.png')]));
+
+		const links = await getLinks(store, doc, workspace);
+		assert.strictEqual((links[0].href as InternalHref).path.toString(), workspacePath('sub', 'image.png').toString());
+		assert.strictEqual((links[1].href as InternalHref).path.toString(), workspacePath('sub', 'img', 'image.png').toString());
+	}));
+
+	test('Should update wiki links in other documents when their target is created', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), `[[other]]`);
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const engine = createNewMarkdownEngine();
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const resolver = store.add(new MdWorkspaceWikiLinkResolver(config, workspace));
+		const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger, resolver));
+		const linkCache = store.add(createWorkspaceLinkCache(engine, workspace, resolver));
+
+		assert.strictEqual(((await linkProvider.getLinks(doc)).links[0].href as InternalHref).path.toString(), workspacePath('other').toString());
+		assert.strictEqual(((await linkCache.getForDocs([doc]))[0][0].href as InternalHref).path.toString(), workspacePath('other').toString());
+
+		const otherUri = workspacePath('sub', 'other.md');
+		workspace.createDocument(new InMemoryDocument(otherUri, ''));
+
+		assert.strictEqual(((await linkProvider.getLinks(doc)).links[0].href as InternalHref).path.toString(), otherUri.toString());
+		assert.strictEqual(((await linkCache.getForDocs([doc]))[0][0].href as InternalHref).path.toString(), otherUri.toString());
+	}));
+
+	test('Should not detect wiki links in code', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			'`[[other]]`',
+			'```',
+			'[[other]]',
+			'```',
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc]));
+
+		const links = await getLinks(store, doc, workspace);
+		assert.deepStrictEqual(links, []);
+	}));
+
+	test('Should report missing wiki link targets', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[[other]]`,
+			`[[missing]]`,
+			`[[other#no-such-header]]`,
+		));
+		const workspace = store.add(new InMemoryWorkspace([doc, new InMemoryDocument(workspacePath('other.md'), '# Header')]));
+
+		const engine = createNewMarkdownEngine();
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const resolver = store.add(new MdWorkspaceWikiLinkResolver(config, workspace));
+		const linkProvider = store.add(new MdLinkProvider(config, engine, workspace, tocProvider, nulLogger, resolver));
+		const computer = new DiagnosticComputer(config, workspace, linkProvider, tocProvider, nulLogger);
+		const { diagnostics } = await computer.compute(doc, defaultDiagnosticsOptions, noopToken);
+
+		assert.strictEqual(diagnostics.length, 2);
+		assertRangeEqual(diagnostics[0].range, lsp.Range.create(1, 2, 1, 9));
+		assertRangeEqual(diagnostics[1].range, lsp.Range.create(2, 7, 2, 22));
+	}));
+
+	test('Should update wiki links on file rename', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[[old]]`,
+			`[[old#header|alias]]`,
+			`[[old.md]]`,
+		));
+		const oldUri = workspacePath('old.md');
+		const newUri = workspacePath('sub', 'new.md');
+		const workspace = store.add(new InMemoryWorkspace([doc, new InMemoryDocument(oldUri, '')]));
+
+		const engine = createNewMarkdownEngine();
+		const resolver = store.add(new MdWorkspaceWikiLinkResolver(config, workspace));
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const linkCache = store.add(createWorkspaceLinkCache(engine, workspace, resolver));
+		const referencesProvider = store.add(new MdReferencesProvider(config, engine, workspace, tocProvider, linkCache, nulLogger));
+		const renameProvider = new MdFileRenameProvider(config, workspace, linkCache, referencesProvider);
+		const response = await renameProvider.getRenameFilesInWorkspaceEdit([{ oldUri, newUri }], noopToken);
+
+		const edits = (response!.edit.documentChanges![0] as lsp.TextDocumentEdit).edits;
+		assert.deepStrictEqual(edits.map(edit => edit.newText), ['new', 'new', 'new.md']);
+		assertRangeEqual(edits[1].range, lsp.Range.create(1, 2, 1, 5));
+	}));
+
+	test('Should keep folders of wiki links on file rename', withStore(async (store) => {
+		const doc = new InMemoryDocument(workspacePath('doc.md'), joinLines(
+			`[[b/Page]]`,
+			`[[Page#header]]`,
+			`[[a/b/Page.md]]`,
+		));
+		const oldUri = workspacePath('a', 'b', 'Page.md');
+		const newUri = workspacePath('New.md');
+		const workspace = store.add(new InMemoryWorkspace([doc, new InMemoryDocument(oldUri, '')]));
+
+		const engine = createNewMarkdownEngine();
+		const resolver = store.add(new MdWorkspaceWikiLinkResolver(config, workspace));
+		const tocProvider = store.add(new MdTableOfContentsProvider(engine, workspace, nulLogger));
+		const linkCache = store.add(createWorkspaceLinkCache(engine, workspace, resolver));
+		const referencesProvider = store.add(new MdReferencesProvider(config, engine, workspace, tocProvider, linkCache, nulLogger));
+		const renameProvider = new MdFileRenameProvider(config, workspace, linkCache, referencesProvider);
+
+		{
+			const response = await renameProvider.getRenameFilesInWorkspaceEdit([{ oldUri, newUri: workspacePath('c', 'New.md') }], noopToken);
+			const edits = (response!.edit.documentChanges![0] as lsp.TextDocumentEdit).edits;
+			assert.deepStrictEqual(edits.map(edit => edit.newText), ['c/New', 'New', 'c/New.md']);
+		}
+		{
+			// Folders above the workspace are not added
+			const response = await renameProvider.getRenameFilesInWorkspaceEdit([{ oldUri, newUri }], noopToken);
+			const edits = (response!.edit.documentChanges![0] as lsp.TextDocumentEdit).edits;
+			assert.deepStrictEqual(edits.map(edit => edit.newText), ['New', 'New', 'New.md']);
+		}
+	}));
+});
@@ -146,4 +146,24 @@ suite('Workspace symbols', () => {
 
 		assertSymbolsMatch(await getWorkspaceSymbols(store, workspace, 'a'), ['# a b c', '# a x y']);
 	}));
+
+	test('Should use front matter title as symbol name', withStore(async (store) => {
+		const workspace = store.add(new InMemoryWorkspace([
+			new InMemoryDocument(workspacePath('a.md'), joinLines(
+				'---',
+				'title: Page title',
+				'---',
+				'# header',
+			)),
+			new InMemoryDocument(workspacePath('b.md'), joinLines(
+				'---',
+				'tags: [a]',
+				'---',
+			)),
+		]));
+
+		const symbols = await getWorkspaceSymbols(store, workspace);
+		assertSymbolsMatch(symbols, ['Page title', '# header']);
+		assert.strictEqual(symbols[0].kind, lsp.SymbolKind.File);
+	}));
 });
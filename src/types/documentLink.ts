@@ -8,7 +8,8 @@ import { URI } from 'vscode-uri';
 export enum HrefKind {
     External,
     Internal,
-    Reference
+    Reference,
+    Footnote,
 }
 
 export interface ExternalHref {
@@ -27,6 +28,18 @@ export interface ReferenceHref {
     readonly ref: string;
 }
 
+/**
+ * Reference to a footnote, e.g. `[^note]`.
+ */
+export interface FootnoteHref {
+    readonly kind: HrefKind.Footnote;
+
+    /**
+     * The label of the footnote, without the leading `^`.
+     */
+    readonly ref: string;
+}
+
 export type LinkHref = ExternalHref | InternalHref | ReferenceHref;
 
 export interface MdLinkSource {
@@ -99,6 +112,15 @@ export enum MdLinkKind {
 
     /** Auto link: `<http://example.com>` */
     AutoLink = 3,
+
+    /** Wiki link: `[[Page]]` or `[[Page#Heading|alias]]` */
+    WikiLink = 4,
+
+    /** Footnote reference: `[^note]` */
+    FootnoteReference = 5,
+
+    /** Footnote definition: `[^note]: Text of the footnote` */
+    FootnoteDefinition = 6,
 }
 
 export interface MdInlineLink<HrefType = LinkHref> {
@@ -120,10 +142,56 @@ export interface MdLinkDefinition {
 export interface MdAutoLink {
     readonly kind: MdLinkKind.AutoLink;
     readonly source: MdLinkSource;
-    readonly href: ExternalHref;
+    readonly href: ExternalHref | InternalHref;
 }
 
-export type MdLink = MdInlineLink | MdLinkDefinition | MdAutoLink;
+export interface MdWikiLink {
+    readonly kind: MdLinkKind.WikiLink;
+    readonly source: MdLinkSource;
+
+    /**
+     * The resolved target of the link.
+     *
+     * The fragment is normalized to the slug of the linked to heading.
+     */
+    readonly href: InternalHref;
+}
+
+export interface MdFootnoteReference {
+    readonly kind: MdLinkKind.FootnoteReference;
+
+    /**
+     * For `[^note]`, the `hrefRange` is the range of `note`.
+     */
+    readonly source: MdLinkSource;
+    readonly href: FootnoteHref;
+}
+
+export interface MdFootnoteDefinition {
+    readonly kind: MdLinkKind.FootnoteDefinition;
+
+    /**
+     * The `range` covers the entire footnote, including any continuation lines. The `hrefRange` is the range of the label.
+     */
+    readonly source: MdLinkSource;
+    readonly ref: {
+        readonly range: lsp.Range;
+        readonly text: string;
+    };
+    readonly href: FootnoteHref;
+
+    /**
+     * The content of the footnote.
+     *
+     * The `text` has the indentation of continuation lines removed.
+     */
+    readonly body: {
+        readonly range: lsp.Range;
+        readonly text: string;
+    };
+}
+
+export type MdLink = MdInlineLink | MdLinkDefinition | MdAutoLink | MdWikiLink | MdFootnoteReference | MdFootnoteDefinition;
 
 
 /**
@@ -151,6 +219,39 @@ export class LinkDefinitionSet implements Iterable<MdLinkDefinition> {
     }
 }
 
+/**
+ * A map that lets you look up footnote definitions by label.
+ */
+export class FootnoteDefinitionSet implements Iterable<MdFootnoteDefinition> {
+    readonly #map = new ReferenceLinkMap<MdFootnoteDefinition>();
+
+    constructor(links: Iterable<MdLink>) {
+        for (const link of links) {
+            if (link.kind === MdLinkKind.FootnoteDefinition) {
+                if (!this.#map.has(link.ref.text)) {
+                    this.#map.set(link.ref.text, link);
+                }
+            }
+        }
+    }
+
+    public [Symbol.iterator](): Iterator<MdFootnoteDefinition> {
+        return this.#map[Symbol.iterator]();
+    }
+
+    public lookup(ref: string): MdFootnoteDefinition | undefined {
+        return this.#map.lookup(ref);
+    }
+}
+
+/**
+ * Normalizes a link or footnote reference. References are case-insensitive, so this lowercases the reference so you can
+ * correctly compare two normalized references.
+ */
+export function normalizeReferenceName(ref: string): string {
+    return ref.normalize().trim().toLowerCase();
+}
+
 /**
  * A store of link reference names.
  * 
@@ -160,26 +261,18 @@ export class ReferenceLinkMap<T> {
     readonly #map = new Map</* normalized ref */ string, T>();
 
     public set(ref: string, link: T) {
-        this.#map.set(this.#normalizeRefName(ref), link);
+        this.#map.set(normalizeReferenceName(ref), link);
     }
 
     public lookup(ref: string): T | undefined {
-        return this.#map.get(this.#normalizeRefName(ref));
+        return this.#map.get(normalizeReferenceName(ref));
     }
 
     public has(ref: string): boolean {
-        return this.#map.has(this.#normalizeRefName(ref));
+        return this.#map.has(normalizeReferenceName(ref));
     }
 
     public [Symbol.iterator](): Iterator<T> {
         return this.#map.values();
     }
-
-    /**
-     * Normalizes a link reference. Link references are case-insensitive, so this lowercases the reference so you can
-     * correctly compare two normalized references.
-     */
-    #normalizeRefName(ref: string): string {
-        return ref.normalize().trim().toLowerCase();
-    }
 }
@@ -32,3 +32,7 @@ export function rangeIntersects(a: Range, b: Range): boolean {
 	// Check case where `a` is entirely contained in `b`
 	return rangeContains(b, a.start) || rangeContains(b, a.end);
 }
+
+export function isEmptyRange(range: Range): boolean {
+	return arePositionsEqual(range.start, range.end);
+}
@@ -13,6 +13,13 @@ export function inlineCode(text: string): string {
     return `${backticks}${text}${backticks}`;
 }
 
+/**
+ * Escape plain text so that it is rendered as is.
+ */
+export function text(value: string): string {
+    return escapeMarkdownSyntaxTokens(value).replace(/</g, '\\<');
+}
+
 export function link(text: string, uri: URI): string {
     const path = uri.toString();
     return `[${escapeMarkdownSyntaxTokens(text.replace(/\n/, ''))}](${bracketPathIfNeeded(path)})`;
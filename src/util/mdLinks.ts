@@ -3,11 +3,12 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as path from 'path';
 import { URI, Utils } from 'vscode-uri';
-import { LsConfiguration, PreferredMdPathExtensionStyle } from '../config';
+import { defaultMarkdownFileExtension, LsConfiguration, PreferredMdPathExtensionStyle, SiteUrlMapping } from '../config';
 import { InternalHref } from '../types/documentLink';
 import { IWorkspace, getWorkspaceFolder } from '../workspace';
-import { looksLikeMarkdownUri } from './path';
+import { isParentDir, looksLikeMarkdownUri } from './path';
 import { Schemes } from './schemes';
 
 /**
@@ -132,3 +133,102 @@ export function resolveInternalDocumentLink(
         linkFragment: tempUri.fragment,
     };
 }
+
+/**
+ * File extensions of site pages that are built from markdown files.
+ */
+const sitePageExtensions = new Set(['.html', '.htm']);
+
+/**
+ * Find the {@link LsConfiguration.siteUrlMappings site url mapping} for a link.
+ *
+ * If multiple prefixes match, the longest one is used.
+ *
+ * @returns The mapping and the part of the link after the url prefix.
+ */
+function getSiteUrlMapping(config: LsConfiguration, linkText: string): { mapping: SiteUrlMapping; rest: string } | undefined {
+	let best: { mapping: SiteUrlMapping; rest: string; prefixLength: number } | undefined;
+	for (const mapping of config.siteUrlMappings ?? []) {
+		const prefix = mapping.urlPrefix.replace(/\/+$/, '');
+		if (!prefix || !linkText.startsWith(prefix)) {
+			continue;
+		}
+
+		// Make sure we matched an entire path segment
+		const rest = linkText.slice(prefix.length);
+		if (rest && !/^[\/?#]/.test(rest)) {
+			continue;
+		}
+
+		if (!best || prefix.length > best.prefixLength) {
+			best = { mapping, rest, prefixLength: prefix.length };
+		}
+	}
+	return best;
+}
+
+/**
+ * Try to resolve a link to a page on one of the {@link LsConfiguration.siteUrlMappings mapped sites} to a file in the
+ * workspace.
+ *
+ * @returns The resolved file or directory and fragment, or `undefined` if the link is not to one of the mapped sites.
+ */
+export function resolveSiteUrlLink(config: LsConfiguration, linkText: string): { resource: URI; linkFragment: string; } | undefined {
+	const match = getSiteUrlMapping(config, linkText);
+	if (!match) {
+		return undefined;
+	}
+
+	// Use a fake scheme to avoid parse warnings
+	const tempUri = URI.parse(`vscode-resource:${match.rest}`);
+
+	// Urls ending in a `/` point to the directory. These are resolved to the directory's index file the same way
+	// as other links to directories.
+	let sitePath = tempUri.path || '/';
+	const ext = path.posix.extname(sitePath);
+	if (!sitePath.endsWith('/') && sitePageExtensions.has(ext.toLowerCase())) {
+		sitePath = sitePath.slice(0, sitePath.length - ext.length) + `.${config.markdownFileExtensions[0] ?? defaultMarkdownFileExtension}`;
+	}
+
+	return {
+		resource: Utils.joinPath(match.mapping.folder, sitePath),
+		linkFragment: tempUri.fragment,
+	};
+}
+
+/**
+ * Get the new text for a link to a page on a {@link LsConfiguration.siteUrlMappings mapped site} when the file it
+ * points to has moved to {@linkcode newPath}.
+ *
+ * This keeps the style of the original link, such as using a trailing `/` for index pages or a `.html` extension.
+ *
+ * @returns The new url without a fragment, or `undefined` if the original link is not to a mapped site or if the file
+ * has moved out of the site's folder.
+ */
+export function getSiteUrlLinkRenameText(config: LsConfiguration, hrefText: string, newPath: URI): string | undefined {
+	const match = getSiteUrlMapping(config, hrefText);
+	if (!match || !isParentDir(match.mapping.folder, newPath)) {
+		return undefined;
+	}
+
+	const oldSitePath = match.rest.replace(/[?#].*$/, '');
+	const oldExt = path.posix.extname(oldSitePath);
+
+	let sitePath = path.posix.relative(match.mapping.folder.path, newPath.path);
+	if (!oldSitePath || oldSitePath.endsWith('/')) {
+		// The file extension may already have been removed from `newPath`
+		const basename = Utils.basename(newPath);
+		const isIndexFile = config.directoryIndexFileNames?.some(name =>
+			name === basename || name.slice(0, name.length - path.posix.extname(name).length) === basename);
+
+		if (isIndexFile) {
+			sitePath = sitePath.slice(0, sitePath.length - basename.length);
+		} else if (looksLikeMarkdownUri(config, newPath)) {
+			sitePath = sitePath.slice(0, sitePath.length - Utils.extname(newPath).length);
+		}
+	} else if (looksLikeMarkdownUri(config, newPath) && sitePageExtensions.has(oldExt.toLowerCase())) {
+		sitePath = sitePath.slice(0, sitePath.length - Utils.extname(newPath).length) + oldExt;
+	}
+
+	return match.mapping.urlPrefix.replace(/\/+$/, '') + '/' + encodeURI(sitePath);
+}
@@ -38,13 +38,21 @@ export function computeRelativePath(fromDoc: URI, toDoc: URI, preferDotSlash = f
  * Check if `path` looks like it points to `target`.
  * 
  * Handles cases where `path` doesn't have a file extension but `target` does.
+ *
+ * @param targetIsDirectoryIndexFile Set if `target` is the {@link LsConfiguration.directoryIndexFileNames index file}
+ * that links to its directory resolve to. If set, links to the directory also match `target`.
  */
-export function looksLikePathToResource(configuration: LsConfiguration, path: URI, target: URI): boolean {
+export function looksLikePathToResource(configuration: LsConfiguration, path: URI, target: URI, targetIsDirectoryIndexFile = false): boolean {
 	if (path.fsPath === target.fsPath) {
 		return true;
 	}
 
-	return configuration.markdownFileExtensions.some(ext => path.with({ path: path.path + '.' + ext }).fsPath === target.fsPath);
+	if (configuration.markdownFileExtensions.some(ext => path.with({ path: path.path + '.' + ext }).fsPath === target.fsPath)) {
+		return true;
+	}
+
+	return targetIsDirectoryIndexFile
+		&& path.with({ path: path.path.replace(/\/+$/, '') }).fsPath === Utils.dirname(target).fsPath;
 }
 
 export function looksLikeMarkdownUri(config: LsConfiguration, resolvedHrefPath: URI): boolean {
@@ -61,18 +69,43 @@ function looksLikeMarkdownExt(config: LsConfiguration, rawExt: string): boolean
 
 /**
  * Extract position info from link fragments that look like `#L5,3`
+ *
+ * For line ranges such as `#L10-L20`, this returns the start of the range.
  */
 export function parseLocationInfoFromFragment(fragment: string): lsp.Position | undefined {
-	const match = fragment.match(/^L(\d+)(?:,(\d+))?$/i);
+	return parseLocationRangeFromFragment(fragment)?.start;
+}
+
+/**
+ * Extract range info from link fragments that look like `#L5,3` or `#L10-L20`.
+ *
+ * A line range without columns, such as `#L10-L20`, covers the entirety of lines 10 through 20. A single position,
+ * such as `#L5,3`, returns an empty range.
+ */
+export function parseLocationRangeFromFragment(fragment: string): lsp.Range | undefined {
+	const match = fragment.match(/^L(\d+)(?:,(\d+))?(?:-L?(\d+)(?:,(\d+))?)?$/i);
 	if (!match) {
 		return undefined;
 	}
 
 	const line = +match[1] - 1;
-	if (isNaN(line)) {
+	if (isNaN(line) || line < 0) {
 		return undefined;
 	}
 
 	const column = +match[2] - 1;
-	return { line, character: isNaN(column) ? 0 : column };
+	const start = lsp.Position.create(line, isNaN(column) ? 0 : column);
+	if (!match[3]) {
+		return lsp.Range.create(start, start);
+	}
+
+	const endLine = +match[3] - 1;
+	if (endLine < line) {
+		return undefined;
+	}
+
+	const endColumn = +match[4] - 1;
+	return lsp.Range.create(start, isNaN(endColumn)
+		? lsp.Position.create(endLine + 1, 0) // Include the entire last line
+		: lsp.Position.create(endLine, endColumn));
 }
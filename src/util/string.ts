@@ -35,4 +35,52 @@ export function fuzzyContains(target: string, query: string): boolean {
 	}
 
 	return true;
-}
\ No newline at end of file
+}
+
+const wideCharacterRanges: ReadonlyArray<readonly [number, number]> = [
+	[0x1100, 0x115F], // Hangul Jamo
+	[0x2E80, 0x303E], // CJK radicals, symbols and punctuation
+	[0x3041, 0x33FF], // Hiragana, Katakana, CJK compatibility
+	[0x3400, 0x4DBF], // CJK unified ideographs extension A
+	[0x4E00, 0x9FFF], // CJK unified ideographs
+	[0xA000, 0xA4CF], // Yi
+	[0xAC00, 0xD7A3], // Hangul syllables
+	[0xF900, 0xFAFF], // CJK compatibility ideographs
+	[0xFE30, 0xFE4F], // CJK compatibility forms
+	[0xFF00, 0xFF60], // Fullwidth forms
+	[0xFFE0, 0xFFE6], // Fullwidth signs
+	[0x20000, 0x2FFFD], // CJK unified ideographs extensions
+	[0x30000, 0x3FFFD],
+];
+
+/**
+ * Get the number of columns that `str` takes up when displayed in a monospace font.
+ *
+ * CJK characters and emoji take up two columns, while combining marks and zero width joiners take up none.
+ */
+export function getDisplayWidth(str: string): number {
+	const chars = Array.from(str);
+	let width = 0;
+	for (let i = 0; i < chars.length; ++i) {
+		const char = chars[i];
+		const codePoint = char.codePointAt(0)!;
+		if (/\p{M}/u.test(char) || codePoint === 0x200D || (codePoint >= 0xFE00 && codePoint <= 0xFE0F)) {
+			continue;
+		}
+
+		// Emoji joined to the previous emoji are drawn as a single character
+		if (i > 0 && chars[i - 1] === '\u200D') {
+			continue;
+		}
+
+		if (/\p{Emoji_Presentation}/u.test(char)
+			|| (chars[i + 1] === '\uFE0F' && /\p{Extended_Pictographic}/u.test(char))
+			|| wideCharacterRanges.some(([start, end]) => codePoint >= start && codePoint <= end)
+		) {
+			width += 2;
+		} else {
+			width += 1;
+		}
+	}
+	return width;
+}
@@ -0,0 +1,130 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CancellationToken, Emitter, Event } from 'vscode-languageserver-protocol';
+import { URI, Utils } from 'vscode-uri';
+import { LsConfiguration } from './config';
+import { getDocUri } from './types/textDocument';
+import { Disposable } from './util/dispose';
+import { looksLikeMarkdownFilePath } from './util/path';
+import { IWorkspace } from './workspace';
+
+/**
+ * Resolves the targets of wiki links such as `[[Page]]`.
+ */
+export interface IWikiLinkResolver {
+	/**
+	 * Try to find the resource that a wiki link points to.
+	 *
+	 * @param pageName The page part of the link. For `[[Page#Heading|alias]]` this is `Page`.
+	 * @param fromResource The document that contains the link.
+	 *
+	 * @returns The uri of the linked to resource or `undefined` if it could not be found.
+	 */
+	resolveWikiLink(pageName: string, fromResource: URI, token: CancellationToken): Promise<URI | undefined>;
+
+	/**
+	 * Fired when wiki links may resolve to different resources than before, for example because a file was created.
+	 *
+	 * Links that have already been resolved are recomputed when this fires.
+	 */
+	readonly onDidChangeLinks?: Event<void>;
+}
+
+/**
+ * Default {@link IWikiLinkResolver wiki link resolver}.
+ *
+ * Resolves links by the base name of markdown files anywhere in the workspace. If there are multiple matches, a file in
+ * the same directory as the link is preferred, followed by the file with the shortest path.
+ *
+ * Other files, such as images in `![[image.png]]`, are not indexed because the workspace only reports when markdown
+ * files are created or deleted. Links to them are resolved relative to the document that contains the link.
+ */
+export class MdWorkspaceWikiLinkResolver extends Disposable implements IWikiLinkResolver {
+
+	/**
+	 * Map of normalized base names to the markdown files with that name.
+	 */
+	#index?: Promise<Map<string, URI[]>>;
+
+	readonly #onDidChangeLinks = this._register(new Emitter<void>());
+	public readonly onDidChangeLinks = this.#onDidChangeLinks.event;
+
+	readonly #config: LsConfiguration;
+	readonly #workspace: IWorkspace;
+
+	constructor(
+		config: LsConfiguration,
+		workspace: IWorkspace,
+	) {
+		super();
+
+		this.#config = config;
+		this.#workspace = workspace;
+
+		this._register(this.#workspace.onDidCreateMarkdownDocument(() => this.#invalidate()));
+		this._register(this.#workspace.onDidDeleteMarkdownDocument(() => this.#invalidate()));
+	}
+
+	public async resolveWikiLink(pageName: string, fromResource: URI, token: CancellationToken): Promise<URI | undefined> {
+		const name = this.#normalizeName(pageName.replace(/^\.?\//, ''));
+		if (!name) {
+			return undefined;
+		}
+
+		const index = await this.#getIndex();
+		if (token.isCancellationRequested) {
+			return undefined;
+		}
+
+		const baseName = name.slice(name.lastIndexOf('/') + 1);
+		const candidates = (index.get(baseName) ?? []).filter(uri => {
+			const candidateName = this.#normalizeName(uri.path);
+			return candidateName === name || candidateName.endsWith('/' + name);
+		});
+		if (!candidates.length) {
+			return undefined;
+		}
+
+		const fromDir = Utils.dirname(fromResource).toString();
+		return candidates.find(uri => Utils.dirname(uri).toString() === fromDir)
+			?? [...candidates].sort((a, b) => a.path.length - b.path.length)[0];
+	}
+
+	#getIndex(): Promise<Map<string, URI[]>> {
+		this.#index ??= this.#buildIndex();
+		return this.#index;
+	}
+
+	#invalidate(): void {
+		this.#index = undefined;
+		this.#onDidChangeLinks.fire();
+	}
+
+	async #buildIndex(): Promise<Map<string, URI[]>> {
+		const index = new Map<string, URI[]>();
+		for (const doc of await this.#workspace.getAllMarkdownDocuments()) {
+			const uri = getDocUri(doc);
+			const baseName = this.#normalizeName(Utils.basename(uri));
+			const existing = index.get(baseName);
+			if (existing) {
+				existing.push(uri);
+			} else {
+				index.set(baseName, [uri]);
+			}
+		}
+		return index;
+	}
+
+	/**
+	 * Wiki links are case insensitive and may omit the markdown file extension.
+	 */
+	#normalizeName(path: string): string {
+		if (looksLikeMarkdownFilePath(this.#config, path)) {
+			path = path.slice(0, path.lastIndexOf('.'));
+		}
+		return path.trim().toLowerCase();
+	}
+}
@@ -6,6 +6,7 @@
 import { Event } from 'vscode-languageserver-protocol';
 import { URI, Utils } from 'vscode-uri';
 import { defaultMarkdownFileExtension, LsConfiguration } from './config';
+import { InMemoryDocument } from './types/inMemoryDocument';
 import { ITextDocument } from './types/textDocument';
 import { ResourceMap } from './util/resourceMap';
 
@@ -101,6 +102,18 @@ export interface IWorkspace {
 	 */
 	readDirectory(resource: URI): Promise<Iterable<readonly [string, FileStat]>>;
 
+	/**
+	 * Read the contents of a file.
+	 *
+	 * This is used to read files that are not markdown, such as code files that links point to with line ranges like
+	 * `#L10-L20`. If not implemented, only the lines of markdown files are checked.
+	 *
+	 * @param resource URI of the file to read. Does not have to be to a markdown file.
+	 *
+	 * @returns The contents of the file or `undefined` if the file could not be read.
+	 */
+	readFile?(resource: URI): Promise<Uint8Array | undefined>;
+
 	/**
 	 * Get the document that contains `resource` as a sub document.
 	 *
@@ -191,6 +204,11 @@ export async function openLinkToMarkdownFile(config: LsConfiguration, workspace:
 		// Noop
 	}
 
+	if ((await workspace.stat(resource))?.isDirectory) {
+		const indexFile = await findDirectoryIndexFile(config, workspace, resource);
+		return indexFile ? workspace.openMarkdownDocument(indexFile) : undefined;
+	}
+
 	const dotMdResource = tryAppendMarkdownFileExtension(config, resource);
 	if (dotMdResource) {
 		return workspace.openMarkdownDocument(dotMdResource);
@@ -199,19 +217,65 @@ export async function openLinkToMarkdownFile(config: LsConfiguration, workspace:
 	return undefined;
 }
 
+/**
+ * Cached result of checking whether the target of a link exists.
+ */
+export interface LinkedFileStat {
+	readonly exists: boolean;
+
+	/**
+	 * Is the target a directory? Links to directories resolve to the directory's index file.
+	 *
+	 * Only set if the target exists.
+	 */
+	readonly isDirectory?: boolean;
+}
+
+/**
+ * Open the file that a link points to as a text document, even if the file is not a markdown file.
+ *
+ * Markdown files are opened through {@link IWorkspace.openMarkdownDocument}. Other files are read using
+ * {@link IWorkspace.readFile} if the workspace supports it.
+ */
+export async function openLinkToTextFile(config: LsConfiguration, workspace: IWorkspace, resource: URI): Promise<ITextDocument | undefined> {
+	const doc = await openLinkToMarkdownFile(config, workspace, resource);
+	if (doc || !workspace.readFile) {
+		return doc;
+	}
+
+	const stat = await workspace.stat(resource);
+	if (!stat || stat.isDirectory) {
+		return undefined;
+	}
+
+	try {
+		const contents = await workspace.readFile(resource);
+		return contents ? new InMemoryDocument(resource, new TextDecoder().decode(contents)) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
 /**
  * Check that a link to a file exists.
  *
+ * Links to a directory resolve to the directory's {@link LsConfiguration.directoryIndexFileNames index file} if it has one.
+ *
  * @returns The resolved URI or `undefined` if the file does not exist.
  */
-export async function statLinkToMarkdownFile(config: LsConfiguration, workspace: IWorkspace, linkUri: URI, out_statCache?: ResourceMap<{ readonly exists: boolean }>): Promise<URI | undefined> {
+export async function statLinkToMarkdownFile(config: LsConfiguration, workspace: IWorkspace, linkUri: URI, out_statCache?: ResourceMap<LinkedFileStat>): Promise<URI | undefined> {
 	const exists = async (uri: URI): Promise<boolean> => {
 		const result = await workspace.stat(uri);
-		out_statCache?.set(uri, { exists: !!result });
+		out_statCache?.set(uri, { exists: !!result, isDirectory: result?.isDirectory });
 		return !!result;
 	};
 
-	if (await exists(linkUri)) {
+	const stat = await workspace.stat(linkUri);
+	out_statCache?.set(linkUri, { exists: !!stat, isDirectory: stat?.isDirectory });
+	if (stat) {
+		if (stat.isDirectory) {
+			return await findDirectoryIndexFile(config, workspace, linkUri, out_statCache) ?? linkUri;
+		}
 		return linkUri;
 	}
 
@@ -224,6 +288,50 @@ export async function statLinkToMarkdownFile(config: LsConfiguration, workspace:
 	return undefined;
 }
 
+/**
+ * Find the first of the {@link LsConfiguration.directoryIndexFileNames index files} that exists in a directory.
+ *
+ * @returns The uri of the index file or `undefined` if the directory does not have one.
+ */
+export async function findDirectoryIndexFile(config: LsConfiguration, workspace: IWorkspace, dir: URI, out_statCache?: ResourceMap<LinkedFileStat>): Promise<URI | undefined> {
+	for (const name of config.directoryIndexFileNames ?? []) {
+		const indexFile = Utils.joinPath(dir, name);
+		const stat = await workspace.stat(indexFile);
+		out_statCache?.set(indexFile, { exists: !!stat, isDirectory: stat?.isDirectory });
+		if (stat && !stat.isDirectory) {
+			return indexFile;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Check if `resource` is the {@link LsConfiguration.directoryIndexFileNames index file} that links to its directory
+ * resolve to.
+ *
+ * This is only the case if none of the index files that take precedence over it exist.
+ */
+export async function isDirectoryIndexFile(config: LsConfiguration, workspace: IWorkspace, resource: URI): Promise<boolean> {
+	const basename = Utils.basename(resource);
+	if (!config.directoryIndexFileNames?.includes(basename)) {
+		return false;
+	}
+
+	// Don't require that `resource` itself exists so that this also works for files that have just been renamed
+	const dir = Utils.dirname(resource);
+	for (const name of config.directoryIndexFileNames) {
+		if (name === basename) {
+			return true;
+		}
+
+		const stat = await workspace.stat(Utils.joinPath(dir, name));
+		if (stat && !stat.isDirectory) {
+			return false;
+		}
+	}
+	return false;
+}
+
 export function tryAppendMarkdownFileExtension(config: LsConfiguration, linkUri: URI): URI | undefined {
 	const ext = Utils.extname(linkUri).toLowerCase().replace(/^\./, '');
 	if (config.markdownFileExtensions.includes(ext)) {
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { CancellationToken, CancellationTokenSource } from 'vscode-languageserver-protocol';
+import { CancellationToken, CancellationTokenSource, Event } from 'vscode-languageserver-protocol';
 import { URI } from 'vscode-uri';
 import { getDocUri, ITextDocument } from './types/textDocument';
 import { Disposable } from './util/dispose';
@@ -32,7 +32,10 @@ export class MdDocumentInfoCache<T> extends Disposable {
 	readonly #workspace: IWorkspace;
 	readonly #getValue: GetValueFn<T>;
 
-	public constructor(workspace: IWorkspace, getValue: GetValueFn<T>) {
+	/**
+	 * @param onDidInvalidateAll Event that invalidates all values, for values that also depend on other documents.
+	 */
+	public constructor(workspace: IWorkspace, getValue: GetValueFn<T>, onDidInvalidateAll?: Event<void>) {
 		super();
 
 		this.#workspace = workspace;
@@ -40,6 +43,9 @@ export class MdDocumentInfoCache<T> extends Disposable {
 
 		this._register(this.#workspace.onDidChangeMarkdownDocument(doc => this.#invalidate(doc)));
 		this._register(this.#workspace.onDidDeleteMarkdownDocument(this.#onDidDeleteDocument, this));
+		if (onDidInvalidateAll) {
+			this._register(onDidInvalidateAll(this.#invalidateAll, this));
+		}
 	}
 
 	public async get(resource: URI): Promise<T | undefined> {
@@ -107,6 +113,12 @@ export class MdDocumentInfoCache<T> extends Disposable {
 			this.#cache.delete(resource);
 		}
 	}
+
+	#invalidateAll() {
+		for (const resource of Array.from(this.#cache.keys())) {
+			this.#onDidDeleteDocument(resource);
+		}
+	}
 }
 
 /**
@@ -127,7 +139,10 @@ export class MdWorkspaceInfoCache<T> extends Disposable {
 	readonly #workspace: IWorkspace;
 	readonly #getValue: GetValueFn<T>;
 
-	public constructor(workspace: IWorkspace, getValue: GetValueFn<T>) {
+	/**
+	 * @param onDidInvalidateAll Event that invalidates all values, for values that also depend on other documents.
+	 */
+	public constructor(workspace: IWorkspace, getValue: GetValueFn<T>, onDidInvalidateAll?: Event<void>) {
 		super();
 
 		this.#workspace = workspace;
@@ -136,6 +151,9 @@ export class MdWorkspaceInfoCache<T> extends Disposable {
 		this._register(this.#workspace.onDidChangeMarkdownDocument(this.#onDidChangeDocument, this));
 		this._register(this.#workspace.onDidCreateMarkdownDocument(this.#onDidChangeDocument, this));
 		this._register(this.#workspace.onDidDeleteMarkdownDocument(this.#onDidDeleteDocument, this));
+		if (onDidInvalidateAll) {
+			this._register(onDidInvalidateAll(this.#invalidateAll, this));
+		}
 	}
 
 	public async entries(): Promise<Array<[URI, T]>> {
@@ -199,4 +217,13 @@ export class MdWorkspaceInfoCache<T> extends Disposable {
 			this.#cache.delete(resource);
 		}
 	}
+
+	#invalidateAll() {
+		for (const resource of Array.from(this.#cache.keys())) {
+			this.#onDidDeleteDocument(resource);
+		}
+
+		// Repopulate the cache with every document on next access
+		this.#init = undefined;
+	}
 }